@@ -0,0 +1,57 @@
+// Armies are stored as their own documents, `{ name, gameSystem }`, unique per game system.
+// Miniatures keep the army name in their `army` field; renaming or merging an army rewrites
+// that field on every miniature of the same game system that uses the old name.
+
+/**
+ * Creates an army document for every game system / army pair used by a miniature that does
+ * not have one yet. Miniatures can gain new armies through imports and edits, so this runs
+ * before armies are listed rather than on every write.
+ */
+export async function syncArmies(db) {
+  const miniatures = await db.collection('miniatures')
+    .find({ army: { $type: 'string', $ne: '' }, gameSystem: { $type: 'string' } }, { projection: { gameSystem: 1, army: 1 } })
+    .toArray();
+  const pairs = new Map(miniatures.map(({ gameSystem, army }) => [JSON.stringify([gameSystem, army]), { gameSystem, name: army }]));
+  if (pairs.size === 0) {
+    return;
+  }
+  await db.collection('armies').bulkWrite([...pairs.values()].map(pair => ({
+    updateOne: {
+      filter: pair,
+      update: { $setOnInsert: pair },
+      upsert: true,
+    },
+  })), { ordered: false });
+}
+
+/**
+ * Moves every army of one game system to another, as part of a game system rename, merge or
+ * reassigning delete. An army whose name already exists in the target is folded into it.
+ */
+export async function moveArmiesToSystem(db, session, fromSystem, toSystem) {
+  const armies = db.collection('armies');
+  const [moving, existing] = await Promise.all([
+    armies.find({ gameSystem: fromSystem }, { session }).toArray(),
+    armies.find({ gameSystem: toSystem }, { session }).toArray(),
+  ]);
+  const existingNames = new Set(existing.map(army => army.name));
+  for (const army of moving) {
+    if (existingNames.has(army.name)) {
+      await armies.deleteOne({ _id: army._id }, { session });
+    } else {
+      await armies.updateOne({ _id: army._id }, { $set: { gameSystem: toSystem } }, { session });
+    }
+  }
+}
+
+/**
+ * Points every miniature using one army at another name within the same game system.
+ */
+export async function reassignMiniaturesArmy(db, session, gameSystem, fromName, toName) {
+  const result = await db.collection('miniatures').updateMany(
+    { gameSystem, army: fromName },
+    { $set: { army: toName }, $inc: { version: 1 } },
+    { session }
+  );
+  return result.modifiedCount;
+}
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import { ObjectId } from 'mongodb';
+import { promisify } from 'util';
+import { getDb } from './database.js';
+import { scopeToOwner } from './ownership.js';
+import { UPLOADS_URL_PREFIX } from './uploads.js';
+
+// Accounts are documents in `users`, `{ username, usernameKey, passwordHash, createdAt }`,
+// where `usernameKey` is the lowercased username. Logging in creates a session in `sessions`
+// and hands its token to the client, which sends it back as `Authorization: Bearer <token>`.
+// Only a hash of the token is stored, so a copy of the database cannot be used to log in.
+//
+// Uploaded images are private too, but browsers load them with <img> tags, which cannot send
+// that header, and the live change feed is read with an EventSource, which cannot either. The
+// token is therefore also kept in an HttpOnly cookie that is only sent for the uploads path
+// (see `requireUploadOwner`) and the event stream, so it never has to go in a URL.
+
+const scrypt = promisify(crypto.scrypt);
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+const TOKEN_BYTES = 32;
+const SESSION_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+const SESSION_COOKIE = 'session';
+// The paths the session cookie is sent for: images, and the event stream (see events.js).
+const SESSION_COOKIE_PATHS = [UPLOADS_URL_PREFIX, '/api/events'];
+
+// Compared against when a username does not exist, so a login takes as long either way.
+const UNKNOWN_USER_HASH = `scrypt:${'0'.repeat(SALT_BYTES * 2)}:${'0'.repeat(KEY_BYTES * 2)}`;
+
+/**
+ * Hashes a password with a random salt, as `scrypt:<salt>:<key>` in hex.
+ */
+export async function hashPassword(password) {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await scrypt(password, salt, KEY_BYTES);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+async function verifyPassword(password, passwordHash) {
+  const [scheme, salt, key] = passwordHash.split(':');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, 'hex');
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// The user as sent to clients.
+export const publicUser = (user) => ({ _id: user._id, username: user.username });
+
+/**
+ * Usernames are unique ignoring case, so "Alice" cannot sign up next to "alice".
+ */
+export const findUserByName = (db, username) =>
+  db.collection('users').findOne({ usernameKey: username.trim().toLowerCase() });
+
+/**
+ * Returns the user with this username and password, or null.
+ */
+export async function authenticate(db, username, password) {
+  const user = await findUserByName(db, username);
+  const matches = await verifyPassword(password, user?.passwordHash ?? UNKNOWN_USER_HASH);
+  return user && matches ? user : null;
+}
+
+/**
+ * Starts a session for the user and returns its token.
+ */
+export async function createSession(db, userId) {
+  const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+  const now = Date.now();
+  await db.collection('sessions').insertOne({
+    tokenHash: hashToken(token),
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_DURATION_MS).toISOString(),
+  });
+  return token;
+}
+
+export async function deleteSession(db, token) {
+  await db.collection('sessions').deleteOne({ tokenHash: hashToken(token) });
+}
+
+// The unexpired session with this token, or null.
+const findSession = (db, token) =>
+  token ? db.collection('sessions').findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date().toISOString() } }) : null;
+
+/**
+ * Whether the session with this token has neither ended nor expired.
+ */
+export async function isSessionActive(db, token) {
+  return Boolean(await findSession(db, token));
+}
+
+export async function deleteExpiredSessions(db) {
+  const result = await db.collection('sessions').deleteMany({ expiresAt: { $lt: new Date().toISOString() } });
+  return result.deletedCount;
+}
+
+/**
+ * Stores the session token in the cookie that authorizes image requests.
+ */
+export function setSessionCookie(res, token) {
+  for (const path of SESSION_COOKIE_PATHS) {
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: res.req.secure,
+      path,
+      maxAge: SESSION_DURATION_MS,
+    });
+  }
+}
+
+export function clearSessionCookie(res) {
+  for (const path of SESSION_COOKIE_PATHS) {
+    res.clearCookie(SESSION_COOKIE, { path });
+  }
+}
+
+const cookieTokenOf = (req) => {
+  for (const part of (req.get('Cookie') || '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return null;
+};
+
+// The user whose unexpired session has this token, or null.
+async function userForToken(db, token) {
+  const session = await findSession(db, token);
+  return session ? db.collection('users').findOne({ _id: session.userId }) : null;
+}
+
+// Browsers cannot set headers on an EventSource, so the event stream is authorized by the
+// session cookie instead.
+const tokenOf = (req) => {
+  const header = req.get('Authorization');
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+  return req.path === '/events' ? cookieTokenOf(req) : null;
+};
+
+/**
+ * Middleware that lets only logged-in users through. It sets `req.user`, `req.sessionToken`
+ * and `req.db`, the database as seen by that user (see ownership.js), which routes use
+ * instead of `getDb()`.
+ */
+export async function requireAuth(req, res, next) {
+  try {
+    const token = tokenOf(req);
+    const db = getDb();
+    const user = await userForToken(db, token);
+    if (!user) {
+      return res.status(401).json({ message: 'Please log in.' });
+    }
+    // Sessions started before images needed the cookie get it on their next request.
+    if (cookieTokenOf(req) !== token) {
+      setSessionCookie(res, token);
+    }
+    req.user = publicUser(user);
+    req.sessionToken = token;
+    req.db = scopeToOwner(db, user._id);
+    next();
+  } catch (error) {
+    res.status(500).json({ message: 'Error checking login', error: error.message });
+  }
+}
+
+/**
+ * Middleware for the uploads path, `/<miniature id>/<file>`: only the logged-in owner of the
+ * miniature gets through. Anyone else gets a 404, so it does not even tell which files exist.
+ */
+export async function requireUploadOwner(req, res, next) {
+  try {
+    const [, miniatureId] = req.path.split('/');
+    const user = ObjectId.isValid(miniatureId) ? await userForToken(getDb(), cookieTokenOf(req)) : null;
+    const miniature = user
+      ? await getDb().collection('miniatures').findOne({ _id: new ObjectId(miniatureId), ownerId: user._id }, { projection: { _id: 1 } })
+      : null;
+    if (!miniature) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ message: 'Error checking login', error: error.message });
+  }
+}
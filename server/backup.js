@@ -0,0 +1,206 @@
+import { ObjectId } from 'mongodb';
+import { validateMiniature, validateGameSystemName, validateStages, validateVersion, normalizeMiniature, normalizeStages } from './validation.js';
+import { stagesOf, loadWorkflows, validateWorkflowStatuses } from './workflows.js';
+import { createSnapshot } from './snapshots.js';
+import { withTransaction, SETTINGS_FILTER } from './database.js';
+import { NOT_DELETED, replacedByRestore } from './trash.js';
+import { readImageFile, writeImageFile, createThumbnail, isUploadOf } from './uploads.js';
+
+// A backup is a single JSON document holding everything needed to rebuild the collection:
+// miniatures with their ids and status history, game systems with their workflows, settings, and the contents
+// of every uploaded image. Thumbnails are not stored; they are regenerated on restore.
+// Mirrors `BACKUP_FORMAT` / `BACKUP_VERSION` in src/utils/backup.ts. The client migrates
+// older backups to this version before sending them.
+export const BACKUP_FORMAT = 'miniature-tracker-backup';
+export const BACKUP_VERSION = 2;
+
+/**
+ * Builds a backup of the current database, reading every uploaded image into it.
+ */
+export async function buildBackup(db) {
+  const [miniatures, gameSystems, settingsDoc] = await Promise.all([
+    // Trashed miniatures are left out; restoring a backup leaves the trash as it is.
+    db.collection('miniatures').find(NOT_DELETED).toArray(),
+    db.collection('gamesystems').find({}).sort({ name: 1 }).toArray(),
+    db.collection('settings').findOne(SETTINGS_FILTER),
+  ]);
+
+  const files = {};
+  for (const miniature of miniatures) {
+    for (const url of miniature.images || []) {
+      const data = await readImageFile(miniature._id, url);
+      if (data) {
+        files[url] = data.toString('base64');
+      }
+    }
+  }
+
+  const { _id, ...settings } = settingsDoc || {};
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    gameSystems: gameSystems.map(gs => gs.name),
+    workflows: Object.fromEntries(gameSystems.map(gs => [gs.name, stagesOf(gs)])),
+    settings,
+    miniatures: miniatures.map(({ thumbnails, ...miniature }) => miniature),
+    files,
+  };
+}
+
+const validateStatusHistory = (history, prefix) => {
+  if (history === undefined) return [];
+  if (!Array.isArray(history)) {
+    return [{ field: `${prefix}statusHistory`, message: 'Status history must be a list.' }];
+  }
+  return history
+    .map((change, index) => (
+      change && typeof change.to === 'string' && change.to !== '' && typeof change.changedAt === 'string'
+        ? null
+        : { field: `${prefix}statusHistory[${index}]`, message: 'Invalid status change.' }
+    ))
+    .filter(Boolean);
+};
+
+// The id of the miniature listing each uploaded image of a backup.
+const imageOwners = (backup) => new Map(backup.miniatures.flatMap(m =>
+  (m._id ? (m.images || []).map(url => [url, m._id]) : [])));
+
+/**
+ * Validates a backup document. Returns a list of `{ field, message }` errors.
+ */
+export function validateBackup(backup) {
+  if (!backup || typeof backup !== 'object' || backup.format !== BACKUP_FORMAT) {
+    return [{ field: 'format', message: 'This is not a miniature tracker backup.' }];
+  }
+  if (backup.version !== BACKUP_VERSION) {
+    return [{ field: 'version', message: `Unsupported backup version ${backup.version}; expected ${BACKUP_VERSION}.` }];
+  }
+
+  const errors = [];
+  if (!Array.isArray(backup.gameSystems)) {
+    errors.push({ field: 'gameSystems', message: '"gameSystems" must be an array.' });
+  } else {
+    backup.gameSystems.forEach((name, index) => errors.push(...validateGameSystemName(name, `gameSystems[${index}]`)));
+  }
+  if (!backup.workflows || typeof backup.workflows !== 'object' || Array.isArray(backup.workflows)) {
+    errors.push({ field: 'workflows', message: '"workflows" must be an object.' });
+  } else {
+    Object.entries(backup.workflows).forEach(([name, stages]) => errors.push(...validateStages(stages, `workflows[${name}]`)));
+  }
+  if (!backup.settings || typeof backup.settings !== 'object' || Array.isArray(backup.settings)) {
+    errors.push({ field: 'settings', message: '"settings" must be an object.' });
+  }
+  if (!backup.files || typeof backup.files !== 'object' || Array.isArray(backup.files)) {
+    errors.push({ field: 'files', message: '"files" must be an object.' });
+  }
+  if (!Array.isArray(backup.miniatures)) {
+    errors.push({ field: 'miniatures', message: '"miniatures" must be an array.' });
+    return errors;
+  }
+
+  const seenIds = new Set();
+  backup.miniatures.forEach((miniature, index) => {
+    const prefix = `miniatures[${index}].`;
+    const { _id, statusHistory, version, ...fields } = miniature || {};
+    if (_id !== undefined) {
+      if (typeof _id !== 'string' || !ObjectId.isValid(_id)) {
+        errors.push({ field: `${prefix}_id`, message: 'Invalid miniature ID format.' });
+      } else if (seenIds.has(_id)) {
+        errors.push({ field: `${prefix}_id`, message: 'Duplicate miniature ID.' });
+      } else {
+        seenIds.add(_id);
+      }
+    }
+    // Uploaded images must be files of the miniature itself, which needs its id.
+    const miniatureId = typeof _id === 'string' && ObjectId.isValid(_id) ? _id : null;
+    errors.push(...validateMiniature(fields, { prefix, miniatureId }));
+    errors.push(...validateStatusHistory(statusHistory, prefix));
+    errors.push(...validateVersion(version, prefix));
+  });
+
+  // Image files are keyed by URL. Each must be an upload of the miniature that lists it.
+  if (errors.length === 0) {
+    const ownerOf = imageOwners(backup);
+    Object.entries(backup.files).forEach(([url, data]) => {
+      if (!isUploadOf(url, ownerOf.get(url))) {
+        errors.push({ field: `files[${url}]`, message: 'Image file does not belong to any miniature.' });
+      } else if (typeof data !== 'string') {
+        errors.push({ field: `files[${url}]`, message: 'Image data must be base64 text.' });
+      }
+    });
+  }
+  return errors;
+}
+
+/**
+ * Checks the statuses of a validated backup's miniatures against the workflows they will
+ * have after the restore: the backup's own, or the stored ones for systems it does not cover.
+ */
+export async function validateBackupStatuses(db, backup) {
+  const workflows = await loadWorkflows(db);
+  Object.entries(backup.workflows).forEach(([name, stages]) => workflows.set(name.trim(), stages));
+  return validateWorkflowStatuses(
+    backup.miniatures.map(m => ({ gameSystem: m.gameSystem.trim(), status: m.status })),
+    workflows,
+    index => `miniatures[${index}].status`
+  );
+}
+
+/**
+ * Restores a validated backup. Image files are written first, then the miniatures are
+ * replaced in a single transaction after snapshotting the current collection. Game
+ * systems in the backup are added if missing and take the backup's workflows. Returns counts of
+ * what was restored.
+ */
+export async function restoreBackup(db, backup) {
+  const thumbnailsByUrl = new Map();
+  const ownerOf = imageOwners(backup);
+  for (const [url, data] of Object.entries(backup.files)) {
+    const miniatureId = ownerOf.get(url);
+    const file = await writeImageFile(miniatureId, url, Buffer.from(data, 'base64'));
+    try {
+      thumbnailsByUrl.set(url, await createThumbnail(miniatureId, file));
+    } catch (error) {
+      console.error(`Could not create a thumbnail for ${url}:`, error.message);
+    }
+  }
+
+  const miniatures = backup.miniatures.map(({ _id, statusHistory, version, ...fields }) => {
+    const miniature = normalizeMiniature(fields);
+    return {
+      ...miniature,
+      _id: _id ? new ObjectId(_id) : new ObjectId(),
+      statusHistory: statusHistory || [],
+      version: version ?? 0,
+      thumbnails: (miniature.images || []).map(url => thumbnailsByUrl.get(url) || null),
+    };
+  });
+
+  let newSystems = [];
+  await withTransaction(async (session) => {
+    await createSnapshot(db, session, 'Before backup restore');
+    const miniaturesCollection = db.collection('miniatures');
+    await miniaturesCollection.deleteMany(replacedByRestore(miniatures.map(m => m._id)), { session });
+    if (miniatures.length > 0) {
+      await miniaturesCollection.insertMany(miniatures, { session });
+    }
+    const existingSystems = await db.collection('gamesystems').find({}, { session }).toArray();
+    const existingNames = new Set(existingSystems.map(gs => gs.name.toLowerCase()));
+    newSystems = [...new Set(backup.gameSystems.map(name => name.trim()))]
+      .filter(name => !existingNames.has(name.toLowerCase()));
+    if (newSystems.length > 0) {
+      await db.collection('gamesystems').insertMany(newSystems.map(name => ({ name })), { session });
+    }
+    for (const [name, stages] of Object.entries(backup.workflows)) {
+      await db.collection('gamesystems').updateOne({ name: name.trim() }, { $set: { stages: normalizeStages(stages) } }, { session });
+    }
+    await db.collection('settings').replaceOne(
+      SETTINGS_FILTER,
+      backup.settings,
+      { upsert: true, session }
+    );
+  });
+
+  return { miniatures: miniatures.length, gameSystems: newSystems.length, images: Object.keys(backup.files).length };
+}
@@ -1,21 +1,43 @@
-import { MongoClient } from 'mongodb';
+import path from 'path';
+import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
+import { createMongoStorage } from './storage/mongoStorage.js';
+import { createFileStorage } from './storage/fileStorage.js';
 
 dotenv.config({ path: './server/.env' });
 
-const rawUri = process.env.MONGODB_URI;
-if (!rawUri) {
-  throw new Error('Please define the MONGODB_URI environment variable inside server/.env');
-}
+// Each user's settings are a single document in the `settings` collection. Routes only see
+// their own user's documents (see ownership.js), so an empty filter finds it.
+export const SETTINGS_FILTER = {};
+
+const DEFAULT_DATA_FILE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'database.json');
+
+const unquote = (value) => value.trim().replace(/^"|"$/g, '');
 
-const dbName = process.env.DB_NAME;
-if (!dbName) {
+// A storage is `{ description, connect(), withTransaction(callback) }`. `connect` resolves to
+// the database that `getDb` returns, which has MongoDB's `collection(name)` API.
+//
+// STORAGE picks it: `mongo` (needs MONGODB_URI and DB_NAME) or `file` (a JSON file at
+// DATA_FILE, server/data/database.json by default). Without STORAGE, MongoDB is used when
+// MONGODB_URI is set and the file otherwise, so the server runs with no external services.
+function createStorage() {
+  const kind = process.env.STORAGE || (process.env.MONGODB_URI ? 'mongo' : 'file');
+  if (kind === 'file') {
+    return createFileStorage(process.env.DATA_FILE ? path.resolve(unquote(process.env.DATA_FILE)) : DEFAULT_DATA_FILE);
+  }
+  if (kind !== 'mongo') {
+    throw new Error(`STORAGE must be "mongo" or "file", not "${kind}".`);
+  }
+  if (!process.env.MONGODB_URI) {
+    throw new Error('Please define the MONGODB_URI environment variable inside server/.env');
+  }
+  if (!process.env.DB_NAME) {
     throw new Error('Please define the DB_NAME environment variable inside server/.env');
+  }
+  return createMongoStorage(unquote(process.env.MONGODB_URI), process.env.DB_NAME);
 }
 
-const uri = rawUri.trim().replace(/^"|"$/g, '');
-
-const client = new MongoClient(uri);
+const storage = createStorage();
 let db = null;
 
 export async function connectToDatabase() {
@@ -23,16 +45,23 @@ export async function connectToDatabase() {
     return;
   }
   try {
-    await client.connect();
-    db = client.db(dbName);
-    console.log(`Successfully connected to MongoDB database: ${dbName}.`);
+    db = await storage.connect();
+    console.log(`Successfully connected to the ${storage.description}.`);
   } catch (err) {
-    console.error('Failed to connect to MongoDB', err);
+    console.error(`Failed to connect to the ${storage.description}`, err);
     // Make sure db is null on failure so the middleware catches it.
-    db = null; 
+    db = null;
   }
 }
 
 export function getDb() {
   return db;
-}
\ No newline at end of file
+}
+
+/**
+ * Runs `callback` inside a transaction, committing if it resolves and undoing its changes
+ * if it throws. Every operation in the callback must pass the given session.
+ */
+export function withTransaction(callback) {
+  return storage.withTransaction(callback);
+}
@@ -0,0 +1,108 @@
+// Live updates for open browser tabs over Server-Sent Events. Each tab keeps one
+// `GET /api/events` stream open, and every route that writes publishes what it changed so
+// the other tabs can patch their state in place instead of reloading.
+//
+// Event types, with their JSON data:
+//   miniatures-saved     { miniatures }  created or updated miniatures, as stored
+//   miniatures-deleted   { ids }         miniatures moved to the trash
+//   trash-changed        {}              miniatures restored from or purged out of the trash
+//   gamesystems-changed  { gameSystems } every game system with its workflow
+//   armies-changed       { armies }      every army
+//   resync               {}              too much changed to describe; reload everything
+//
+// A tab sends the same random id with its writes (`X-Client-Id` header) as on its stream
+// (`clientId` query parameter), so it is not sent back the changes it made itself. Events only
+// go to the tabs of the user who made the change.
+//
+// A stream belongs to the session that opened it. Logging out closes the session's streams,
+// and each event is only sent after checking that the stream's session is still active, so
+// expired or deleted sessions stop receiving changes too.
+
+import { getDb } from './database.js';
+import { isSessionActive } from './auth.js';
+
+// Comments sent this often keep idle connections from being closed by proxies.
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// How long browsers wait before reconnecting a dropped stream.
+const RECONNECT_DELAY_MS = 3000;
+
+const clients = new Set();
+let nextEventId = 1;
+
+/**
+ * Opens an event stream on the response and keeps it until the client disconnects.
+ */
+export function openEventStream(req, res) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  const client = {
+    res,
+    ownerId: req.user._id.toString(),
+    clientId: typeof req.query.clientId === 'string' ? req.query.clientId : null,
+    sessionToken: req.sessionToken,
+    heartbeat: setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS),
+    // Events are sent one after another, each after its session check, so they keep their order.
+    delivery: Promise.resolve(),
+  };
+  clients.add(client);
+  req.on('close', () => stopStream(client));
+}
+
+function stopStream(client) {
+  clearInterval(client.heartbeat);
+  clients.delete(client);
+}
+
+// Ends a stream from the server's side. The browser reconnects, and is refused without a session.
+function closeStream(client) {
+  stopStream(client);
+  client.res.end();
+}
+
+/**
+ * Closes the streams opened with this session token, when the session ends.
+ */
+export function closeSessionStreams(sessionToken) {
+  for (const client of clients) {
+    if (client.sessionToken === sessionToken) {
+      closeStream(client);
+    }
+  }
+}
+
+/**
+ * Closes the streams whose session has expired or was deleted.
+ */
+export async function closeEndedStreams() {
+  for (const client of [...clients]) {
+    if (!(await isSessionActive(getDb(), client.sessionToken))) {
+      closeStream(client);
+    }
+  }
+}
+
+/**
+ * Sends an event to every connected tab of the requesting user except the one that made the request.
+ */
+export function publish(req, type, data = {}) {
+  const ownerId = req.user._id.toString();
+  const origin = req.get('X-Client-Id');
+  const message = `id: ${nextEventId++}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const client of clients) {
+    if (client.ownerId === ownerId && (!origin || client.clientId !== origin)) {
+      client.delivery = client.delivery.then(async () => {
+        if (!clients.has(client)) return;
+        if (await isSessionActive(getDb(), client.sessionToken)) {
+          client.res.write(message);
+        } else {
+          closeStream(client);
+        }
+      }).catch(error => console.error('Failed to send a live event', error));
+    }
+  }
+}
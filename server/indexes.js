@@ -0,0 +1,25 @@
+// The indexes MongoDB keeps, by collection. Every per-user query filters on `ownerId` (see
+// ownership.js), so it leads each of them. The file storage scans its documents in memory
+// and needs none.
+const INDEXES = {
+  miniatures: [
+    // One per sort order of the collection list (see miniatureQuery.js), trash excluded.
+    ...['modelName', 'gameSystem', 'army', 'status', 'modelCount']
+      .map(field => ({ key: { ownerId: 1, deletedAt: 1, [field]: 1, _id: 1 } })),
+    // Game system and army filters, and the renames and merges that rewrite them.
+    { key: { ownerId: 1, gameSystem: 1, army: 1 } },
+    { key: { ownerId: 1, gameSystem: 1, status: 1 } },
+  ],
+  sessions: [{ key: { tokenHash: 1 } }],
+  users: [{ key: { usernameKey: 1 } }],
+  shares: [{ key: { token: 1 } }],
+};
+
+/**
+ * Creates any missing index. Existing indexes with the same keys are left as they are.
+ */
+export async function ensureIndexes(db) {
+  for (const [name, indexes] of Object.entries(INDEXES)) {
+    await db.collection(name).createIndexes(indexes);
+  }
+}
@@ -0,0 +1,166 @@
+import { ObjectId } from 'mongodb';
+import { NOT_DELETED } from './trash.js';
+import { escapeRegex } from './validation.js';
+import { parseSearch } from '../shared/searchSyntax.js';
+import { searchConditions } from './searchQuery.js';
+
+// The collection list is filtered, sorted and paged by the server. `GET /api/miniatures`
+// takes these query parameters, all optional:
+//   gameSystem  exact game system name
+//   army        part of the army name, ignoring case
+//   status      exact status
+//   q           a search in the query language of searchQuery.js, such as
+//               `army:"Blood Angels" status:<painted -notes:magnetised`
+//   sort, dir   a sortable field and `asc` or `desc` (default `modelName`, `asc`)
+//   limit       page size; with it the response is a page, `{ items, nextCursor, total }`
+//   cursor      the `nextCursor` of the previous page
+//
+// Pages are keyset-paginated: the cursor holds the sort value and id of the last miniature
+// sent, and the next page starts after it, so miniatures added or removed meanwhile do not
+// shift the pages. Strings sort by code point, as MongoDB does without a collation.
+
+// Mirrors `SORTABLE_KEYS` in src/utils/routing.ts. Each has an index (see indexes.js).
+export const SORTABLE_FIELDS = ['modelName', 'gameSystem', 'army', 'status', 'modelCount'];
+
+export const MAX_PAGE_SIZE = 500;
+const MAX_SEARCH_LENGTH = 200;
+
+const encodeCursor = (value, id) => Buffer.from(JSON.stringify([value, id.toHexString()])).toString('base64url');
+
+const decodeCursor = (cursor) => {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    return (typeof value === 'string' || typeof value === 'number') && ObjectId.isValid(id)
+      ? { value, id: new ObjectId(id) }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const optionalString = (query, name, errors) => {
+  const value = query[name];
+  if (value === undefined || value === '') return null;
+  if (typeof value !== 'string' || value.length > MAX_SEARCH_LENGTH) {
+    errors.push({ field: name, message: `"${name}" must be text of at most ${MAX_SEARCH_LENGTH} characters.` });
+    return null;
+  }
+  return value;
+};
+
+/**
+ * Reads the list parameters of a request. Returns `{ errors }` when any is invalid, and
+ * otherwise `{ filter, sort, limit, after }`, where `filter` matches the miniatures of the
+ * whole list, `limit` is null when no page was asked for and `after` is the decoded cursor.
+ * `workflows` is the map `loadWorkflows` returns, for status comparisons in the search.
+ */
+export function parseMiniatureQuery(query, workflows) {
+  const errors = [];
+  const gameSystem = optionalString(query, 'gameSystem', errors);
+  const army = optionalString(query, 'army', errors);
+  const status = optionalString(query, 'status', errors);
+  const search = parseSearch(optionalString(query, 'q', errors) ?? '');
+  search.errors.forEach(({ message }) => errors.push({ field: 'q', message }));
+
+  const sortField = query.sort ?? 'modelName';
+  if (!SORTABLE_FIELDS.includes(sortField)) {
+    errors.push({ field: 'sort', message: `"sort" must be one of: ${SORTABLE_FIELDS.join(', ')}.` });
+  }
+  const direction = query.dir ?? 'asc';
+  if (direction !== 'asc' && direction !== 'desc') {
+    errors.push({ field: 'dir', message: '"dir" must be "asc" or "desc".' });
+  }
+
+  let limit = null;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      errors.push({ field: 'limit', message: `"limit" must be a whole number from 1 to ${MAX_PAGE_SIZE}.` });
+    }
+  }
+  let after = null;
+  if (query.cursor !== undefined) {
+    after = typeof query.cursor === 'string' ? decodeCursor(query.cursor) : null;
+    if (!after) {
+      errors.push({ field: 'cursor', message: '"cursor" is not a cursor this server returned.' });
+    } else if (limit === null) {
+      errors.push({ field: 'cursor', message: '"cursor" needs a "limit".' });
+    }
+  }
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const conditions = [NOT_DELETED];
+  if (gameSystem !== null) conditions.push({ gameSystem });
+  if (army !== null) conditions.push({ army: { $regex: escapeRegex(army), $options: 'i' } });
+  if (status !== null) conditions.push({ status });
+  conditions.push(...searchConditions(search.terms, workflows));
+  const order = direction === 'asc' ? 1 : -1;
+  return {
+    filter: { $and: conditions },
+    sort: { [sortField]: order, _id: order },
+    limit,
+    after,
+  };
+}
+
+/**
+ * Loads one page of the list described by `parseMiniatureQuery`'s result.
+ */
+export async function findMiniaturePage(db, { filter, sort, limit, after }) {
+  const [sortField, order] = Object.entries(sort)[0];
+  const comparison = order === 1 ? '$gt' : '$lt';
+  const pageFilter = after
+    ? { $and: [filter, { $or: [
+      { [sortField]: { [comparison]: after.value } },
+      { [sortField]: after.value, _id: { [comparison]: after.id } },
+    ] }] }
+    : filter;
+  const miniatures = db.collection('miniatures');
+  // One extra miniature tells whether there is a next page.
+  const [docs, total] = await Promise.all([
+    miniatures.find(pageFilter).sort(sort).limit(limit + 1).toArray(),
+    miniatures.countDocuments(filter),
+  ]);
+  const items = docs.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: docs.length > limit ? encodeCursor(last[sortField], last._id) : null,
+    total,
+  };
+}
+
+
+/**
+ * The ids of every miniature of the list described by `parseMiniatureQuery`'s result, in
+ * list order, as strings.
+ */
+export async function findMiniatureIds(db, { filter, sort }) {
+  const docs = await db.collection('miniatures').find(filter, { projection: { _id: 1 } }).sort(sort).toArray();
+  return docs.map(doc => doc._id.toString());
+}
+
+/**
+ * The miniatures of the list described by `parseMiniatureQuery`'s result, counted per game
+ * system, army, name and status as `{ gameSystem, army, modelName, status, modelCount,
+ * miniatureCount }`. Mirrors `summarizeMiniatures` in src/utils/miniatureQuery.ts.
+ */
+export async function summarizeMiniatures(db, { filter }) {
+  const docs = await db.collection('miniatures')
+    .find(filter, { projection: { gameSystem: 1, army: 1, modelName: 1, status: 1, modelCount: 1 } })
+    .toArray();
+  const groups = new Map();
+  docs.forEach(({ gameSystem, army, modelName, status, modelCount }) => {
+    const key = JSON.stringify([gameSystem, army, modelName, status]);
+    const group = groups.get(key);
+    if (group) {
+      group.modelCount += modelCount;
+      group.miniatureCount += 1;
+    } else {
+      groups.set(key, { gameSystem, army, modelName, status, modelCount, miniatureCount: 1 });
+    }
+  });
+  return [...groups.values()];
+}
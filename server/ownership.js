@@ -0,0 +1,92 @@
+// Every document belongs to a user, recorded in its `ownerId`. Routes reach the database
+// through `scopeToOwner`, which confines them to one user's documents: filters only match
+// that user's documents, new documents are stamped with the owner, and `ownerId` is left out
+// of everything read. Code given a scoped database needs no changes to stay within its user.
+
+// Collections holding per-user data. `users` and `sessions` are shared.
+export const OWNED_COLLECTIONS = ['miniatures', 'gamesystems', 'armies', 'snapshots', 'snapshot_items', 'settings', 'shares'];
+
+const withoutOwner = ({ ownerId, ...doc }) => doc;
+
+const scopeCursor = (cursor) => ({
+  sort(spec) {
+    cursor.sort(spec);
+    return this;
+  },
+  skip(count) {
+    cursor.skip(count);
+    return this;
+  },
+  limit(count) {
+    cursor.limit(count);
+    return this;
+  },
+  async toArray() {
+    return (await cursor.toArray()).map(withoutOwner);
+  },
+});
+
+/**
+ * A view of `db` that only sees and writes the documents of the user `ownerId`.
+ */
+export function scopeToOwner(db, ownerId) {
+  const owned = (filter = {}) => ({ ...filter, ownerId });
+  const stamp = (doc) => ({ ...doc, ownerId });
+
+  const scopeOperation = (operation) => {
+    const [type, args] = Object.entries(operation)[0];
+    switch (type) {
+      case 'insertOne':
+        return { insertOne: { ...args, document: stamp(args.document) } };
+      case 'replaceOne':
+        return { replaceOne: { ...args, filter: owned(args.filter), replacement: stamp(args.replacement) } };
+      default:
+        return { [type]: { ...args, filter: owned(args.filter) } };
+    }
+  };
+
+  return {
+    collection(name) {
+      const collection = db.collection(name);
+      return {
+        find: (filter, options) => scopeCursor(collection.find(owned(filter), options)),
+        findOne: async (filter, options) => {
+          const doc = await collection.findOne(owned(filter), options);
+          return doc && withoutOwner(doc);
+        },
+        countDocuments: (filter, options) => collection.countDocuments(owned(filter), options),
+        distinct: (field, filter, options) => collection.distinct(field, owned(filter), options),
+        insertOne: (doc, options) => collection.insertOne(stamp(doc), options),
+        insertMany: (docs, options) => collection.insertMany(docs.map(stamp), options),
+        updateOne: (filter, update, options) => collection.updateOne(owned(filter), update, options),
+        updateMany: (filter, update, options) => collection.updateMany(owned(filter), update, options),
+        replaceOne: (filter, replacement, options) => collection.replaceOne(owned(filter), stamp(replacement), options),
+        deleteOne: (filter, options) => collection.deleteOne(owned(filter), options),
+        deleteMany: (filter, options) => collection.deleteMany(owned(filter), options),
+        bulkWrite: (operations, options) => collection.bulkWrite(operations.map(scopeOperation), options),
+      };
+    },
+  };
+}
+
+/**
+ * Gives every document that has no owner yet to `ownerId`. Data from before accounts existed
+ * goes to the first user who signs up.
+ */
+export async function adoptUnownedData(db, ownerId) {
+  for (const name of OWNED_COLLECTIONS) {
+    await db.collection(name).updateMany({ ownerId: { $exists: false } }, { $set: { ownerId } });
+  }
+}
+
+/**
+ * The ids among `ids` of documents in `name` that belong to a user other than `ownerId`.
+ * Writes that keep a document's id must not reach another user's document or the uploads
+ * stored under that id.
+ */
+export async function idsOwnedByOthers(db, name, ids, ownerId) {
+  const docs = await db.collection(name)
+    .find({ _id: { $in: ids }, ownerId: { $ne: ownerId } }, { projection: { _id: 1 } })
+    .toArray();
+  return docs.map(doc => doc._id.toString());
+}
@@ -0,0 +1,79 @@
+import { escapeRegex } from './validation.js';
+import { DEFAULT_STAGES } from './workflows.js';
+
+// Turns the query language of the collection search box, sent as the `q` parameter of
+// `GET /api/miniatures`, into miniatures filter conditions. The syntax is documented and
+// parsed in shared/searchSyntax.js, which the client parses it with too.
+
+const FIELD_PATHS = {
+  name: 'modelName',
+  system: 'gameSystem',
+  army: 'army',
+  status: 'status',
+  count: 'modelCount',
+  notes: 'notes',
+};
+
+// Plain text is looked for in these fields.
+const TEXT_PATHS = ['modelName', 'gameSystem', 'army', 'notes'];
+
+const MONGO_COMPARISONS = { ':': '$eq', '=': '$eq', '<': '$lt', '<=': '$lte', '>': '$gt', '>=': '$gte' };
+
+// A condition no document meets.
+const NOTHING = { _id: { $in: [] } };
+
+const containing = (text) => ({ $regex: escapeRegex(text), $options: 'i' });
+const equalIgnoringCase = (text) => ({ $regex: `^${escapeRegex(text)}$`, $options: 'i' });
+
+// The statuses of a workflow on the `comparison` side of the stage named `value`.
+const stagesComparedTo = (stages, comparison, value) => {
+  const target = stages.findIndex(stage => stage.name.toLowerCase() === value.toLowerCase());
+  if (target === -1) return [];
+  return stages
+    .filter((stage, index) => {
+      const difference = index - target;
+      return comparison === '<' ? difference < 0
+        : comparison === '<=' ? difference <= 0
+        : comparison === '>' ? difference > 0
+        : difference >= 0;
+    })
+    .map(stage => stage.name);
+};
+
+// Status comparisons depend on each game system's workflow, so they become one condition per
+// stored workflow plus one for the systems that use the default.
+const statusComparison = (comparison, value, workflows) => {
+  const conditions = [...workflows].map(([gameSystem, stages]) =>
+    ({ gameSystem, status: { $in: stagesComparedTo(stages, comparison, value) } }));
+  conditions.push({
+    gameSystem: { $nin: [...workflows.keys()] },
+    status: { $in: stagesComparedTo(DEFAULT_STAGES, comparison, value) },
+  });
+  const possible = conditions.filter(condition => condition.status.$in.length > 0);
+  return possible.length > 0 ? { $or: possible } : NOTHING;
+};
+
+const termCondition = (term, workflows) => {
+  if (term.type === 'text') {
+    return { $or: TEXT_PATHS.map(path => ({ [path]: containing(term.text) })) };
+  }
+  const path = FIELD_PATHS[term.field];
+  if (term.field === 'count') {
+    return { [path]: { [MONGO_COMPARISONS[term.comparison]]: term.value } };
+  }
+  if (term.field === 'status') {
+    return term.comparison === ':' || term.comparison === '='
+      ? { [path]: equalIgnoringCase(term.value) }
+      : statusComparison(term.comparison, term.value, workflows);
+  }
+  return { [path]: term.comparison === '=' ? equalIgnoringCase(term.value) : containing(term.value) };
+};
+
+/**
+ * The miniatures filter conditions for parsed search terms, one per term. `workflows` is the
+ * map `loadWorkflows` returns, for comparing statuses.
+ */
+export const searchConditions = (terms, workflows) => terms.map(term => {
+  const condition = termCondition(term, workflows);
+  return term.negated ? { $nor: [condition] } : condition;
+});
@@ -1,15 +1,101 @@
 import express from 'express';
 import cors from 'cors';
-import { connectToDatabase, getDb } from './database.js';
+import { connectToDatabase, getDb, withTransaction } from './database.js';
+import { createSnapshot, getSnapshotMiniatures, deleteSnapshot } from './snapshots.js';
+import { buildBackup, validateBackup, validateBackupStatuses, restoreBackup } from './backup.js';
+import { syncArmies, moveArmiesToSystem, reassignMiniaturesArmy } from './armies.js';
+import { stagesOf, loadWorkflows, validateWorkflowStatuses, addMissingStages } from './workflows.js';
+import {
+  NOT_DELETED,
+  IN_TRASH,
+  replacedByRestore,
+  MAX_RETENTION_DAYS,
+  getRetentionDays,
+  setRetentionDays,
+  purgeMiniatures,
+  purgeExpiredTrash,
+} from './trash.js';
+import { openEventStream, publish, closeSessionStreams, closeEndedStreams } from './events.js';
+import {
+  requireAuth,
+  requireUploadOwner,
+  setSessionCookie,
+  clearSessionCookie,
+  authenticate,
+  findUserByName,
+  hashPassword,
+  createSession,
+  deleteSession,
+  deleteExpiredSessions,
+  publicUser,
+} from './auth.js';
+import { scopeToOwner, adoptUnownedData, idsOwnedByOthers } from './ownership.js';
+import { parseMiniatureQuery, findMiniaturePage, findMiniatureIds, summarizeMiniatures } from './miniatureQuery.js';
+import { newShareToken, loadShowcase, findShowcaseMiniature, moveSharesToSystem, moveSharesToArmy, deleteSharesOf } from './shares.js';
 import { ObjectId } from 'mongodb';
+import {
+  UPLOADS_DIR,
+  UPLOADS_URL_PREFIX,
+  uploadImages,
+  imageUrlFor,
+  createThumbnail,
+  removeImageFile,
+  removeUploadedFiles,
+  uploadFilePath,
+} from './uploads.js';
+import {
+  validateMiniature,
+  validateMiniatureUpdate,
+  validateBulkUpdates,
+  validateMiniatureList,
+  validateStoredMiniatures,
+  validateVersion,
+  validateIds,
+  validateGameSystemName,
+  validateArmyName,
+  validateStages,
+  validateCredentials,
+  sendValidationErrors,
+  normalizeMiniature,
+  normalizeStages,
+  escapeRegex,
+} from './validation.js';
 
 const app = express();
 const port = process.env.PORT || 3001;
 
+// Backups embed every image, so a restore gets a much larger body limit than the rest of the
+// API. Its body is parsed by the route itself, once the request is known to be logged in.
+const BACKUP_RESTORE_PATH = '/api/backup/restore';
+
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ type: req => req.path !== BACKUP_RESTORE_PATH && req.is('application/json') }));
 
-connectToDatabase();
+// How often trashed miniatures past the retention period and expired sessions are purged.
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const purgeExpiredDataIfConnected = async () => {
+  const db = getDb();
+  if (!db) return;
+  try {
+    // Each user has their own retention period.
+    const users = await db.collection('users').find({}, { projection: { _id: 1 } }).toArray();
+    let purged = 0;
+    for (const { _id } of users) {
+      purged += await purgeExpiredTrash(scopeToOwner(db, _id));
+    }
+    if (purged > 0) {
+      console.log(`Purged ${purged} expired miniatures from the trash.`);
+    }
+    await deleteExpiredSessions(db);
+    await closeEndedStreams();
+  } catch (error) {
+    console.error('Failed to purge expired data', error);
+  }
+};
+
+connectToDatabase().then(purgeExpiredDataIfConnected);
+setInterval(purgeExpiredDataIfConnected, PURGE_INTERVAL_MS);
 
 const checkDbConnection = (req, res, next) => {
   if (!getDb()) {
@@ -19,10 +105,209 @@ const checkDbConnection = (req, res, next) => {
 };
 app.use(checkDbConnection);
 
-// GET all miniatures
+// Uploaded images are only served to the owner of their miniature; see `requireUploadOwner`.
+app.use(UPLOADS_URL_PREFIX, requireUploadOwner, express.static(UPLOADS_DIR));
+
+// --- ACCOUNT ROUTES ---
+
+// POST create an account and log in to it. The first account takes over the data stored
+// before accounts existed.
+app.post('/api/auth/register', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+    const errors = validateCredentials(username, password);
+    if (errors.length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+    const db = getDb();
+    if (await findUserByName(db, username)) {
+      return sendValidationErrors(res, [{ field: 'username', message: 'This username is taken.' }]);
+    }
+    const isFirstUser = (await db.collection('users').countDocuments({})) === 0;
+    const user = {
+      username: username.trim(),
+      usernameKey: username.trim().toLowerCase(),
+      passwordHash: await hashPassword(password),
+      createdAt: new Date().toISOString(),
+    };
+    const { insertedId } = await db.collection('users').insertOne(user);
+    if (isFirstUser) {
+      await adoptUnownedData(db, insertedId);
+    }
+    const token = await createSession(db, insertedId);
+    setSessionCookie(res, token);
+    res.status(201).json({ token, user: publicUser({ ...user, _id: insertedId }) });
+  } catch (error) {
+    res.status(500).json({ message: 'Error creating account', error: error.message });
+  }
+});
+
+// POST log in with a username and password
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ message: 'Username and password are required.' });
+    }
+    const db = getDb();
+    const user = await authenticate(db, username, password);
+    if (!user) {
+      return res.status(401).json({ message: 'Wrong username or password.' });
+    }
+    const token = await createSession(db, user._id);
+    setSessionCookie(res, token);
+    res.json({ token, user: publicUser(user) });
+  } catch (error) {
+    res.status(500).json({ message: 'Error logging in', error: error.message });
+  }
+});
+
+// GET a shared showcase: the miniatures behind a public link, read-only and without a login
+app.get('/api/showcase/:token', async (req, res) => {
+  try {
+    const showcase = await loadShowcase(getDb(), req.params.token);
+    if (!showcase) {
+      return res.status(404).json({ message: 'This link does not exist or has been revoked.' });
+    }
+    res.json(showcase);
+  } catch (error) {
+    res.status(500).json({ message: 'Error fetching showcase', error: error.message });
+  }
+});
+
+// GET an uploaded image of a miniature a showcase shows
+app.get('/api/showcase/:token/uploads/:id/*', async (req, res) => {
+  try {
+    const { token, id } = req.params;
+    const url = `${UPLOADS_URL_PREFIX}/${id}/${req.params[0]}`;
+    const miniature = ObjectId.isValid(id) ? await findShowcaseMiniature(getDb(), token, new ObjectId(id)) : null;
+    const isShown = !!miniature && [...(miniature.images || []), ...(miniature.thumbnails || [])].includes(url);
+    const filePath = isShown ? uploadFilePath(id, url) : null;
+    if (!filePath) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+    res.sendFile(filePath, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ message: 'Image not found' });
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ message: 'Error fetching image', error: error.message });
+  }
+});
+
+// Everything below belongs to a user and needs a login.
+app.use('/api', requireAuth);
+
+// POST log out, ending the session of the token used
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    await deleteSession(getDb(), req.sessionToken);
+    closeSessionStreams(req.sessionToken);
+    clearSessionCookie(res);
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ message: 'Error logging out', error: error.message });
+  }
+});
+
+// GET the live change feed (Server-Sent Events); see events.js
+app.get('/api/events', openEventStream);
+
+const publishGameSystems = async (req) => {
+  const gameSystems = await req.db.collection('gamesystems').find({}).sort({ name: 1 }).toArray();
+  publish(req, 'gamesystems-changed', { gameSystems: gameSystems.map(system => ({ name: system.name, stages: stagesOf(system) })) });
+};
+
+const publishArmies = async (req) => {
+  const armies = await req.db.collection('armies').find({}).sort({ gameSystem: 1, name: 1 }).toArray();
+  publish(req, 'armies-changed', { armies });
+};
+
+// Builds a status history entry. `from` is null for a miniature's initial status.
+const createStatusChange = (from, to, note) => {
+  const change = { from, to, changedAt: new Date().toISOString() };
+  if (typeof note === 'string' && note.trim()) {
+    change.note = note.trim();
+  }
+  return change;
+};
+
+// Miniatures saved before versioning was added have no `version` and count as version 0.
+const versionOf = (miniature) => miniature.version ?? 0;
+const versionFilter = (miniature) => ({ version: miniature.version ?? null });
+
+// Errors for the miniatures of a request whose `_id` belongs to another account.
+const foreignIdErrors = async (req, miniatures, field = 'miniatures') => {
+  const ids = miniatures.filter(m => m._id).map(m => new ObjectId(m._id));
+  const foreign = new Set(await idsOwnedByOthers(getDb(), 'miniatures', ids, req.user._id));
+  return miniatures
+    .map((m, index) => (m._id && foreign.has(new ObjectId(m._id).toString()) ? { field: `${field}[${index}]._id`, message: 'This id belongs to a miniature of another account.' } : null))
+    .filter(Boolean);
+};
+
+const sendVersionConflict = (res, current) =>
+  res.status(409).json({ message: 'This miniature was changed by someone else while you were editing it.', current });
+
+// GET the miniatures that are not in the trash, filtered and sorted by the query parameters
+// (see miniatureQuery.js). With `limit` one page is sent, `{ items, nextCursor, total }`;
+// without it, every matching miniature.
 app.get('/api/miniatures', async (req, res) => {
   try {
-    const miniatures = await getDb().collection('miniatures').find({}).toArray();
+    const query = parseMiniatureQuery(req.query, await loadWorkflows(req.db));
+    if (query.errors) {
+      return sendValidationErrors(res, query.errors);
+    }
+    if (query.limit !== null) {
+      return res.json(await findMiniaturePage(req.db, query));
+    }
+    const miniatures = await req.db.collection('miniatures').find(query.filter).sort(query.sort).toArray();
+    res.json(miniatures);
+  } catch (error) {
+    res.status(500).json({ message: 'Error fetching miniatures', error: error.message });
+  }
+});
+
+// GET the ids of every miniature the list parameters match, in list order, so the client can
+// select them all without loading them.
+app.get('/api/miniatures/ids', async (req, res) => {
+  try {
+    const query = parseMiniatureQuery(req.query, await loadWorkflows(req.db));
+    if (query.errors) {
+      return sendValidationErrors(res, query.errors);
+    }
+    res.json(await findMiniatureIds(req.db, query));
+  } catch (error) {
+    res.status(500).json({ message: 'Error fetching miniature ids', error: error.message });
+  }
+});
+
+// GET the model counts of the miniatures the list parameters match, for the dashboard
+// (see summarizeMiniatures).
+app.get('/api/miniatures/summary', async (req, res) => {
+  try {
+    const query = parseMiniatureQuery(req.query, await loadWorkflows(req.db));
+    if (query.errors) {
+      return sendValidationErrors(res, query.errors);
+    }
+    res.json(await summarizeMiniatures(req.db, query));
+  } catch (error) {
+    res.status(500).json({ message: 'Error summarizing miniatures', error: error.message });
+  }
+});
+
+// POST the ids of miniatures to get those of them that are not in the trash. A POST, as a
+// selection can hold more ids than fit in a URL.
+app.post('/api/miniatures/lookup', async (req, res) => {
+  try {
+    const { ids } = req.body;
+    const errors = validateIds(ids);
+    if (errors.length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+    const miniatures = await req.db.collection('miniatures')
+      .find({ _id: { $in: ids.map(id => new ObjectId(id)) }, ...NOT_DELETED })
+      .toArray();
     res.json(miniatures);
   } catch (error) {
     res.status(500).json({ message: 'Error fetching miniatures', error: error.message });
@@ -32,67 +317,122 @@ app.get('/api/miniatures', async (req, res) => {
 // POST a new miniature
 app.post('/api/miniatures', async (req, res) => {
   try {
-    const miniatureData = req.body;
-    const result = await getDb().collection('miniatures').insertOne(miniatureData);
-    const newMiniature = await getDb().collection('miniatures').findOne({ _id: result.insertedId });
+    const { statusNote, ...body } = req.body;
+    const errors = validateMiniature(body);
+    if (errors.length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+    const miniatureData = normalizeMiniature(body);
+    const statusErrors = validateWorkflowStatuses([miniatureData], await loadWorkflows(req.db));
+    if (statusErrors.length > 0) {
+      return sendValidationErrors(res, statusErrors);
+    }
+    miniatureData.statusHistory = [createStatusChange(null, miniatureData.status, statusNote)];
+    miniatureData.version = 1;
+    const result = await req.db.collection('miniatures').insertOne(miniatureData);
+    const newMiniature = await req.db.collection('miniatures').findOne({ _id: result.insertedId });
+    publish(req, 'miniatures-saved', { miniatures: [newMiniature] });
     res.status(201).json(newMiniature);
   } catch (error) {
     res.status(500).json({ message: 'Error creating miniature', error: error.message });
   }
 });
 
-// PUT (update) an existing miniature
+// PUT (update) an existing miniature. `version` must be the version the client last read;
+// if someone else has saved the miniature since, the update is refused with a 409 holding
+// the current document so the client can reconcile the two.
 app.put('/api/miniatures/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const updateData = req.body;
-    delete updateData._id;
+    // The history is server-maintained and images (with their thumbnails) change only
+    // through the image routes, so never let a client overwrite any of them here.
+    const { _id, statusNote, statusHistory, images, thumbnails, deletedAt, version, ...updateData } = req.body;
 
     if (!ObjectId.isValid(id)) {
         return res.status(400).json({ message: 'Invalid miniature ID format' });
     }
+    const errors = validateMiniatureUpdate(updateData);
+    if (!Number.isInteger(version) || version < 0) {
+      errors.push({ field: 'version', message: 'The version of the miniature being edited is required.' });
+    }
+    if (errors.length > 0) {
+      return sendValidationErrors(res, errors);
+    }
 
-    const result = await getDb().collection('miniatures').updateOne(
-      { _id: new ObjectId(id) },
-      { $set: updateData }
-    );
+    const miniaturesCollection = req.db.collection('miniatures');
+    const existing = await miniaturesCollection.findOne({ _id: new ObjectId(id), ...NOT_DELETED });
+    if (!existing) {
+      return res.status(404).json({ message: 'Miniature not found' });
+    }
+    if (versionOf(existing) !== version) {
+      return sendVersionConflict(res, existing);
+    }
+
+    const changes = normalizeMiniature(updateData);
+    if (changes.status !== undefined || changes.gameSystem !== undefined) {
+      const statusErrors = validateWorkflowStatuses([{ ...existing, ...changes }], await loadWorkflows(req.db));
+      if (statusErrors.length > 0) {
+        return sendValidationErrors(res, statusErrors);
+      }
+    }
+
+    const update = { $set: changes, $inc: { version: 1 } };
+    if (updateData.status && updateData.status !== existing.status) {
+      update.$push = { statusHistory: createStatusChange(existing.status ?? null, updateData.status, statusNote) };
+    }
 
+    // Matching on the version as well makes the check and the write one atomic step, so a save
+    // that lands between the read above and this update is still detected.
+    const result = await miniaturesCollection.updateOne({ _id: existing._id, ...versionFilter(existing) }, update);
     if (result.matchedCount === 0) {
-      return res.status(404).json({ message: 'Miniature not found' });
+      const current = await miniaturesCollection.findOne({ _id: existing._id, ...NOT_DELETED });
+      return current
+        ? sendVersionConflict(res, current)
+        : res.status(404).json({ message: 'Miniature not found' });
     }
-    const updatedMiniature = await getDb().collection('miniatures').findOne({ _id: new ObjectId(id) });
+    const updatedMiniature = await miniaturesCollection.findOne({ _id: existing._id });
+    publish(req, 'miniatures-saved', { miniatures: [updatedMiniature] });
     res.json(updatedMiniature);
   } catch (error) {
     res.status(500).json({ message: 'Error updating miniature', error: error.message });
   }
 });
 
-// DELETE a miniature
+// DELETE a miniature by moving it to the trash
 app.delete('/api/miniatures/:id', async (req, res) => {
   try {
     const { id } = req.params;
     if (!ObjectId.isValid(id)) {
         return res.status(400).json({ message: 'Invalid miniature ID format' });
     }
-    const result = await getDb().collection('miniatures').deleteOne({ _id: new ObjectId(id) });
-    if (result.deletedCount === 0) {
+    const result = await req.db.collection('miniatures').updateOne(
+      { _id: new ObjectId(id), ...NOT_DELETED },
+      { $set: { deletedAt: new Date().toISOString() } }
+    );
+    if (result.matchedCount === 0) {
       return res.status(404).json({ message: 'Miniature not found' });
     }
+    publish(req, 'miniatures-deleted', { ids: [id] });
     res.status(204).send();
   } catch (error) {
     res.status(500).json({ message: 'Error deleting miniature', error: error.message });
   }
 });
 
-// POST bulk delete miniatures
+// POST bulk delete miniatures, moving them to the trash
 app.post('/api/miniatures/bulk-delete', async (req, res) => {
     try {
         const { ids } = req.body;
-        if (!ids || !Array.isArray(ids)) {
-            return res.status(400).json({ message: 'Invalid request: "ids" must be an array.' });
+        const errors = validateIds(ids);
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
         }
         const objectIds = ids.map(id => new ObjectId(id));
-        await getDb().collection('miniatures').deleteMany({ _id: { $in: objectIds } });
+        await req.db.collection('miniatures').updateMany(
+            { _id: { $in: objectIds }, ...NOT_DELETED },
+            { $set: { deletedAt: new Date().toISOString() } }
+        );
+        publish(req, 'miniatures-deleted', { ids });
         res.status(204).send();
     } catch (error) {
         res.status(500).json({ message: 'Error during bulk deletion', error: error.message });
@@ -102,34 +442,129 @@ app.post('/api/miniatures/bulk-delete', async (req, res) => {
 // POST bulk update miniatures
 app.post('/api/miniatures/bulk-update', async (req, res) => {
     try {
-        const { ids, updates } = req.body;
-        if (!ids || !Array.isArray(ids) || !updates) {
-            return res.status(400).json({ message: 'Invalid request body.' });
+        const { ids, statusNote } = req.body;
+        const errors = [...validateIds(ids), ...validateBulkUpdates(req.body.updates)];
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
         }
-        const objectIds = ids.map(id => new ObjectId(id));
-        await getDb().collection('miniatures').updateMany(
-            { _id: { $in: objectIds } },
-            { $set: updates }
-        );
-        const updatedDocuments = await getDb().collection('miniatures').find({ _id: { $in: objectIds } }).toArray();
+        const updates = normalizeMiniature(req.body.updates);
+        // Miniatures in the trash are left alone.
+        const selected = { _id: { $in: ids.map(id => new ObjectId(id)) }, ...NOT_DELETED };
+        const miniaturesCollection = req.db.collection('miniatures');
+
+        // Every selected miniature must end up with a status its (possibly new) game system has.
+        if (updates.status !== undefined || updates.gameSystem !== undefined) {
+            const current = await miniaturesCollection
+                .find(selected, { projection: { gameSystem: 1, status: 1 } })
+                .toArray();
+            const statusErrors = validateWorkflowStatuses(current.map(doc => ({ ...doc, ...updates })), await loadWorkflows(req.db));
+            if (statusErrors.length > 0) {
+                // One message per distinct problem is enough for a bulk edit.
+                return sendValidationErrors(res, [...new Map(statusErrors.map(error => [error.message, error])).values()]);
+            }
+        }
+
+        // Record a transition for every miniature whose status actually changes.
+        // Each one needs its own `from`, so the history entries are written per document.
+        if (updates.status) {
+            const changing = await miniaturesCollection
+                .find({ ...selected, status: { $ne: updates.status } }, { projection: { status: 1 } })
+                .toArray();
+            if (changing.length > 0) {
+                await miniaturesCollection.bulkWrite(changing.map(doc => ({
+                    updateOne: {
+                        filter: { _id: doc._id },
+                        update: { $push: { statusHistory: createStatusChange(doc.status ?? null, updates.status, statusNote) } },
+                    },
+                })));
+            }
+        }
+
+        await miniaturesCollection.updateMany(selected, { $set: updates, $inc: { version: 1 } });
+        const updatedDocuments = await miniaturesCollection.find(selected).toArray();
+        publish(req, 'miniatures-saved', { miniatures: updatedDocuments });
         res.json(updatedDocuments);
     } catch (error) {
         res.status(500).json({ message: 'Error during bulk update', error: error.message });
     }
 });
 
+// POST write whole miniatures back by id, recreating any that were deleted or taking them out
+// of the trash. This is how the client undoes and redoes changes, so status history and
+// thumbnails are written exactly as sent, and statuses are not checked against the current workflows.
+app.post('/api/miniatures/bulk-upsert', async (req, res) => {
+    try {
+        const errors = validateStoredMiniatures(req.body.miniatures);
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
+        }
+        const takenErrors = await foreignIdErrors(req, req.body.miniatures);
+        if (takenErrors.length > 0) {
+            return sendValidationErrors(res, takenErrors);
+        }
+        const miniaturesCollection = req.db.collection('miniatures');
+        // Each miniature carries the version the client expects to replace. If any stored one
+        // has been saved since, nothing is written and the newer copies are sent back.
+        const stored = await miniaturesCollection
+            .find({ _id: { $in: req.body.miniatures.map(m => new ObjectId(m._id)) } })
+            .toArray();
+        const storedById = new Map(stored.map(doc => [doc._id.toString(), doc]));
+        const conflicts = stored.filter(doc => {
+            const { version } = req.body.miniatures.find(m => m._id === doc._id.toString());
+            return (version ?? 0) !== versionOf(doc);
+        });
+        if (conflicts.length > 0) {
+            return res.status(409).json({ message: 'Some of these miniatures were changed by someone else since.', current: conflicts });
+        }
+        const miniatures = req.body.miniatures.map(({ _id, version, ...miniature }) => ({
+            ...normalizeMiniature(miniature),
+            _id: new ObjectId(_id),
+            version: (storedById.has(_id) ? versionOf(storedById.get(_id)) : version ?? 0) + 1,
+        }));
+        if (miniatures.length > 0) {
+            await miniaturesCollection.bulkWrite(miniatures.map(miniature => ({
+                // The version filter keeps a save made since the check above from being overwritten.
+                replaceOne: storedById.has(miniature._id.toString())
+                    ? { filter: { _id: miniature._id, ...versionFilter(storedById.get(miniature._id.toString())) }, replacement: miniature }
+                    : { filter: { _id: miniature._id }, replacement: miniature, upsert: true },
+            })));
+        }
+        const saved = await miniaturesCollection.find({ _id: { $in: miniatures.map(m => m._id) } }).toArray();
+        publish(req, 'miniatures-saved', { miniatures: saved });
+        res.json(saved);
+    } catch (error) {
+        res.status(500).json({ message: 'Error restoring miniatures', error: error.message });
+    }
+});
+
 // POST to replace all miniatures
 app.post('/api/miniatures/bulk-replace', async (req, res) => {
     try {
-        const { miniatures } = req.body;
-        if (!miniatures || !Array.isArray(miniatures)) {
-            return res.status(400).json({ message: 'Invalid request: "miniatures" must be an array.' });
+        const errors = validateMiniatureList(req.body.miniatures);
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
         }
-        const miniaturesCollection = getDb().collection('miniatures');
-        await miniaturesCollection.deleteMany({});
-        if (miniatures.length > 0) {
-            await miniaturesCollection.insertMany(miniatures);
+        const miniatures = req.body.miniatures.map(normalizeMiniature);
+        const db = req.db;
+        const statusErrors = validateWorkflowStatuses(miniatures, await loadWorkflows(db), index => `miniatures[${index}].status`);
+        if (statusErrors.length > 0) {
+            return sendValidationErrors(res, statusErrors);
         }
+        const miniaturesCollection = db.collection('miniatures');
+        // Snapshot, delete and insert commit together, so a failure part-way through
+        // leaves the previous collection exactly as it was.
+        await withTransaction(async (session) => {
+            await createSnapshot(db, session, 'Before CSV replace import');
+            await miniaturesCollection.deleteMany(replacedByRestore(), { session });
+            if (miniatures.length > 0) {
+                await miniaturesCollection.insertMany(miniatures.map(miniature => ({
+                    ...miniature,
+                    statusHistory: [createStatusChange(null, miniature.status)],
+                    version: 1,
+                })), { session });
+            }
+        });
+        publish(req, 'resync');
         res.status(201).json({ message: `${miniatures.length} miniatures imported successfully.`});
     } catch(error) {
         res.status(500).json({ message: 'Error replacing collection', error: error.message });
@@ -137,11 +572,377 @@ app.post('/api/miniatures/bulk-replace', async (req, res) => {
 });
 
 
+// POST a merge import: add new miniatures, update matched ones and remove the rest,
+// as decided by the client after previewing the diff.
+app.post('/api/miniatures/bulk-merge', async (req, res) => {
+    try {
+        const { add = [], update = [], remove = [] } = req.body;
+        const errors = [
+            ...validateMiniatureList(add, 'add'),
+            ...validateIds(remove, 'remove'),
+        ];
+        if (!Array.isArray(update)) {
+            errors.push({ field: 'update', message: '"update" must be an array.' });
+        } else {
+            update.forEach((entry, index) => {
+                if (typeof entry?._id !== 'string' || !ObjectId.isValid(entry._id)) {
+                    errors.push({ field: `update[${index}]._id`, message: 'Invalid miniature ID format.' });
+                }
+                errors.push(...validateMiniatureUpdate(entry?.changes, `update[${index}].changes.`));
+                errors.push(...validateVersion(entry?.version, `update[${index}].`));
+            });
+        }
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
+        }
+
+        const db = req.db;
+        const miniaturesCollection = db.collection('miniatures');
+        const operations = [];
+        const added = add.map(normalizeMiniature);
+        const current = update.length > 0
+            ? new Map((await miniaturesCollection
+                .find({ _id: { $in: update.map(entry => new ObjectId(entry._id)) }, ...NOT_DELETED }, { projection: { gameSystem: 1, status: 1, version: 1 } })
+                .toArray()).map(doc => [doc._id.toString(), doc]))
+            : new Map();
+        // Each update carries the version the client compared the file with. Rows whose
+        // miniature has since been deleted or saved again are skipped rather than overwriting it.
+        const isCurrent = ({ _id, version }) => current.has(_id) && (version ?? 0) === versionOf(current.get(_id));
+        const applied = update.filter(isCurrent);
+        const skipped = update.filter(entry => !isCurrent(entry)).map(entry => entry._id);
+
+        const workflows = await loadWorkflows(db);
+        const statusErrors = [
+            ...validateWorkflowStatuses(added, workflows, index => `add[${index}].status`),
+            ...validateWorkflowStatuses(
+                applied.map(({ _id, changes }) => ({ ...current.get(_id), ...normalizeMiniature(changes) })),
+                workflows,
+                index => `update[${update.indexOf(applied[index])}].changes.status`
+            ),
+        ];
+        if (statusErrors.length > 0) {
+            return sendValidationErrors(res, statusErrors);
+        }
+
+        added.forEach(miniature => operations.push({
+            insertOne: { document: { ...miniature, statusHistory: [createStatusChange(null, miniature.status, 'Imported')], version: 1 } },
+        }));
+
+        if (applied.length > 0) {
+            applied.forEach(({ _id, changes }) => {
+                const updateDoc = { $set: normalizeMiniature(changes), $inc: { version: 1 } };
+                const previousStatus = current.get(_id)?.status;
+                if (changes.status && changes.status !== previousStatus) {
+                    updateDoc.$push = { statusHistory: createStatusChange(previousStatus ?? null, changes.status, 'Imported') };
+                }
+                operations.push({ updateOne: { filter: { _id: new ObjectId(_id), ...NOT_DELETED, ...versionFilter(current.get(_id)) }, update: updateDoc } });
+            });
+        }
+
+        if (remove.length > 0) {
+            operations.push({ updateMany: {
+                filter: { _id: { $in: remove.map(id => new ObjectId(id)) }, ...NOT_DELETED },
+                update: { $set: { deletedAt: new Date().toISOString() } },
+            } });
+        }
+
+        if (operations.length > 0) {
+            await withTransaction(async (session) => {
+                await createSnapshot(db, session, 'Before CSV merge import');
+                await miniaturesCollection.bulkWrite(operations, { ordered: true, session });
+            });
+            publish(req, 'resync');
+        }
+        // Removed miniatures go to the trash, so they can be restored one by one or with the snapshot.
+        const skippedNote = skipped.length > 0
+            ? ` ${skipped.length} changed rows were skipped, as their miniatures were deleted or edited since.`
+            : '';
+        res.json({
+            message: `Merge complete: ${add.length} added, ${applied.length} updated, ${remove.length} removed.${skippedNote}`,
+            added: add.length,
+            updated: applied.length,
+            removed: remove.length,
+            skipped,
+        });
+    } catch (error) {
+        res.status(500).json({ message: 'Error merging collection', error: error.message });
+    }
+});
+
+// --- TRASH ROUTES ---
+
+// GET the miniatures in the trash, most recently deleted first, and how long they are kept
+app.get('/api/trash', async (req, res) => {
+    try {
+        const db = req.db;
+        const [miniatures, retentionDays] = await Promise.all([
+            db.collection('miniatures').find(IN_TRASH).sort({ deletedAt: -1 }).toArray(),
+            getRetentionDays(db),
+        ]);
+        res.json({ miniatures, retentionDays });
+    } catch (error) {
+        res.status(500).json({ message: 'Error fetching trash', error: error.message });
+    }
+});
+
+// POST restore miniatures from the trash
+app.post('/api/trash/restore', async (req, res) => {
+    try {
+        const { ids } = req.body;
+        const errors = validateIds(ids);
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
+        }
+        const objectIds = ids.map(id => new ObjectId(id));
+        const miniaturesCollection = req.db.collection('miniatures');
+        await miniaturesCollection.updateMany({ _id: { $in: objectIds }, ...IN_TRASH }, { $unset: { deletedAt: '' } });
+        const restored = await miniaturesCollection.find({ _id: { $in: objectIds }, ...NOT_DELETED }).toArray();
+        publish(req, 'miniatures-saved', { miniatures: restored });
+        publish(req, 'trash-changed');
+        res.json(restored);
+    } catch (error) {
+        res.status(500).json({ message: 'Error restoring miniatures', error: error.message });
+    }
+});
+
+// POST permanently delete miniatures from the trash, with their images
+app.post('/api/trash/purge', async (req, res) => {
+    try {
+        const { ids } = req.body;
+        const errors = validateIds(ids);
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
+        }
+        const purged = await purgeMiniatures(req.db, { _id: { $in: ids.map(id => new ObjectId(id)) } });
+        publish(req, 'trash-changed');
+        res.json({ purged });
+    } catch (error) {
+        res.status(500).json({ message: 'Error purging miniatures', error: error.message });
+    }
+});
+
+// DELETE everything in the trash
+app.delete('/api/trash', async (req, res) => {
+    try {
+        const purged = await purgeMiniatures(req.db);
+        publish(req, 'trash-changed');
+        res.json({ purged });
+    } catch (error) {
+        res.status(500).json({ message: 'Error emptying trash', error: error.message });
+    }
+});
+
+// PUT how many days miniatures stay in the trash before they are purged automatically
+app.put('/api/trash/retention', async (req, res) => {
+    try {
+        const { days } = req.body;
+        if (!Number.isInteger(days) || days < 1 || days > MAX_RETENTION_DAYS) {
+            return sendValidationErrors(res, [{ field: 'days', message: `Retention must be a whole number of days from 1 to ${MAX_RETENTION_DAYS}.` }]);
+        }
+        const db = req.db;
+        await setRetentionDays(db, days);
+        const purged = await purgeExpiredTrash(db);
+        publish(req, 'trash-changed');
+        res.json({ retentionDays: days, purged });
+    } catch (error) {
+        res.status(500).json({ message: 'Error updating trash retention', error: error.message });
+    }
+});
+
+// --- SNAPSHOT ROUTES ---
+
+// GET the stored collection snapshots, newest first
+app.get('/api/snapshots', async (req, res) => {
+    try {
+        const snapshots = await req.db.collection('snapshots').find({}).sort({ createdAt: -1 }).toArray();
+        res.json(snapshots);
+    } catch (error) {
+        res.status(500).json({ message: 'Error fetching snapshots', error: error.message });
+    }
+});
+
+// POST restore a snapshot. The current collection is snapshotted first, so a restore can itself be undone.
+app.post('/api/snapshots/:id/restore', async (req, res) => {
+    try {
+        const { id } = req.params;
+        if (!ObjectId.isValid(id)) {
+            return res.status(400).json({ message: 'Invalid snapshot ID format' });
+        }
+        const db = req.db;
+        const snapshot = await db.collection('snapshots').findOne({ _id: new ObjectId(id) });
+        if (!snapshot) {
+            return res.status(404).json({ message: 'Snapshot not found' });
+        }
+        const restoredCount = await withTransaction(async (session) => {
+            const miniatures = await getSnapshotMiniatures(db, session, snapshot._id);
+            await createSnapshot(db, session, `Before restoring the snapshot from ${snapshot.createdAt}`);
+            await db.collection('miniatures').deleteMany(replacedByRestore(miniatures.map(m => m._id)), { session });
+            if (miniatures.length > 0) {
+                await db.collection('miniatures').insertMany(miniatures, { session });
+            }
+            return miniatures.length;
+        });
+        publish(req, 'resync');
+        res.json({ message: `${restoredCount} miniatures restored successfully.` });
+    } catch (error) {
+        res.status(500).json({ message: 'Error restoring snapshot', error: error.message });
+    }
+});
+
+// DELETE a snapshot
+app.delete('/api/snapshots/:id', async (req, res) => {
+    try {
+        const { id } = req.params;
+        if (!ObjectId.isValid(id)) {
+            return res.status(400).json({ message: 'Invalid snapshot ID format' });
+        }
+        const deleted = await withTransaction(session => deleteSnapshot(req.db, session, new ObjectId(id)));
+        if (!deleted) {
+            return res.status(404).json({ message: 'Snapshot not found' });
+        }
+        res.status(204).send();
+    } catch (error) {
+        res.status(500).json({ message: 'Error deleting snapshot', error: error.message });
+    }
+});
+
+// --- MINIATURE IMAGE ROUTES ---
+
+// POST (upload) one or more images for a miniature. Files arrive as multipart field "images".
+app.post('/api/miniatures/:id/images', (req, res, next) => {
+    if (!ObjectId.isValid(req.params.id)) {
+        return res.status(400).json({ message: 'Invalid miniature ID format' });
+    }
+    next();
+}, uploadImages, async (req, res) => {
+    try {
+        const { id } = req.params;
+        const files = req.files || [];
+        if (files.length === 0) {
+            return res.status(400).json({ message: 'No images were uploaded.' });
+        }
+        const miniature = await req.db.collection('miniatures').findOne({ _id: new ObjectId(id) });
+        if (!miniature) {
+            await removeUploadedFiles(files);
+            return res.status(404).json({ message: 'Miniature not found' });
+        }
+
+        // Thumbnail generation doubles as a check that every file really is a decodable image.
+        const results = await Promise.allSettled(files.map(file => createThumbnail(id, file)));
+        if (results.some(result => result.status === 'rejected')) {
+            await removeUploadedFiles(files);
+            await Promise.all(results
+                .filter(result => result.status === 'fulfilled')
+                .map(result => removeImageFile(id, result.value)));
+            return res.status(400).json({ message: 'One or more files could not be read as an image.' });
+        }
+        const thumbnails = results.map(result => result.value);
+
+        // `thumbnails` runs parallel to `images`. Older images may have no thumbnail yet, so pad
+        // with nulls before appending to keep the two arrays aligned.
+        const existingImages = miniature.images || [];
+        const existingThumbnails = existingImages.map((_, index) => miniature.thumbnails?.[index] ?? null);
+        await req.db.collection('miniatures').updateOne(
+            { _id: new ObjectId(id) },
+            { $set: {
+                images: [...existingImages, ...files.map(file => imageUrlFor(id, file.filename))],
+                thumbnails: [...existingThumbnails, ...thumbnails],
+            } }
+        );
+        const updatedMiniature = await req.db.collection('miniatures').findOne({ _id: new ObjectId(id) });
+        publish(req, 'miniatures-saved', { miniatures: [updatedMiniature] });
+        res.status(201).json(updatedMiniature);
+    } catch (error) {
+        await removeUploadedFiles(req.files);
+        res.status(500).json({ message: 'Error uploading images', error: error.message });
+    }
+});
+
+// PUT a new image order. The first image is the miniature's cover.
+app.put('/api/miniatures/:id/images', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { images } = req.body;
+        if (!ObjectId.isValid(id)) {
+            return res.status(400).json({ message: 'Invalid miniature ID format' });
+        }
+        if (!Array.isArray(images)) {
+            return res.status(400).json({ message: 'Invalid request: "images" must be an array.' });
+        }
+        const miniature = await req.db.collection('miniatures').findOne({ _id: new ObjectId(id) });
+        if (!miniature) {
+            return res.status(404).json({ message: 'Miniature not found' });
+        }
+        // Reordering must not add or drop images; those go through the upload and delete routes.
+        const current = [...(miniature.images || [])].sort();
+        const isPermutation = images.length === current.length
+            && [...images].sort().every((url, index) => url === current[index]);
+        if (!isPermutation) {
+            return res.status(400).json({ message: 'The new order must contain exactly the existing images.' });
+        }
+        const thumbnailFor = new Map((miniature.images || []).map((url, index) => [url, miniature.thumbnails?.[index] ?? null]));
+        await req.db.collection('miniatures').updateOne(
+            { _id: new ObjectId(id) },
+            { $set: { images, thumbnails: images.map(url => thumbnailFor.get(url)) } }
+        );
+        const updatedMiniature = await req.db.collection('miniatures').findOne({ _id: new ObjectId(id) });
+        publish(req, 'miniatures-saved', { miniatures: [updatedMiniature] });
+        res.json(updatedMiniature);
+    } catch (error) {
+        res.status(500).json({ message: 'Error reordering images', error: error.message });
+    }
+});
+
+// DELETE a single image, identified by its URL in the request body.
+app.delete('/api/miniatures/:id/images', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { url } = req.body;
+        if (!ObjectId.isValid(id)) {
+            return res.status(400).json({ message: 'Invalid miniature ID format' });
+        }
+        if (typeof url !== 'string' || !url) {
+            return res.status(400).json({ message: 'Image "url" is required.' });
+        }
+        const miniature = await req.db.collection('miniatures').findOne({ _id: new ObjectId(id) });
+        const index = miniature?.images?.indexOf(url) ?? -1;
+        if (index === -1) {
+            return res.status(404).json({ message: 'Image not found on this miniature' });
+        }
+        const thumbnail = miniature.thumbnails?.[index] ?? null;
+        await req.db.collection('miniatures').updateOne(
+            { _id: new ObjectId(id) },
+            { $set: {
+                images: miniature.images.filter((_, i) => i !== index),
+                thumbnails: miniature.images.map((_, i) => miniature.thumbnails?.[i] ?? null).filter((_, i) => i !== index),
+            } }
+        );
+        // Only files in this miniature's own directory are removed, whatever its list says.
+        await removeImageFile(id, url);
+        if (thumbnail) {
+            await removeImageFile(id, thumbnail);
+        }
+        const updatedMiniature = await req.db.collection('miniatures').findOne({ _id: new ObjectId(id) });
+        publish(req, 'miniatures-saved', { miniatures: [updatedMiniature] });
+        res.json(updatedMiniature);
+    } catch (error) {
+        res.status(500).json({ message: 'Error deleting image', error: error.message });
+    }
+});
+
+
 // --- GAME SYSTEMS ROUTES ---
+
+// Route parameters carry the exact stored name; new names are checked for clashes ignoring case.
+const findGameSystemByName = (db, name) => db.collection('gamesystems').findOne({ name });
+
+const findGameSystemIgnoringCase = (db, name) =>
+    db.collection('gamesystems').findOne({ name: { $regex: `^${escapeRegex(name)}$`, $options: 'i' } });
+
 app.get('/api/gamesystems', async (req, res) => {
     try {
-        const gameSystems = await getDb().collection('gamesystems').find({}).sort({ name: 1 }).toArray();
-        res.json(gameSystems);
+        const gameSystems = await req.db.collection('gamesystems').find({}).sort({ name: 1 }).toArray();
+        res.json(gameSystems.map(system => ({ ...system, stages: stagesOf(system) })));
     } catch (error) {
         res.status(500).json({ message: 'Error fetching game systems', error: error.message });
     }
@@ -149,23 +950,462 @@ app.get('/api/gamesystems', async (req, res) => {
 
 app.post('/api/gamesystems', async (req, res) => {
     try {
-        const { name } = req.body;
-        if (!name) {
-            return res.status(400).json({ message: 'Game system name is required.' });
+        const errors = validateGameSystemName(req.body.name);
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
         }
-        const existingSystem = await getDb().collection('gamesystems').findOne({ name: { $regex: `^${name}$`, $options: 'i' } });
+        const name = req.body.name.trim();
+        const existingSystem = await findGameSystemIgnoringCase(req.db, name);
         if (existingSystem) {
             return res.status(409).json({ message: 'Game system already exists.' });
         }
-        const result = await getDb().collection('gamesystems').insertOne({ name });
-        const newGameSystem = await getDb().collection('gamesystems').findOne({ _id: result.insertedId });
-        res.status(201).json(newGameSystem);
+        const result = await req.db.collection('gamesystems').insertOne({ name });
+        const newGameSystem = await req.db.collection('gamesystems').findOne({ _id: result.insertedId });
+        await publishGameSystems(req);
+        res.status(201).json({ ...newGameSystem, stages: stagesOf(newGameSystem) });
     } catch (error) {
         res.status(500).json({ message: 'Error creating game system', error: error.message });
     }
 });
 
 
+// PUT rename a game system, renaming it on every miniature as well
+app.put('/api/gamesystems/:name', async (req, res) => {
+    try {
+        const errors = validateGameSystemName(req.body.name);
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
+        }
+        const oldName = req.params.name;
+        const newName = req.body.name.trim();
+        const system = await findGameSystemByName(req.db, oldName);
+        if (!system) {
+            return res.status(404).json({ message: 'Game system not found' });
+        }
+        const clash = await findGameSystemIgnoringCase(req.db, newName);
+        if (clash && !clash._id.equals(system._id)) {
+            return res.status(409).json({ message: `A game system named "${clash.name}" already exists. Merge into it instead.` });
+        }
+        const db = req.db;
+        const updatedMiniatures = await withTransaction(async (session) => {
+            await db.collection('gamesystems').updateOne({ _id: system._id }, { $set: { name: newName } }, { session });
+            await db.collection('armies').updateMany({ gameSystem: oldName }, { $set: { gameSystem: newName } }, { session });
+            await moveSharesToSystem(db, session, oldName, newName);
+            const result = await db.collection('miniatures').updateMany({ gameSystem: oldName }, { $set: { gameSystem: newName }, $inc: { version: 1 } }, { session });
+            return result.modifiedCount;
+        });
+        publish(req, 'resync');
+        res.json({ name: newName, updatedMiniatures });
+    } catch (error) {
+        res.status(500).json({ message: 'Error renaming game system', error: error.message });
+    }
+});
+
+// POST merge a game system into another: its miniatures move to the target and it is removed
+app.post('/api/gamesystems/:name/merge', async (req, res) => {
+    try {
+        const sourceName = req.params.name;
+        const targetName = req.body.target;
+        if (typeof targetName !== 'string' || targetName === sourceName) {
+            return sendValidationErrors(res, [{ field: 'target', message: 'Choose a different game system to merge into.' }]);
+        }
+        const [source, target] = await Promise.all([findGameSystemByName(req.db, sourceName), findGameSystemByName(req.db, targetName)]);
+        if (!source || !target) {
+            return res.status(404).json({ message: 'Game system not found' });
+        }
+        const db = req.db;
+        const updatedMiniatures = await withTransaction(async (session) => {
+            await addMissingStages(db, session, sourceName, targetName);
+            const result = await db.collection('miniatures').updateMany({ gameSystem: sourceName }, { $set: { gameSystem: targetName }, $inc: { version: 1 } }, { session });
+            await moveArmiesToSystem(db, session, sourceName, targetName);
+            await moveSharesToSystem(db, session, sourceName, targetName);
+            await db.collection('gamesystems').deleteOne({ _id: source._id }, { session });
+            return result.modifiedCount;
+        });
+        publish(req, 'resync');
+        res.json({ target: targetName, updatedMiniatures });
+    } catch (error) {
+        res.status(500).json({ message: 'Error merging game systems', error: error.message });
+    }
+});
+
+// DELETE a game system. If miniatures still use it, `?reassignTo=` must name the system they move to.
+app.delete('/api/gamesystems/:name', async (req, res) => {
+    try {
+        const name = req.params.name;
+        const { reassignTo } = req.query;
+        const system = await findGameSystemByName(req.db, name);
+        if (!system) {
+            return res.status(404).json({ message: 'Game system not found' });
+        }
+        const db = req.db;
+        const miniatureCount = await db.collection('miniatures').countDocuments({ gameSystem: name });
+        if (miniatureCount > 0) {
+            if (typeof reassignTo !== 'string' || !reassignTo) {
+                return res.status(409).json({
+                    message: `${miniatureCount} miniatures use this game system. Choose a system to move them to.`,
+                    miniatureCount,
+                });
+            }
+            if (reassignTo === name || !(await findGameSystemByName(req.db, reassignTo))) {
+                return sendValidationErrors(res, [{ field: 'reassignTo', message: 'Choose an existing, different game system.' }]);
+            }
+        }
+        const updatedMiniatures = await withTransaction(async (session) => {
+            let modified = 0;
+            if (miniatureCount > 0) {
+                await addMissingStages(db, session, name, reassignTo);
+                const result = await db.collection('miniatures').updateMany({ gameSystem: name }, { $set: { gameSystem: reassignTo }, $inc: { version: 1 } }, { session });
+                modified = result.modifiedCount;
+                await moveArmiesToSystem(db, session, name, reassignTo);
+                await moveSharesToSystem(db, session, name, reassignTo);
+            } else {
+                await db.collection('armies').deleteMany({ gameSystem: name }, { session });
+                await deleteSharesOf(db, session, name);
+            }
+            await db.collection('gamesystems').deleteOne({ _id: system._id }, { session });
+            return modified;
+        });
+        publish(req, 'resync');
+        res.json({ message: 'Game system deleted successfully', updatedMiniatures });
+    } catch (error) {
+        res.status(500).json({ message: 'Error deleting game system', error: error.message });
+    }
+});
+
+// PUT replace a game system's workflow. `renames` maps old stage names to new ones and is
+// applied to the miniatures' statuses; removing a stage that miniatures are still at is refused.
+app.put('/api/gamesystems/:name/stages', async (req, res) => {
+    try {
+        const { stages, renames = {} } = req.body;
+        const errors = validateStages(stages);
+        if (!renames || typeof renames !== 'object' || Array.isArray(renames)
+            || !Object.values(renames).every(value => typeof value === 'string')) {
+            errors.push({ field: 'renames', message: '"renames" must map old stage names to new ones.' });
+        }
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
+        }
+        const name = req.params.name;
+        const system = await findGameSystemByName(req.db, name);
+        if (!system) {
+            return res.status(404).json({ message: 'Game system not found' });
+        }
+        const newStages = normalizeStages(stages);
+        const stageNames = new Set(newStages.map(stage => stage.name));
+        const renamed = Object.entries(renames)
+            .map(([from, to]) => [from, to.trim()])
+            .filter(([from, to]) => from !== to && stageNames.has(to));
+
+        const db = req.db;
+        const usedStatuses = await db.collection('miniatures').distinct('status', { gameSystem: name });
+        const renameMap = new Map(renamed);
+        const orphaned = usedStatuses.filter(status => !stageNames.has(renameMap.get(status) ?? status));
+        if (orphaned.length > 0) {
+            return res.status(409).json({
+                message: `Miniatures are still at ${orphaned.map(status => `"${status}"`).join(', ')}. Keep those stages or rename them.`,
+                statuses: orphaned,
+            });
+        }
+
+        const updatedMiniatures = await withTransaction(async (session) => {
+            let modified = 0;
+            // Statuses are rewritten per miniature from their old values, so swapping two stage
+            // names does not turn both into the same one.
+            const affected = renamed.length > 0
+                ? await db.collection('miniatures')
+                    .find({ gameSystem: name, status: { $in: [...renameMap.keys()] } }, { projection: { status: 1 }, session })
+                    .toArray()
+                : [];
+            if (affected.length > 0) {
+                const result = await db.collection('miniatures').bulkWrite(affected.map(doc => ({
+                    updateOne: { filter: { _id: doc._id }, update: { $set: { status: renameMap.get(doc.status) }, $inc: { version: 1 } } },
+                })), { session });
+                modified = result.modifiedCount;
+            }
+            await db.collection('gamesystems').updateOne({ _id: system._id }, { $set: { stages: newStages } }, { session });
+            return modified;
+        });
+        if (updatedMiniatures > 0) {
+            publish(req, 'resync');
+        } else {
+            await publishGameSystems(req);
+        }
+        res.json({ name, stages: newStages, updatedMiniatures });
+    } catch (error) {
+        res.status(500).json({ message: 'Error updating workflow', error: error.message });
+    }
+});
+
+// --- ARMY ROUTES ---
+
+// Army changes that moved miniatures to another army need a full reload in other tabs.
+const publishArmyChange = async (req, updatedMiniatures) => {
+    if (updatedMiniatures > 0) {
+        publish(req, 'resync');
+    } else {
+        await publishArmies(req);
+    }
+};
+
+const findArmyIgnoringCase = (db, gameSystem, name) =>
+    db.collection('armies').findOne({ gameSystem, name: { $regex: `^${escapeRegex(name)}$`, $options: 'i' } });
+
+// GET all armies, sorted by game system and name
+app.get('/api/armies', async (req, res) => {
+    try {
+        const db = req.db;
+        await syncArmies(db);
+        const armies = await db.collection('armies').find({}).sort({ gameSystem: 1, name: 1 }).toArray();
+        res.json(armies);
+    } catch (error) {
+        res.status(500).json({ message: 'Error fetching armies', error: error.message });
+    }
+});
+
+// POST a new army within a game system
+app.post('/api/armies', async (req, res) => {
+    try {
+        const { gameSystem } = req.body;
+        const errors = validateArmyName(req.body.name);
+        if (typeof gameSystem !== 'string' || !(await findGameSystemByName(req.db, gameSystem))) {
+            errors.push({ field: 'gameSystem', message: 'Choose an existing game system.' });
+        }
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
+        }
+        const name = req.body.name.trim();
+        const existingArmy = await findArmyIgnoringCase(req.db, gameSystem, name);
+        if (existingArmy) {
+            return res.status(409).json({ message: `"${existingArmy.name}" already exists in ${gameSystem}.` });
+        }
+        const result = await req.db.collection('armies').insertOne({ name, gameSystem });
+        await publishArmies(req);
+        res.status(201).json({ _id: result.insertedId, name, gameSystem });
+    } catch (error) {
+        res.status(500).json({ message: 'Error creating army', error: error.message });
+    }
+});
+
+// PUT rename an army, renaming it on every miniature of its game system as well
+app.put('/api/armies/:id', async (req, res) => {
+    try {
+        const { id } = req.params;
+        if (!ObjectId.isValid(id)) {
+            return res.status(400).json({ message: 'Invalid army ID format' });
+        }
+        const errors = validateArmyName(req.body.name);
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
+        }
+        const db = req.db;
+        const army = await db.collection('armies').findOne({ _id: new ObjectId(id) });
+        if (!army) {
+            return res.status(404).json({ message: 'Army not found' });
+        }
+        const newName = req.body.name.trim();
+        const clash = await findArmyIgnoringCase(req.db, army.gameSystem, newName);
+        if (clash && !clash._id.equals(army._id)) {
+            return res.status(409).json({ message: `"${clash.name}" already exists in ${army.gameSystem}. Merge into it instead.` });
+        }
+        const updatedMiniatures = await withTransaction(async (session) => {
+            await db.collection('armies').updateOne({ _id: army._id }, { $set: { name: newName } }, { session });
+            await moveSharesToArmy(db, session, army.gameSystem, army.name, newName);
+            return reassignMiniaturesArmy(db, session, army.gameSystem, army.name, newName);
+        });
+        await publishArmyChange(req, updatedMiniatures);
+        res.json({ army: { ...army, name: newName }, updatedMiniatures });
+    } catch (error) {
+        res.status(500).json({ message: 'Error renaming army', error: error.message });
+    }
+});
+
+// POST merge an army into another of the same game system
+app.post('/api/armies/:id/merge', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { targetId } = req.body;
+        if (!ObjectId.isValid(id) || typeof targetId !== 'string' || !ObjectId.isValid(targetId) || id === targetId) {
+            return sendValidationErrors(res, [{ field: 'targetId', message: 'Choose a different army to merge into.' }]);
+        }
+        const db = req.db;
+        const [source, target] = await Promise.all([
+            db.collection('armies').findOne({ _id: new ObjectId(id) }),
+            db.collection('armies').findOne({ _id: new ObjectId(targetId) }),
+        ]);
+        if (!source || !target) {
+            return res.status(404).json({ message: 'Army not found' });
+        }
+        if (source.gameSystem !== target.gameSystem) {
+            return sendValidationErrors(res, [{ field: 'targetId', message: 'Armies can only be merged within the same game system.' }]);
+        }
+        const updatedMiniatures = await withTransaction(async (session) => {
+            const modified = await reassignMiniaturesArmy(db, session, source.gameSystem, source.name, target.name);
+            await moveSharesToArmy(db, session, source.gameSystem, source.name, target.name);
+            await db.collection('armies').deleteOne({ _id: source._id }, { session });
+            return modified;
+        });
+        await publishArmyChange(req, updatedMiniatures);
+        res.json({ target, updatedMiniatures });
+    } catch (error) {
+        res.status(500).json({ message: 'Error merging armies', error: error.message });
+    }
+});
+
+// DELETE an army. If miniatures still use it, `?reassignTo=` must give the id of the army they move to.
+app.delete('/api/armies/:id', async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { reassignTo } = req.query;
+        if (!ObjectId.isValid(id)) {
+            return res.status(400).json({ message: 'Invalid army ID format' });
+        }
+        const db = req.db;
+        const army = await db.collection('armies').findOne({ _id: new ObjectId(id) });
+        if (!army) {
+            return res.status(404).json({ message: 'Army not found' });
+        }
+        const miniatureCount = await db.collection('miniatures').countDocuments({ gameSystem: army.gameSystem, army: army.name });
+        let target = null;
+        if (miniatureCount > 0) {
+            if (typeof reassignTo !== 'string' || !reassignTo) {
+                return res.status(409).json({
+                    message: `${miniatureCount} miniatures use this army. Choose an army to move them to.`,
+                    miniatureCount,
+                });
+            }
+            target = ObjectId.isValid(reassignTo) && reassignTo !== id
+                ? await db.collection('armies').findOne({ _id: new ObjectId(reassignTo), gameSystem: army.gameSystem })
+                : null;
+            if (!target) {
+                return sendValidationErrors(res, [{ field: 'reassignTo', message: 'Choose a different army from the same game system.' }]);
+            }
+        }
+        const updatedMiniatures = await withTransaction(async (session) => {
+            const modified = target ? await reassignMiniaturesArmy(db, session, army.gameSystem, army.name, target.name) : 0;
+            if (target) {
+                await moveSharesToArmy(db, session, army.gameSystem, army.name, target.name);
+            } else {
+                await deleteSharesOf(db, session, army.gameSystem, army.name);
+            }
+            await db.collection('armies').deleteOne({ _id: army._id }, { session });
+            return modified;
+        });
+        await publishArmyChange(req, updatedMiniatures);
+        res.json({ message: 'Army deleted successfully', updatedMiniatures });
+    } catch (error) {
+        res.status(500).json({ message: 'Error deleting army', error: error.message });
+    }
+});
+
+// --- SHARE ROUTES ---
+
+// GET the user's public showcase links, newest first
+app.get('/api/shares', async (req, res) => {
+    try {
+        const shares = await req.db.collection('shares').find({}).sort({ createdAt: -1 }).toArray();
+        res.json(shares);
+    } catch (error) {
+        res.status(500).json({ message: 'Error fetching shared links', error: error.message });
+    }
+});
+
+// POST a new public link to the whole collection, a game system (`gameSystem`) or one of its
+// armies (`gameSystem` and `army`)
+app.post('/api/shares', async (req, res) => {
+    try {
+        const gameSystem = req.body.gameSystem ?? null;
+        const army = req.body.army ?? null;
+        const db = req.db;
+        const errors = [];
+        if (gameSystem !== null && (typeof gameSystem !== 'string' || !(await findGameSystemByName(db, gameSystem)))) {
+            errors.push({ field: 'gameSystem', message: 'Choose an existing game system.' });
+        }
+        if (army !== null) {
+            await syncArmies(db);
+            if (gameSystem === null) {
+                errors.push({ field: 'army', message: 'Choose the game system of the army as well.' });
+            } else if (typeof army !== 'string' || !(await db.collection('armies').findOne({ gameSystem, name: army }))) {
+                errors.push({ field: 'army', message: `Choose an existing army of ${gameSystem}.` });
+            }
+        }
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
+        }
+        const share = { token: newShareToken(), gameSystem, army, createdAt: new Date().toISOString() };
+        const result = await db.collection('shares').insertOne(share);
+        res.status(201).json({ _id: result.insertedId, ...share });
+    } catch (error) {
+        res.status(500).json({ message: 'Error creating shared link', error: error.message });
+    }
+});
+
+// DELETE (revoke) a public link; it stops working at once
+app.delete('/api/shares/:id', async (req, res) => {
+    try {
+        const { id } = req.params;
+        if (!ObjectId.isValid(id)) {
+            return res.status(400).json({ message: 'Invalid share ID format' });
+        }
+        const result = await req.db.collection('shares').deleteOne({ _id: new ObjectId(id) });
+        if (result.deletedCount === 0) {
+            return res.status(404).json({ message: 'Shared link not found' });
+        }
+        res.json({ message: 'Shared link revoked' });
+    } catch (error) {
+        res.status(500).json({ message: 'Error revoking shared link', error: error.message });
+    }
+});
+
+// --- BACKUP ROUTES ---
+
+// GET a full backup: miniatures, game systems, settings and image files
+app.get('/api/backup', async (req, res) => {
+    try {
+        const backup = await buildBackup(req.db);
+        res.json(backup);
+    } catch (error) {
+        res.status(500).json({ message: 'Error creating backup', error: error.message });
+    }
+});
+
+// POST restore a backup, replacing the collection. The previous collection is snapshotted first.
+app.post(BACKUP_RESTORE_PATH, express.json({ limit: '500mb' }), async (req, res) => {
+    try {
+        const errors = validateBackup(req.body);
+        if (errors.length > 0) {
+            return sendValidationErrors(res, errors);
+        }
+        const statusErrors = await validateBackupStatuses(req.db, req.body);
+        if (statusErrors.length > 0) {
+            return sendValidationErrors(res, statusErrors);
+        }
+        // Images are written under their miniature's id before the miniatures are, so ids
+        // taken by another account are refused up front.
+        const takenErrors = await foreignIdErrors(req, req.body.miniatures);
+        if (takenErrors.length > 0) {
+            return sendValidationErrors(res, takenErrors);
+        }
+        const counts = await restoreBackup(req.db, req.body);
+        publish(req, 'resync');
+        res.json({ message: `Backup restored: ${counts.miniatures} miniatures, ${counts.images} images.`, ...counts });
+    } catch (error) {
+        res.status(500).json({ message: 'Error restoring backup', error: error.message });
+    }
+});
+
+
+// Malformed JSON bodies would otherwise get Express's default HTML error page.
+app.use((error, req, res, next) => {
+    if (error.type === 'entity.parse.failed') {
+        return res.status(400).json({ message: 'Request body is not valid JSON.' });
+    }
+    if (error.type === 'entity.too.large') {
+        return res.status(413).json({ message: 'Request body is too large.' });
+    }
+    next(error);
+});
+
 app.listen(port, () => {
   console.log(`Server is running on http://localhost:${port}`);
 });
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import { scopeToOwner } from './ownership.js';
+import { loadWorkflows } from './workflows.js';
+import { NOT_DELETED } from './trash.js';
+import { UPLOADS_URL_PREFIX } from './uploads.js';
+
+// A share is a public, read-only link to part of a user's collection, stored in `shares` as
+// `{ token, gameSystem, army, createdAt }`. `gameSystem` and `army` narrow what it shows: both
+// null for the whole collection, a game system name, or a game system and army name. Anyone
+// with the token can view it without logging in, until the owner revokes it.
+//
+// Shares name game systems and armies like miniatures do, so renaming, merging or deleting
+// them rewrites the shares in the same transaction.
+
+const TOKEN_BYTES = 18;
+
+// The only miniature fields a showcase reveals. Notes and history stay private.
+const SHOWCASE_PROJECTION = {
+  _id: 1, modelName: 1, gameSystem: 1, army: 1, status: 1, modelCount: 1, images: 1, thumbnails: 1,
+};
+
+export const newShareToken = () => crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+
+// Uploaded images need a login, so a showcase serves the ones it shows itself, under
+// `/api/showcase/<token>/uploads/...`. Revoking the share cuts them off too.
+const showcaseImageUrl = (token, url) =>
+  (typeof url === 'string' && url.startsWith(`${UPLOADS_URL_PREFIX}/`) ? `/api/showcase/${token}${url}` : url);
+
+// The miniatures filter matching what a share shows.
+const shareFilter = ({ gameSystem, army }) => ({
+  ...(gameSystem !== null && { gameSystem }),
+  ...(army !== null && { army }),
+});
+
+/**
+ * Loads what a share shows: its owner's name, its scope, the matching miniatures (public
+ * fields only) and the workflows of their game systems. Returns null for an unknown token.
+ * `db` is the unscoped database, as the visitor is not logged in.
+ */
+export async function loadShowcase(db, token) {
+  const share = await db.collection('shares').findOne({ token });
+  if (!share) {
+    return null;
+  }
+  const owner = await db.collection('users').findOne({ _id: share.ownerId });
+  if (!owner) {
+    return null;
+  }
+  const ownerDb = scopeToOwner(db, share.ownerId);
+  const [miniatures, workflows] = await Promise.all([
+    ownerDb.collection('miniatures')
+      .find({ ...shareFilter(share), ...NOT_DELETED }, { projection: SHOWCASE_PROJECTION })
+      .sort({ gameSystem: 1, army: 1, modelName: 1 })
+      .toArray(),
+    loadWorkflows(ownerDb),
+  ]);
+  const gameSystems = new Set(miniatures.map(miniature => miniature.gameSystem));
+  return {
+    owner: owner.username,
+    gameSystem: share.gameSystem,
+    army: share.army,
+    miniatures: miniatures.map(miniature => ({
+      ...miniature,
+      images: miniature.images?.map(url => showcaseImageUrl(token, url)),
+      thumbnails: miniature.thumbnails?.map(url => showcaseImageUrl(token, url)),
+    })),
+    workflows: Object.fromEntries([...workflows].filter(([name]) => gameSystems.has(name))),
+  };
+}
+
+/**
+ * Finds a miniature the share with this token shows, with its stored image URLs, or null.
+ * `db` is the unscoped database.
+ */
+export async function findShowcaseMiniature(db, token, miniatureId) {
+  const share = await db.collection('shares').findOne({ token });
+  if (!share) {
+    return null;
+  }
+  return scopeToOwner(db, share.ownerId).collection('miniatures').findOne(
+    { _id: miniatureId, ...shareFilter(share), ...NOT_DELETED },
+    { projection: { images: 1, thumbnails: 1 } }
+  );
+}
+
+/**
+ * Points the shares of a game system at another one, as part of a rename, merge or
+ * reassigning delete. Shares of its armies move along with them.
+ */
+export async function moveSharesToSystem(db, session, fromSystem, toSystem) {
+  await db.collection('shares').updateMany({ gameSystem: fromSystem }, { $set: { gameSystem: toSystem } }, { session });
+}
+
+/**
+ * Points the shares of an army at another name within the same game system.
+ */
+export async function moveSharesToArmy(db, session, gameSystem, fromName, toName) {
+  await db.collection('shares').updateMany({ gameSystem, army: fromName }, { $set: { army: toName } }, { session });
+}
+
+/**
+ * Revokes the shares of a deleted game system, or of one army of it when `army` is given.
+ */
+export async function deleteSharesOf(db, session, gameSystem, army = null) {
+  await db.collection('shares').deleteMany({ gameSystem, ...(army !== null && { army }) }, { session });
+}
@@ -0,0 +1,57 @@
+import { NOT_DELETED } from './trash.js';
+
+// Snapshots are saved copies of the whole miniatures collection, taken automatically
+// before any import replaces or removes data so the previous collection can be restored.
+// The summary lives in `snapshots`; the copied documents live in `snapshot_items`. The trash
+// is not part of them: restoring one leaves it as it is.
+
+// Older snapshots beyond this count are pruned whenever a new one is taken.
+export const MAX_SNAPSHOTS = 10;
+
+/**
+ * Copies the miniatures not in the trash into a new snapshot and returns its id.
+ */
+export async function createSnapshot(db, session, reason) {
+  const miniatures = await db.collection('miniatures').find(NOT_DELETED, { session }).toArray();
+  const { insertedId } = await db.collection('snapshots').insertOne({
+    createdAt: new Date().toISOString(),
+    itemCount: miniatures.length,
+    reason,
+  }, { session });
+  if (miniatures.length > 0) {
+    await db.collection('snapshot_items').insertMany(
+      miniatures.map(miniature => ({ snapshotId: insertedId, miniature })),
+      { session }
+    );
+  }
+  await pruneSnapshots(db, session);
+  return insertedId;
+}
+
+/**
+ * Returns the miniatures saved in a snapshot, with their original ids.
+ */
+export async function getSnapshotMiniatures(db, session, snapshotId) {
+  const items = await db.collection('snapshot_items').find({ snapshotId }, { session }).toArray();
+  return items.map(item => item.miniature);
+}
+
+/**
+ * Deletes a snapshot and its copied documents. Returns false when it did not exist.
+ */
+export async function deleteSnapshot(db, session, snapshotId) {
+  await db.collection('snapshot_items').deleteMany({ snapshotId }, { session });
+  const result = await db.collection('snapshots').deleteOne({ _id: snapshotId }, { session });
+  return result.deletedCount > 0;
+}
+
+async function pruneSnapshots(db, session) {
+  const stale = await db.collection('snapshots')
+    .find({}, { session, projection: { _id: 1 } })
+    .sort({ createdAt: -1 })
+    .skip(MAX_SNAPSHOTS)
+    .toArray();
+  for (const { _id } of stale) {
+    await deleteSnapshot(db, session, _id);
+  }
+}
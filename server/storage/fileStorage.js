@@ -0,0 +1,370 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ObjectId, BSON } from 'mongodb';
+import {
+  applyUpdate, cloneDocument, isModified, matches, project, sortComparator, upsertDocument,
+} from './query.js';
+
+// An embedded database kept in memory and saved to a single JSON file, so the server can run
+// without MongoDB. It implements the part of the MongoDB collection API the routes use, with
+// the same filters, updates and results, so `getDb()` callers work unchanged on either storage.
+//
+// Documents are never changed in place: every write stores new document objects and new
+// arrays. That makes a transaction's snapshot a copy of the collection map, which is put back
+// if the transaction throws. Transactions and the writes made outside them run one at a time,
+// in the order they were asked for, so putting the snapshot back undoes only the
+// transaction's own changes. While a transaction runs, the file is saved from its snapshot,
+// so it never contains uncommitted changes. Each collection is serialized again only once it
+// has changed, so a small write does not re-serialize the snapshots and the rest of the data.
+
+const { EJSON } = BSON;
+
+const FILE_FORMAT_VERSION = 1;
+
+class FileCursor {
+  constructor(load, projection) {
+    this.load = load;
+    this.projection = projection;
+    this.sortSpec = null;
+    this.skipCount = 0;
+    this.limitCount = 0;
+  }
+
+  sort(spec) {
+    this.sortSpec = spec;
+    return this;
+  }
+
+  skip(count) {
+    this.skipCount = count;
+    return this;
+  }
+
+  limit(count) {
+    this.limitCount = count;
+    return this;
+  }
+
+  async toArray() {
+    let docs = this.load();
+    if (this.sortSpec) {
+      docs = [...docs].sort(sortComparator(this.sortSpec));
+    }
+    docs = docs.slice(this.skipCount, this.limitCount ? this.skipCount + this.limitCount : undefined);
+    return docs.map(doc => cloneDocument(project(doc, this.projection)));
+  }
+}
+
+class FileCollection {
+  constructor(database, name) {
+    this.database = database;
+    this.name = name;
+  }
+
+  get docs() {
+    return this.database.collections.get(this.name) || [];
+  }
+
+  set docs(docs) {
+    this.database.collections.set(this.name, docs);
+  }
+
+  find(filter = {}, options = {}) {
+    return new FileCursor(() => this.docs.filter(doc => matches(doc, filter)), options.projection);
+  }
+
+  async findOne(filter = {}, options = {}) {
+    const doc = this.docs.find(d => matches(d, filter));
+    return doc ? cloneDocument(project(doc, options.projection)) : null;
+  }
+
+  async countDocuments(filter = {}) {
+    return this.docs.filter(doc => matches(doc, filter)).length;
+  }
+
+  async distinct(field, filter = {}) {
+    const values = new Map();
+    for (const doc of this.docs.filter(d => matches(d, filter))) {
+      const value = doc[field];
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined) values.set(EJSON.stringify(item), item);
+      }
+    }
+    return [...values.values()];
+  }
+
+  async insertOne(doc, options = {}) {
+    const [insertedId] = await this.write(options, () => this.insert([doc]));
+    return { acknowledged: true, insertedId };
+  }
+
+  async insertMany(docs, options = {}) {
+    const ids = await this.write(options, () => this.insert(docs));
+    return { acknowledged: true, insertedCount: ids.length, insertedIds: { ...ids } };
+  }
+
+  updateOne(filter, update, options = {}) {
+    return this.write(options, () => this.update(filter, update, { upsert: options.upsert, multi: false }));
+  }
+
+  updateMany(filter, update, options = {}) {
+    return this.write(options, () => this.update(filter, update, { upsert: options.upsert, multi: true }));
+  }
+
+  replaceOne(filter, replacement, options = {}) {
+    return this.write(options, () => this.replace(filter, replacement, options.upsert));
+  }
+
+  async deleteOne(filter, options = {}) {
+    const deletedCount = await this.write(options, () => this.delete(filter, false));
+    return { acknowledged: true, deletedCount };
+  }
+
+  async deleteMany(filter = {}, options = {}) {
+    const deletedCount = await this.write(options, () => this.delete(filter, true));
+    return { acknowledged: true, deletedCount };
+  }
+
+  async bulkWrite(operations, options = {}) {
+    const result = { insertedCount: 0, matchedCount: 0, modifiedCount: 0, deletedCount: 0, upsertedCount: 0 };
+    const addUpdate = ({ matchedCount, modifiedCount, upsertedCount }) => {
+      result.matchedCount += matchedCount;
+      result.modifiedCount += modifiedCount;
+      result.upsertedCount += upsertedCount;
+    };
+    await this.write(options, () => {
+      for (const operation of operations) {
+        const [type, args] = Object.entries(operation)[0];
+        switch (type) {
+          case 'insertOne':
+            result.insertedCount += this.insert([args.document]).length;
+            break;
+          case 'updateOne':
+          case 'updateMany':
+            addUpdate(this.update(args.filter, args.update, { upsert: args.upsert, multi: type === 'updateMany' }));
+            break;
+          case 'replaceOne':
+            addUpdate(this.replace(args.filter, args.replacement, args.upsert));
+            break;
+          case 'deleteOne':
+          case 'deleteMany':
+            result.deletedCount += this.delete(args.filter, type === 'deleteMany');
+            break;
+          default:
+            throw new Error(`Unsupported bulk write operation "${type}" in file storage.`);
+        }
+      }
+    });
+    return { acknowledged: true, ...result };
+  }
+
+  /**
+   * Runs the synchronous write `apply` and saves its result. A write of the running
+   * transaction applies at once and is saved when the transaction commits. Any other write
+   * waits for the transactions and writes asked for before it.
+   */
+  async write({ session }, apply) {
+    if (session && session === this.database.activeSession) {
+      return apply();
+    }
+    const result = await this.database.enqueue(apply);
+    await this.database.persist();
+    return result;
+  }
+
+  // The synchronous writes behind the methods above. Each replaces `docs` with a new array.
+
+  // Like MongoDB, refuses a document whose `_id` is already taken.
+  insert(docs) {
+    const ids = new Set(this.docs.map(doc => EJSON.stringify(doc._id)));
+    const inserted = docs.map(doc => {
+      const copy = cloneDocument(doc);
+      const withId = copy._id === undefined ? { _id: new ObjectId(), ...copy } : copy;
+      const id = EJSON.stringify(withId._id);
+      if (ids.has(id)) {
+        throw new Error(`Duplicate key error in ${this.name}: _id ${id} already exists.`);
+      }
+      ids.add(id);
+      return withId;
+    });
+    this.docs = [...this.docs, ...inserted];
+    return inserted.map(doc => doc._id);
+  }
+
+  update(filter, update, { upsert = false, multi }) {
+    let matchedCount = 0;
+    let modifiedCount = 0;
+    this.docs = this.docs.map(doc => {
+      if ((!multi && matchedCount > 0) || !matches(doc, filter)) {
+        return doc;
+      }
+      matchedCount += 1;
+      const updated = applyUpdate(doc, update);
+      if (!isModified(doc, updated)) {
+        return doc;
+      }
+      modifiedCount += 1;
+      return updated;
+    });
+    if (matchedCount === 0 && upsert) {
+      const [upsertedId] = this.insert([upsertDocument(filter, update)]);
+      return { acknowledged: true, matchedCount, modifiedCount, upsertedCount: 1, upsertedId };
+    }
+    return { acknowledged: true, matchedCount, modifiedCount, upsertedCount: 0, upsertedId: null };
+  }
+
+  replace(filter, replacement, upsert = false) {
+    const index = this.docs.findIndex(doc => matches(doc, filter));
+    if (index === -1) {
+      if (!upsert) {
+        return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 0, upsertedId: null };
+      }
+      const [upsertedId] = this.insert([{ _id: filter._id, ...replacement }]);
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId };
+    }
+    const existing = this.docs[index];
+    const replaced = { ...cloneDocument(replacement), _id: existing._id };
+    const docs = [...this.docs];
+    docs[index] = replaced;
+    this.docs = docs;
+    const modifiedCount = isModified(existing, replaced) ? 1 : 0;
+    return { acknowledged: true, matchedCount: 1, modifiedCount, upsertedCount: 0, upsertedId: null };
+  }
+
+  delete(filter, multi) {
+    const before = this.docs;
+    let deletedCount = 0;
+    this.docs = before.filter(doc => {
+      if ((!multi && deletedCount > 0) || !matches(doc, filter)) {
+        return true;
+      }
+      deletedCount += 1;
+      return false;
+    });
+    return deletedCount;
+  }
+}
+
+class FileDatabase {
+  constructor(filePath) {
+    this.filePath = filePath;
+    this.collections = new Map();
+    this.collectionObjects = new Map();
+    // The session of the transaction that is running, if any, and the collections as they
+    // were when it started, which are what is committed.
+    this.activeSession = null;
+    this.committed = null;
+    // Resolves when every transaction and write queued so far has ended.
+    this.queue = Promise.resolve();
+    // The JSON of each collection as last saved, with the documents it was made from.
+    this.serialized = new Map();
+    // The file write that has not started yet, which later changes join, and the one before it.
+    this.pendingWrite = null;
+    this.lastWrite = Promise.resolve();
+  }
+
+  collection(name) {
+    if (!this.collectionObjects.has(name)) {
+      this.collectionObjects.set(name, new FileCollection(this, name));
+    }
+    return this.collectionObjects.get(name);
+  }
+
+  async load() {
+    let text;
+    try {
+      text = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    const data = EJSON.parse(text, { relaxed: true });
+    if (data.version !== FILE_FORMAT_VERSION || typeof data.collections !== 'object') {
+      throw new Error(`${this.filePath} is not a miniature tracker data file.`);
+    }
+    this.collections = new Map(Object.entries(data.collections));
+  }
+
+  /**
+   * Runs `task` once every transaction and write queued before it has ended.
+   */
+  enqueue(task) {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Saves the committed data to the file, resolving once it is written. Changes made in quick
+   * succession share one write.
+   */
+  persist() {
+    if (!this.pendingWrite) {
+      this.pendingWrite = this.lastWrite.then(() => {
+        this.pendingWrite = null;
+        return this.writeFile();
+      });
+      this.lastWrite = this.pendingWrite.catch(() => {});
+    }
+    return this.pendingWrite;
+  }
+
+  // The JSON of a collection, made again only when its documents have changed since.
+  serializeCollection(name, docs) {
+    const cached = this.serialized.get(name);
+    if (cached?.docs === docs) {
+      return cached.json;
+    }
+    const json = EJSON.stringify(docs, { relaxed: true });
+    this.serialized.set(name, { docs, json });
+    return json;
+  }
+
+  // Writes to a temporary file first, so a crash mid-write cannot leave a truncated data file.
+  async writeFile() {
+    const collections = this.committed ?? this.collections;
+    const entries = [...collections].map(([name, docs]) => `${JSON.stringify(name)}:${this.serializeCollection(name, docs)}`);
+    const text = `{"version":${FILE_FORMAT_VERSION},"collections":{${entries.join(',')}}}`;
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, text);
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Runs `callback` with a session, undoing its changes if it throws. Other writes wait until
+   * it has ended, so none are lost when it is undone.
+   */
+  withTransaction(callback) {
+    return this.enqueue(async () => {
+      this.committed = new Map(this.collections);
+      const session = { inTransaction: true };
+      this.activeSession = session;
+      try {
+        return await callback(session);
+      } catch (error) {
+        this.collections = this.committed;
+        throw error;
+      } finally {
+        this.activeSession = null;
+        this.committed = null;
+        await this.persist();
+      }
+    });
+  }
+}
+
+/**
+ * Storage in a JSON file at `filePath`, created on the first write.
+ */
+export function createFileStorage(filePath) {
+  const database = new FileDatabase(filePath);
+  return {
+    description: `file database at ${filePath}`,
+    async connect() {
+      await database.load();
+      return database;
+    },
+    withTransaction: (callback) => database.withTransaction(callback),
+  };
+}
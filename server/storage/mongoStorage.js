@@ -0,0 +1,35 @@
+import { MongoClient } from 'mongodb';
+import { ensureIndexes } from '../indexes.js';
+
+/**
+ * Storage in the MongoDB database `dbName` at `uri`.
+ */
+export function createMongoStorage(uri, dbName) {
+  const client = new MongoClient(uri);
+  return {
+    description: `MongoDB database ${dbName}`,
+    async connect() {
+      await client.connect();
+      const db = client.db(dbName);
+      await ensureIndexes(db);
+      return db;
+    },
+    /**
+     * Runs `callback` inside a MongoDB transaction, committing if it resolves and aborting
+     * if it throws. Transactions require a replica set or sharded cluster (MongoDB Atlas is
+     * always one).
+     */
+    async withTransaction(callback) {
+      const session = client.startSession();
+      try {
+        let result;
+        await session.withTransaction(async () => {
+          result = await callback(session);
+        });
+        return result;
+      } finally {
+        await session.endSession();
+      }
+    },
+  };
+}
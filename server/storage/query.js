@@ -0,0 +1,209 @@
+import { isDeepStrictEqual } from 'util';
+import { ObjectId, BSON } from 'mongodb';
+
+// The MongoDB query and update semantics the file storage needs: the operators the routes
+// use, on plain documents held in memory. Anything else throws, so a new query that the
+// file storage does not understand fails loudly instead of matching the wrong documents.
+
+const { EJSON } = BSON;
+
+/**
+ * Deep-copies a document, keeping ObjectIds and Dates. Stored documents never share
+ * objects with callers, so neither side can change the other by mutation.
+ */
+export const cloneDocument = (value) => EJSON.parse(EJSON.stringify(value, { relaxed: true }), { relaxed: true });
+
+// Compares as MongoDB does for the types this app stores: ObjectIds by value, a missing field as null.
+const comparable = (value) => {
+  if (value instanceof ObjectId) return value.toHexString();
+  if (value instanceof Date) return value.getTime();
+  return value === undefined ? null : value;
+};
+
+const equals = (a, b) => {
+  const x = comparable(a);
+  const y = comparable(b);
+  if (x !== null && typeof x === 'object' && y !== null && typeof y === 'object') {
+    return isDeepStrictEqual(JSON.parse(EJSON.stringify(x)), JSON.parse(EJSON.stringify(y)));
+  }
+  return x === y;
+};
+
+const compare = (a, b) => {
+  const x = comparable(a);
+  const y = comparable(b);
+  if (x === y) return 0;
+  if (x === null) return -1;
+  if (y === null) return 1;
+  return x < y ? -1 : 1;
+};
+
+const isOperatorObject = (value) =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+  && !(value instanceof ObjectId) && !(value instanceof Date) && !(value instanceof RegExp)
+  && Object.keys(value).length > 0 && Object.keys(value).every(key => key.startsWith('$'));
+
+export const getPath = (doc, path) =>
+  path.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), doc);
+
+// Returns a copy of `doc` with `path` set (or removed, for `undefined`), copying only the
+// objects along the path.
+const setPath = (doc, path, value) => {
+  const [key, ...rest] = path.split('.');
+  const copy = Array.isArray(doc) ? [...doc] : { ...doc };
+  if (rest.length > 0) {
+    copy[key] = setPath(doc?.[key] ?? {}, rest.join('.'), value);
+  } else if (value === undefined) {
+    delete copy[key];
+  } else {
+    copy[key] = value;
+  }
+  return copy;
+};
+
+// A plain value matches a field equal to it, or an array field containing it.
+const matchesValue = (fieldValue, expected) => {
+  if (expected instanceof RegExp) {
+    return typeof fieldValue === 'string' && expected.test(fieldValue);
+  }
+  if (Array.isArray(fieldValue) && !Array.isArray(expected)) {
+    return fieldValue.some(item => equals(item, expected));
+  }
+  return equals(fieldValue, expected);
+};
+
+const TYPE_CHECKS = {
+  string: value => typeof value === 'string',
+  number: value => typeof value === 'number',
+  bool: value => typeof value === 'boolean',
+  array: value => Array.isArray(value),
+  objectId: value => value instanceof ObjectId,
+  date: value => value instanceof Date,
+};
+
+const matchesCondition = (fieldValue, condition) => {
+  if (!isOperatorObject(condition)) {
+    return matchesValue(fieldValue, condition);
+  }
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq': return matchesValue(fieldValue, operand);
+      case '$ne': return !matchesValue(fieldValue, operand);
+      case '$in': return operand.some(value => matchesValue(fieldValue, value));
+      case '$nin': return !operand.some(value => matchesValue(fieldValue, value));
+      case '$lt': return fieldValue != null && compare(fieldValue, operand) < 0;
+      case '$lte': return fieldValue != null && compare(fieldValue, operand) <= 0;
+      case '$gt': return fieldValue != null && compare(fieldValue, operand) > 0;
+      case '$gte': return fieldValue != null && compare(fieldValue, operand) >= 0;
+      case '$exists': return (fieldValue !== undefined) === Boolean(operand);
+      case '$regex': return typeof fieldValue === 'string' && new RegExp(operand, condition.$options || '').test(fieldValue);
+      case '$options': return true;
+      case '$type': {
+        const check = TYPE_CHECKS[operand];
+        if (!check) throw new Error(`Unsupported $type "${operand}" in file storage.`);
+        return check(fieldValue);
+      }
+      default: throw new Error(`Unsupported query operator "${operator}" in file storage.`);
+    }
+  });
+};
+
+/**
+ * Whether a document matches a MongoDB-style filter.
+ */
+export function matches(doc, filter = {}) {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case '$and': return condition.every(part => matches(doc, part));
+      case '$or': return condition.some(part => matches(doc, part));
+      case '$nor': return !condition.some(part => matches(doc, part));
+      default:
+        if (key.startsWith('$')) throw new Error(`Unsupported query operator "${key}" in file storage.`);
+        return matchesCondition(getPath(doc, key), condition);
+    }
+  });
+}
+
+/**
+ * Applies a MongoDB-style update (`$set`, `$unset`, `$inc`, `$push`, `$setOnInsert`) and
+ * returns the updated copy; `doc` itself is left unchanged.
+ */
+export function applyUpdate(doc, update, { isInsert = false } = {}) {
+  let result = doc;
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields)) {
+      switch (operator) {
+        case '$set':
+          result = setPath(result, path, cloneDocument(value));
+          break;
+        case '$setOnInsert':
+          if (isInsert) result = setPath(result, path, cloneDocument(value));
+          break;
+        case '$unset':
+          result = setPath(result, path, undefined);
+          break;
+        case '$inc':
+          result = setPath(result, path, (getPath(result, path) ?? 0) + value);
+          break;
+        case '$push': {
+          const items = isOperatorObject(value) && Array.isArray(value.$each) ? value.$each : [value];
+          result = setPath(result, path, [...(getPath(result, path) ?? []), ...cloneDocument(items)]);
+          break;
+        }
+        default:
+          throw new Error(`Unsupported update operator "${operator}" in file storage.`);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * The document an upsert creates: the plain equality fields of its filter, then the update.
+ */
+export function upsertDocument(filter, update) {
+  const base = Object.fromEntries(Object.entries(filter)
+    .filter(([key, value]) => !key.startsWith('$') && !key.includes('.') && !isOperatorObject(value)));
+  const doc = applyUpdate(cloneDocument(base), update, { isInsert: true });
+  return doc._id === undefined ? { _id: new ObjectId(), ...doc } : doc;
+}
+
+/**
+ * Applies an inclusion (`{ name: 1 }`) or exclusion (`{ images: 0 }`) projection.
+ */
+export function project(doc, projection) {
+  if (!projection || Object.keys(projection).length === 0) {
+    return doc;
+  }
+  const entries = Object.entries(projection);
+  const including = entries.some(([key, value]) => key !== '_id' && value);
+  if (!including) {
+    return Object.fromEntries(Object.entries(doc).filter(([key]) => projection[key] === undefined || projection[key]));
+  }
+  const result = {};
+  if (projection._id !== 0 && projection._id !== false && doc._id !== undefined) {
+    result._id = doc._id;
+  }
+  for (const [key, value] of entries) {
+    if (key !== '_id' && value && doc[key] !== undefined) {
+      result[key] = doc[key];
+    }
+  }
+  return result;
+}
+
+/**
+ * A comparator for a MongoDB-style sort specification such as `{ gameSystem: 1, name: -1 }`.
+ */
+export const sortComparator = (spec) => (a, b) => {
+  for (const [path, direction] of Object.entries(spec)) {
+    const order = compare(getPath(a, path), getPath(b, path));
+    if (order !== 0) return direction < 0 ? -order : order;
+  }
+  return 0;
+};
+
+/**
+ * Whether an update changed a document, for `modifiedCount`.
+ */
+export const isModified = (before, after) => EJSON.stringify(before) !== EJSON.stringify(after);
@@ -0,0 +1,59 @@
+import { SETTINGS_FILTER } from './database.js';
+import { removeMiniatureImages } from './uploads.js';
+
+// Deleting a miniature moves it to the trash: it keeps its document and images but gets a
+// `deletedAt` timestamp, and every route that lists or edits miniatures skips it. Trashed
+// miniatures are restored by removing the timestamp, or purged for good by hand or once they
+// have been in the trash longer than the retention period.
+
+// Matches miniatures that are not in the trash. `null` also matches a missing field.
+export const NOT_DELETED = { deletedAt: null };
+export const IN_TRASH = { deletedAt: { $ne: null } };
+
+/**
+ * Matches what an import or restore that replaces the whole collection removes: the
+ * miniatures not in the trash, and trashed ones it brings back under the same `ids`. The rest
+ * of the trash stays, to be restored or purged with its images like any other.
+ */
+export const replacedByRestore = (ids = []) => ({ $or: [NOT_DELETED, { _id: { $in: ids } }] });
+
+export const DEFAULT_RETENTION_DAYS = 30;
+export const MAX_RETENTION_DAYS = 3650;
+
+/**
+ * The number of days miniatures stay in the trash, stored with the user's settings.
+ */
+export async function getRetentionDays(db) {
+  const settings = await db.collection('settings').findOne(SETTINGS_FILTER);
+  return Number.isInteger(settings?.trashRetentionDays) ? settings.trashRetentionDays : DEFAULT_RETENTION_DAYS;
+}
+
+export async function setRetentionDays(db, days) {
+  await db.collection('settings').updateOne(SETTINGS_FILTER, { $set: { trashRetentionDays: days } }, { upsert: true });
+}
+
+/**
+ * Permanently deletes the trashed miniatures matching `filter`, with their image files.
+ * Miniatures that are not in the trash are never touched. Returns how many were purged.
+ */
+export async function purgeMiniatures(db, filter = {}) {
+  const miniatures = db.collection('miniatures');
+  const purged = await miniatures.find({ $and: [filter, IN_TRASH] }, { projection: { _id: 1 } }).toArray();
+  if (purged.length === 0) {
+    return 0;
+  }
+  await miniatures.deleteMany({ _id: { $in: purged.map(doc => doc._id) } });
+  for (const { _id } of purged) {
+    await removeMiniatureImages(_id);
+  }
+  return purged.length;
+}
+
+/**
+ * Purges the miniatures that have been in the trash longer than the retention period.
+ */
+export async function purgeExpiredTrash(db) {
+  const days = await getRetentionDays(db);
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  return purgeMiniatures(db, { deletedAt: { $lt: cutoff } });
+}
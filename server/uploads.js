@@ -0,0 +1,157 @@
+import multer from 'multer';
+import sharp from 'sharp';
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Uploaded images live on local disk, one directory per miniature.
+export const UPLOADS_DIR = path.join(__dirname, 'uploads');
+export const UPLOADS_URL_PREFIX = '/uploads';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+export const MAX_FILES_PER_UPLOAD = 20;
+
+const storage = multer.diskStorage({
+  destination: async (req, file, cb) => {
+    try {
+      // The route validates the id first; this guards the path against traversal regardless.
+      if (!/^[a-f0-9]{24}$/i.test(req.params.id)) {
+        throw new Error('Invalid miniature ID format');
+      }
+      const dir = path.join(UPLOADS_DIR, req.params.id);
+      await fs.mkdir(dir, { recursive: true });
+      cb(null, dir);
+    } catch (error) {
+      cb(error);
+    }
+  },
+  filename: (req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    cb(null, `${Date.now()}-${crypto.randomBytes(6).toString('hex')}${ext}`);
+  },
+});
+
+const upload = multer({
+  storage,
+  limits: { fileSize: MAX_FILE_SIZE, files: MAX_FILES_PER_UPLOAD },
+  fileFilter: (req, file, cb) => {
+    if (!file.mimetype.startsWith('image/')) {
+      return cb(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname));
+    }
+    cb(null, true);
+  },
+});
+
+// Wraps multer so upload failures become 400 JSON responses like the rest of the API.
+export const uploadImages = (req, res, next) => {
+  upload.array('images', MAX_FILES_PER_UPLOAD)(req, res, (error) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_UNEXPECTED_FILE'
+        ? 'Only image files can be uploaded.'
+        : error.message;
+      return res.status(400).json({ message });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+};
+
+export const imageUrlFor = (miniatureId, filename) => `${UPLOADS_URL_PREFIX}/${miniatureId}/${filename}`;
+
+// Thumbnails are square WebP crops stored next to the originals in a `thumbs` subdirectory.
+const THUMBNAIL_SIZE = 256;
+const THUMBNAILS_DIRNAME = 'thumbs';
+
+/**
+ * Generates a thumbnail for an uploaded file and returns its URL.
+ * Rejects if the file is not an image sharp can decode.
+ */
+export async function createThumbnail(miniatureId, file) {
+  const thumbFilename = `${path.parse(file.filename).name}.webp`;
+  const thumbDir = path.join(path.dirname(file.path), THUMBNAILS_DIRNAME);
+  await fs.mkdir(thumbDir, { recursive: true });
+  await sharp(file.path)
+    .rotate() // respect EXIF orientation from phone cameras
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+    .webp({ quality: 75 })
+    .toFile(path.join(thumbDir, thumbFilename));
+  return imageUrlFor(miniatureId, `${THUMBNAILS_DIRNAME}/${thumbFilename}`);
+}
+
+// The URL of a file uploaded for a miniature, or of its thumbnail. File names never start
+// with a dot, so `.` and `..` cannot climb out of the miniature's directory.
+const uploadUrlPattern = (miniatureId) =>
+  new RegExp(`^${UPLOADS_URL_PREFIX}/${miniatureId}/(${THUMBNAILS_DIRNAME}/)?[\\w-][\\w.-]*$`);
+
+/**
+ * Whether `url` is a file uploaded for the miniature `miniatureId`. Users only ever reach
+ * files through their own miniatures, so this is what keeps one user's images from being
+ * referenced, overwritten or deleted through another user's miniature.
+ */
+export const isUploadOf = (url, miniatureId) =>
+  typeof url === 'string' && /^[a-f0-9]{24}$/i.test(String(miniatureId)) && uploadUrlPattern(miniatureId).test(url);
+
+/**
+ * Maps an uploaded image URL back to its file on disk. Returns null for URLs that are not
+ * files of the miniature `miniatureId`.
+ */
+export const uploadFilePath = (miniatureId, url) => {
+  if (!isUploadOf(url, miniatureId)) {
+    return null;
+  }
+  const dir = path.join(UPLOADS_DIR, String(miniatureId));
+  const filePath = path.resolve(UPLOADS_DIR, url.slice(UPLOADS_URL_PREFIX.length + 1));
+  return filePath.startsWith(dir + path.sep) ? filePath : null;
+};
+
+export async function removeImageFile(miniatureId, url) {
+  const filePath = uploadFilePath(miniatureId, url);
+  if (filePath) {
+    await fs.rm(filePath, { force: true });
+  }
+}
+
+export async function removeUploadedFiles(files = []) {
+  await Promise.all(files.map(file => fs.rm(file.path, { force: true })));
+}
+
+export async function removeMiniatureImages(miniatureId) {
+  await fs.rm(path.join(UPLOADS_DIR, String(miniatureId)), { recursive: true, force: true });
+}
+
+/**
+ * Reads a stored image of a miniature for a backup. Returns null for external URLs and
+ * missing files.
+ */
+export async function readImageFile(miniatureId, url) {
+  const filePath = uploadFilePath(miniatureId, url);
+  if (!filePath) {
+    return null;
+  }
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Writes an image restored from a backup back to the location its URL points at, which must
+ * be in the directory of the miniature `miniatureId`, and returns it in the shape
+ * `createThumbnail` expects.
+ */
+export async function writeImageFile(miniatureId, url, data) {
+  const filePath = uploadFilePath(miniatureId, url);
+  if (!filePath) {
+    throw new Error(`Cannot store an image at ${url}`);
+  }
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, data);
+  return { path: filePath, filename: path.basename(filePath) };
+}
@@ -0,0 +1,280 @@
+import { ObjectId } from 'mongodb';
+import { isUploadOf } from './uploads.js';
+
+const MAX_NAME_LENGTH = 200;
+const MAX_NOTES_LENGTH = 5000;
+const MAX_STAGE_NAME_LENGTH = 50;
+const MAX_STAGES = 30;
+
+// Fields a client may write on a miniature, mirroring `Miniature` in src/types.ts.
+// Everything else (_id, statusHistory, thumbnails) is maintained by the server.
+const MINIATURE_FIELDS = ['modelName', 'gameSystem', 'army', 'status', 'modelCount', 'notes', 'images'];
+
+// The subset of fields that can be changed across many miniatures at once.
+const BULK_UPDATE_FIELDS = ['status', 'army', 'gameSystem', 'notes'];
+
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim() !== '';
+
+// A miniature's images are links elsewhere or files uploaded for that very miniature. One
+// that is not saved yet (`miniatureId` null) cannot have uploads.
+const isImageUrl = (value, miniatureId) =>
+  typeof value === 'string' && (/^https?:\/\/\S+$/i.test(value) || isUploadOf(value, miniatureId));
+
+// Each rule returns an error message, or null when the value is acceptable. Rules get the id
+// of the miniature being checked, or null for a new one.
+const fieldRules = {
+  modelName: (value) => {
+    if (!isNonEmptyString(value)) return 'Model name is required.';
+    if (value.length > MAX_NAME_LENGTH) return `Model name must be at most ${MAX_NAME_LENGTH} characters.`;
+    return null;
+  },
+  gameSystem: (value) => {
+    if (!isNonEmptyString(value)) return 'Game system is required.';
+    if (value.length > MAX_NAME_LENGTH) return `Game system must be at most ${MAX_NAME_LENGTH} characters.`;
+    return null;
+  },
+  army: (value) => {
+    if (!isNonEmptyString(value)) return 'Army / faction is required.';
+    if (value.length > MAX_NAME_LENGTH) return `Army / faction must be at most ${MAX_NAME_LENGTH} characters.`;
+    return null;
+  },
+  // Whether the status is a stage of the game system's workflow is checked against the
+  // stored workflows by `validateWorkflowStatuses` in workflows.js.
+  status: (value) => {
+    if (!isNonEmptyString(value)) return 'Status is required.';
+    if (value.length > MAX_STAGE_NAME_LENGTH) return `Status must be at most ${MAX_STAGE_NAME_LENGTH} characters.`;
+    return null;
+  },
+  modelCount: (value) =>
+    (Number.isInteger(value) && value > 0 ? null : 'Model count must be a positive whole number.'),
+  notes: (value) => {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'string') return 'Notes must be text.';
+    if (value.length > MAX_NOTES_LENGTH) return `Notes must be at most ${MAX_NOTES_LENGTH} characters.`;
+    return null;
+  },
+  images: (value, miniatureId) => {
+    if (value === undefined) return null;
+    if (!Array.isArray(value) || !value.every(url => isImageUrl(url, miniatureId))) {
+      return 'Images must be a list of links or of images uploaded for this miniature.';
+    }
+    return null;
+  },
+};
+
+const REQUIRED_FIELDS = ['modelName', 'gameSystem', 'army', 'status', 'modelCount'];
+
+/**
+ * Validates a miniature payload against the `Miniature` shape.
+ * With `partial`, only the fields present are checked (used for updates). `miniatureId` is
+ * the id of a stored miniature being written back, whose own uploads its images may name.
+ * Returns a list of `{ field, message }` errors, empty when the payload is valid.
+ */
+export function validateMiniature(data, { partial = false, allowedFields = MINIATURE_FIELDS, prefix = '', miniatureId = null } = {}) {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return [{ field: prefix ? prefix.replace(/\.$/, '') : 'body', message: 'Expected a miniature object.' }];
+  }
+  const errors = [];
+  for (const field of Object.keys(data)) {
+    if (!allowedFields.includes(field)) {
+      errors.push({ field: `${prefix}${field}`, message: `Unknown or read-only field "${field}".` });
+    }
+  }
+  for (const field of allowedFields) {
+    const isPresent = data[field] !== undefined;
+    if (!isPresent && (partial || !REQUIRED_FIELDS.includes(field))) {
+      continue;
+    }
+    const message = fieldRules[field](data[field], miniatureId);
+    if (message) {
+      errors.push({ field: `${prefix}${field}`, message });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates the body of a single-miniature update. Images are excluded because they
+ * only change through the image routes.
+ */
+export function validateMiniatureUpdate(data, prefix = '') {
+  return validateMiniature(data, { partial: true, prefix, allowedFields: MINIATURE_FIELDS.filter(field => field !== 'images') });
+}
+
+/**
+ * Validates the `updates` object of a bulk update. Only the bulk-editable fields are allowed.
+ */
+export function validateBulkUpdates(updates) {
+  const errors = validateMiniature(updates, { partial: true, allowedFields: BULK_UPDATE_FIELDS });
+  if (errors.length === 0 && Object.keys(updates).length === 0) {
+    errors.push({ field: 'updates', message: 'At least one field must be updated.' });
+  }
+  return errors;
+}
+
+/**
+ * Validates a list of miniatures, prefixing each field with its position, e.g. "miniatures[3].status".
+ */
+export function validateMiniatureList(miniatures, field = 'miniatures') {
+  if (!Array.isArray(miniatures)) {
+    return [{ field, message: `"${field}" must be an array.` }];
+  }
+  return miniatures.flatMap((miniature, index) => validateMiniature(miniature, { prefix: `${field}[${index}].` }));
+}
+
+/**
+ * Validates a list of complete miniatures as previously returned by the API, with their ids
+ * and server-maintained fields, e.g. "miniatures[3]._id".
+ */
+export function validateStoredMiniatures(miniatures, field = 'miniatures') {
+  if (!Array.isArray(miniatures)) {
+    return [{ field, message: `"${field}" must be an array.` }];
+  }
+  return miniatures.flatMap((miniature, index) => {
+    const prefix = `${field}[${index}].`;
+    const { _id, statusHistory, thumbnails, version, ...fields } = miniature || {};
+    const hasValidId = typeof _id === 'string' && ObjectId.isValid(_id);
+    const errors = validateMiniature(fields, { prefix, miniatureId: hasValidId ? _id : null });
+    if (!hasValidId) {
+      errors.push({ field: `${prefix}_id`, message: 'Invalid miniature ID format.' });
+    }
+    if (statusHistory !== undefined && !Array.isArray(statusHistory)) {
+      errors.push({ field: `${prefix}statusHistory`, message: 'Status history must be a list.' });
+    }
+    if (thumbnails !== undefined && (!Array.isArray(thumbnails)
+      || !thumbnails.every(url => url === null || (hasValidId && isUploadOf(url, _id))))) {
+      errors.push({ field: `${prefix}thumbnails`, message: 'Thumbnails must be a list of this miniature\'s uploads.' });
+    }
+    errors.push(...validateVersion(version, prefix));
+    return errors;
+  });
+}
+
+/**
+ * Validates the optional server-maintained `version` of a stored miniature.
+ */
+export function validateVersion(version, prefix = '') {
+  if (version === undefined || (Number.isInteger(version) && version >= 0)) {
+    return [];
+  }
+  return [{ field: `${prefix}version`, message: 'Version must be a whole number.' }];
+}
+
+/**
+ * Validates a list of miniature ids as sent to the bulk routes.
+ */
+export function validateIds(ids, field = 'ids') {
+  if (!Array.isArray(ids)) {
+    return [{ field, message: `"${field}" must be an array.` }];
+  }
+  return ids
+    .map((id, index) => (typeof id === 'string' && ObjectId.isValid(id) ? null : { field: `${field}[${index}]`, message: 'Invalid miniature ID format.' }))
+    .filter(Boolean);
+}
+
+/**
+ * Validates a game system name.
+ */
+export function validateGameSystemName(name, field = 'name') {
+  if (!isNonEmptyString(name)) {
+    return [{ field, message: 'Game system name is required.' }];
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return [{ field, message: `Game system name must be at most ${MAX_NAME_LENGTH} characters.` }];
+  }
+  return [];
+}
+
+/**
+ * Validates an army name.
+ */
+export function validateArmyName(name, field = 'name') {
+  if (!isNonEmptyString(name)) {
+    return [{ field, message: 'Army name is required.' }];
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return [{ field, message: `Army name must be at most ${MAX_NAME_LENGTH} characters.` }];
+  }
+  return [];
+}
+
+const USERNAME_PATTERN = /^[\w.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 200;
+
+/**
+ * Validates the username and password of a new account.
+ */
+export function validateCredentials(username, password) {
+  const errors = [];
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username.trim())) {
+    errors.push({ field: 'username', message: 'Username must be 3 to 32 letters, digits, dots, dashes or underscores.' });
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    errors.push({ field: 'password', message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` });
+  } else if (password.length > MAX_PASSWORD_LENGTH) {
+    errors.push({ field: 'password', message: `Password must be at most ${MAX_PASSWORD_LENGTH} characters.` });
+  }
+  return errors;
+}
+
+/**
+ * Validates a game system workflow: an ordered, non-empty list of uniquely named stages,
+ * each with a hex color and a "counts as painted" flag.
+ */
+export function validateStages(stages, field = 'stages') {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    return [{ field, message: 'A workflow needs at least one stage.' }];
+  }
+  if (stages.length > MAX_STAGES) {
+    return [{ field, message: `A workflow can have at most ${MAX_STAGES} stages.` }];
+  }
+  const errors = [];
+  const seenNames = new Set();
+  stages.forEach((stage, index) => {
+    const prefix = `${field}[${index}].`;
+    if (!stage || typeof stage !== 'object') {
+      errors.push({ field: `${field}[${index}]`, message: 'Expected a stage object.' });
+      return;
+    }
+    if (!isNonEmptyString(stage.name)) {
+      errors.push({ field: `${prefix}name`, message: 'Stage name is required.' });
+    } else if (stage.name.trim().length > MAX_STAGE_NAME_LENGTH) {
+      errors.push({ field: `${prefix}name`, message: `Stage name must be at most ${MAX_STAGE_NAME_LENGTH} characters.` });
+    } else if (seenNames.has(stage.name.trim().toLowerCase())) {
+      errors.push({ field: `${prefix}name`, message: `Stage "${stage.name.trim()}" appears more than once.` });
+    } else {
+      seenNames.add(stage.name.trim().toLowerCase());
+    }
+    if (typeof stage.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(stage.color)) {
+      errors.push({ field: `${prefix}color`, message: 'Stage color must be a hex color such as #22c55e.' });
+    }
+    if (typeof stage.countsAsPainted !== 'boolean') {
+      errors.push({ field: `${prefix}countsAsPainted`, message: '"countsAsPainted" must be true or false.' });
+    }
+  });
+  return errors;
+}
+
+// Sends the structured 400 response used by every route for invalid input.
+export const sendValidationErrors = (res, errors) =>
+  res.status(400).json({ message: 'Validation failed.', errors });
+
+// Escapes user input for use inside a MongoDB $regex.
+export const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Trims the name-like fields of a validated miniature payload so "Ultramarines " and
+// "Ultramarines" are stored the same way.
+export function normalizeMiniature(data) {
+  const normalized = { ...data };
+  for (const field of ['modelName', 'gameSystem', 'army']) {
+    if (typeof normalized[field] === 'string') {
+      normalized[field] = normalized[field].trim();
+    }
+  }
+  return normalized;
+}
+
+// Keeps only the known fields of a validated workflow and trims the stage names.
+export const normalizeStages = (stages) =>
+  stages.map(({ name, color, countsAsPainted }) => ({ name: name.trim(), color: color.toLowerCase(), countsAsPainted }));
@@ -0,0 +1,70 @@
+// Each game system has its own ordered list of painting stages, stored on its document as
+// `stages: [{ name, color, countsAsPainted }]`. Systems without one use the default workflow.
+// A miniature's `status` must be the name of a stage in its game system's workflow.
+
+// Mirrors `DEFAULT_STAGES` in src/constants.ts.
+export const DEFAULT_STAGES = [
+  { name: 'Purchased', color: '#ef4444', countsAsPainted: false },
+  { name: 'Printed', color: '#f97316', countsAsPainted: false },
+  { name: 'Assembled', color: '#eab308', countsAsPainted: false },
+  { name: 'Primed', color: '#84cc16', countsAsPainted: false },
+  { name: 'Painted', color: '#22c55e', countsAsPainted: true },
+  { name: 'Based', color: '#10b981', countsAsPainted: true },
+  { name: 'Ready for Game', color: '#06b6d4', countsAsPainted: true },
+];
+
+/**
+ * The workflow of a game system document, falling back to the default one.
+ */
+export const stagesOf = (system) =>
+  (system && Array.isArray(system.stages) && system.stages.length > 0 ? system.stages : DEFAULT_STAGES);
+
+/**
+ * Loads the workflow of every game system, keyed by name.
+ */
+export async function loadWorkflows(db, session) {
+  const systems = await db.collection('gamesystems').find({}, { session }).toArray();
+  return new Map(systems.map(system => [system.name, stagesOf(system)]));
+}
+
+/**
+ * Checks that each miniature's status is a stage of its game system's workflow.
+ * `fieldFor(index)` names the status field of the miniature at that position in errors.
+ * Game systems that are not stored use the default workflow.
+ */
+export function validateWorkflowStatuses(miniatures, workflows, fieldFor = () => 'status') {
+  const errors = [];
+  miniatures.forEach(({ gameSystem, status }, index) => {
+    const stages = workflows.get(gameSystem) || DEFAULT_STAGES;
+    if (!stages.some(stage => stage.name === status)) {
+      errors.push({
+        field: fieldFor(index),
+        message: `"${status}" is not a stage of the ${gameSystem} workflow. Use one of: ${stages.map(stage => stage.name).join(', ')}.`,
+      });
+    }
+  });
+  return errors;
+}
+
+/**
+ * Before miniatures move from one game system to another (a merge or a reassigning delete),
+ * appends the stages they use that the target's workflow lacks, so every moved miniature
+ * keeps a valid status.
+ */
+export async function addMissingStages(db, session, fromSystem, toSystem) {
+  const systems = db.collection('gamesystems');
+  const [source, target] = await Promise.all([
+    systems.findOne({ name: fromSystem }, { session }),
+    systems.findOne({ name: toSystem }, { session }),
+  ]);
+  const targetStages = stagesOf(target);
+  const usedStatuses = await db.collection('miniatures').distinct('status', { gameSystem: fromSystem }, { session });
+  const missing = usedStatuses.filter(status => !targetStages.some(stage => stage.name === status));
+  if (missing.length === 0) {
+    return;
+  }
+  const sourceStages = stagesOf(source);
+  const added = missing.map(status =>
+    sourceStages.find(stage => stage.name === status) || { name: status, color: '#6b7280', countsAsPainted: false });
+  await systems.updateOne({ name: toSystem }, { $set: { stages: [...targetStages, ...added] } }, { session });
+}
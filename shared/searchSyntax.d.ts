@@ -0,0 +1,49 @@
+// Types for searchSyntax.js, which is plain JavaScript so the server can run it as it is.
+
+export type SearchField = 'name' | 'system' | 'army' | 'status' | 'count' | 'notes';
+
+// `:` means "contains" for text fields and "is" for status and count.
+export type SearchComparison = ':' | '=' | '<' | '<=' | '>' | '>=';
+
+// Where a term or error sits in the search text, as offsets from its start.
+export interface SearchSpan {
+    start: number;
+    end: number;
+}
+
+export interface TextTerm {
+    type: 'text';
+    negated: boolean;
+    text: string;
+    span: SearchSpan;
+}
+
+interface FieldTermBase {
+    type: 'field';
+    negated: boolean;
+    comparison: SearchComparison;
+    span: SearchSpan;
+}
+
+export type FieldTerm = FieldTermBase & (
+    | { field: 'count'; value: number }
+    | { field: Exclude<SearchField, 'count'>; value: string }
+);
+
+export type SearchTerm = TextTerm | FieldTerm;
+
+export interface SearchError extends SearchSpan {
+    message: string;
+}
+
+// The terms that parsed, and what was wrong with the rest. Terms with an error are left out.
+export interface ParsedSearch {
+    terms: SearchTerm[];
+    errors: SearchError[];
+}
+
+export const SEARCH_FIELDS: SearchField[];
+
+export const FIELD_ALIASES: Record<string, SearchField>;
+
+export function parseSearch(input: string): ParsedSearch;
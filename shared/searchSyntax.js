@@ -0,0 +1,122 @@
+// The query language of the collection search box. The client filters with it offline
+// (src/utils/searchQuery.ts) and the server turns it into database filters
+// (server/searchQuery.js); both read it with this parser, so they cannot drift apart. It has
+// no imports, so it runs unchanged in the browser and in Node.
+//
+// Terms are separated by spaces and a miniature must match all of them:
+//   magnetised              text found in the name, game system, army or notes
+//   "blood angels"          quoted text, spaces and all
+//   army:blood              a field containing the text (name, system, army, notes)
+//   army="Blood Angels"     a field equal to the text, ignoring case
+//   status:painted          a status; status:<painted and status:>=primed compare stages
+//                           within each miniature's workflow
+//   count:5, count:>5       a model count equal to, or compared with, a number
+//   -notes:magnetised       any term prefixed with "-" excludes what it matches
+// Types for this module are in searchSyntax.d.ts.
+
+export const SEARCH_FIELDS = ['name', 'system', 'army', 'status', 'count', 'notes'];
+
+// The names a field can be written as, in lower case.
+export const FIELD_ALIASES = {
+  name: 'name',
+  model: 'name',
+  system: 'system',
+  game: 'system',
+  army: 'army',
+  status: 'status',
+  count: 'count',
+  notes: 'notes',
+  note: 'notes',
+};
+
+// Longest first, so `<=` is not read as `<` followed by a value starting with `=`.
+const COMPARISONS = ['<=', '>=', '<', '>', '='];
+
+const isSpace = (char) => /\s/.test(char);
+
+/**
+ * Parses search text into `{ terms, errors }`. Each term is
+ * `{ type: 'text', negated, text, span }` or
+ * `{ type: 'field', negated, field, comparison, value, span }`, with `value` a number for
+ * `count`. Each error is `{ message, start, end }`. Never throws: whatever cannot be read is
+ * reported in `errors` and the rest of the terms still apply.
+ */
+export function parseSearch(input) {
+  const terms = [];
+  const errors = [];
+  let position = 0;
+
+  // Reads a value at `position`: a quoted string or everything up to the next space.
+  // Returns an error object for an unterminated quote.
+  const readValue = () => {
+    if (input[position] !== '"') {
+      const start = position;
+      while (position < input.length && !isSpace(input[position])) position++;
+      return input.slice(start, position);
+    }
+    const start = position++;
+    let value = '';
+    while (position < input.length && input[position] !== '"') {
+      if (input[position] === '\\' && position + 1 < input.length) position++;
+      value += input[position++];
+    }
+    if (position >= input.length) {
+      return { message: 'Missing closing quote.', start, end: position };
+    }
+    position++;
+    return value;
+  };
+
+  while (position < input.length) {
+    if (isSpace(input[position])) {
+      position++;
+      continue;
+    }
+    const start = position;
+    const negated = input[position] === '-';
+    if (negated) {
+      position++;
+      if (position >= input.length || isSpace(input[position])) {
+        errors.push({ message: 'Expected a search term after "-".', start, end: position });
+        continue;
+      }
+    }
+
+    const fieldMatch = /^([a-z]+):/i.exec(input.slice(position));
+    if (!fieldMatch) {
+      const text = readValue();
+      if (typeof text !== 'string') {
+        errors.push(text);
+      } else if (text !== '') {
+        terms.push({ type: 'text', negated, text, span: { start, end: position } });
+      }
+      continue;
+    }
+
+    const name = fieldMatch[1];
+    position += fieldMatch[0].length;
+    const comparison = COMPARISONS.find(c => input.startsWith(c, position)) ?? ':';
+    if (comparison !== ':') position += comparison.length;
+    const value = readValue();
+    const span = { start, end: position };
+    const field = FIELD_ALIASES[name.toLowerCase()];
+    if (typeof value !== 'string') {
+      errors.push(value);
+    } else if (!field) {
+      errors.push({ message: `Unknown field "${name}". Use one of: ${SEARCH_FIELDS.join(', ')}.`, ...span });
+    } else if (value === '') {
+      errors.push({ message: `Expected a value after "${input.slice(start, position)}".`, ...span });
+    } else if (field === 'count') {
+      if (/^\d+$/.test(value)) {
+        terms.push({ type: 'field', negated, field, comparison, value: Number(value), span });
+      } else {
+        errors.push({ message: `"count" needs a whole number, not "${value}".`, ...span });
+      }
+    } else if (comparison !== ':' && comparison !== '=' && field !== 'status') {
+      errors.push({ message: `Only count and status can be compared with "${comparison}".`, ...span });
+    } else {
+      terms.push({ type: 'field', negated, field, comparison, value, span });
+    }
+  }
+  return { terms, errors };
+}
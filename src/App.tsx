@@ -1,15 +1,24 @@
 import React, { useEffect } from 'react';
+import { useShallow } from 'zustand/react/shallow';
 import { useAppStore } from './store';
+import { selectActiveTheme } from './selectors';
 import Header from './components/Header';
 import DashboardPage from './pages/DashboardPage';
 import CollectionPage from './pages/CollectionPage';
 import DataManagementPage from './pages/DataManagementPage';
+import SettingsPage from './pages/SettingsPage';
+import TrashPage from './pages/TrashPage';
+import LoginPage from './pages/LoginPage';
 import ImageGalleryModal from './components/ImageGalleryModal';
-
-export type Page = 'dashboard' | 'collection' | 'data';
+import { useUrlSync } from './hooks/useUrlSync';
+import { useUndoShortcuts } from './hooks/useUndoShortcuts';
+import { useLiveSync } from './hooks/useLiveSync';
+import { useOfflineSync } from './hooks/useOfflineSync';
+import ConflictDialog from './components/ConflictDialog';
 
 const App: React.FC = () => {
     const { 
+        currentUser,
         page, 
         setPage, 
         fetchInitialData, 
@@ -17,12 +26,40 @@ const App: React.FC = () => {
         error, 
         isGalleryOpen, 
         galleryMiniature, 
-        closeImageGallery 
-    } = useAppStore();
+        closeImageGallery,
+        uploadImages,
+        deleteImage,
+        reorderImages,
+        syncConflicts,
+        resolveSyncConflict
+    } = useAppStore(useShallow(state => ({
+        currentUser: state.currentUser,
+        page: state.page,
+        setPage: state.setPage,
+        fetchInitialData: state.fetchInitialData,
+        isLoading: state.isLoading,
+        error: state.error,
+        isGalleryOpen: state.isGalleryOpen,
+        galleryMiniature: state.galleryMiniature,
+        closeImageGallery: state.closeImageGallery,
+        uploadImages: state.uploadImages,
+        deleteImage: state.deleteImage,
+        reorderImages: state.reorderImages,
+        syncConflicts: state.syncConflicts,
+        resolveSyncConflict: state.resolveSyncConflict,
+    })));
+    const activeTheme = useAppStore(selectActiveTheme);
+
+    useUrlSync();
+    useUndoShortcuts();
+    useLiveSync();
+    useOfflineSync();
 
+    // Each login loads its own user's collection.
+    const userId = currentUser?._id;
     useEffect(() => {
-        fetchInitialData();
-    }, [fetchInitialData]);
+        if (userId) fetchInitialData();
+    }, [userId, fetchInitialData]);
 
     const renderPage = () => {
         if (isLoading) {
@@ -45,13 +82,25 @@ const App: React.FC = () => {
                 return <CollectionPage />;
             case 'data':
                 return <DataManagementPage />;
+            case 'settings':
+                return <SettingsPage />;
+            case 'trash':
+                return <TrashPage />;
             default:
                 return <div>Page not found</div>;
         }
     };
 
+    if (!currentUser) {
+        return (
+            <div className={`min-h-screen text-gray-100 font-sans ${activeTheme.bgGradient}`}>
+                <LoginPage />
+            </div>
+        );
+    }
+
     return (
-        <div className={`min-h-screen text-gray-100 font-sans transition-colors duration-500 ${useAppStore.getState().activeTheme.bgGradient}`}>
+        <div className={`min-h-screen text-gray-100 font-sans transition-colors duration-500 ${activeTheme.bgGradient}`}>
             <Header 
                 page={page} 
                 setPage={setPage} 
@@ -63,6 +112,20 @@ const App: React.FC = () => {
                 <ImageGalleryModal 
                     miniature={galleryMiniature} 
                     onClose={closeImageGallery} 
+                    onAddImages={(files) => uploadImages(galleryMiniature._id, files)}
+                    onDeleteImage={(url) => deleteImage(galleryMiniature._id, url)}
+                    onReorderImages={(images) => reorderImages(galleryMiniature._id, images)}
+                />
+            )}
+            {syncConflicts.length > 0 && (
+                // Keyed so each conflict starts with fresh choices.
+                <ConflictDialog
+                    key={`${syncConflicts[0].current._id}-${syncConflicts[0].current.version}`}
+                    conflict={syncConflicts[0]}
+                    onResolve={resolveSyncConflict}
+                    onDiscard={() => resolveSyncConflict(null)}
+                    onClose={() => resolveSyncConflict(null)}
+                    theme={activeTheme}
                 />
             )}
         </div>
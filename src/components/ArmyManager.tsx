@@ -0,0 +1,193 @@
+/**
+ * @file src/components/ArmyManager.tsx
+ * This component manages the armies of each game system on the settings page: adding,
+ * renaming, merging and deleting them, and a cleanup list of armies whose names look like
+ * variants of each other (e.g. "Ultramarines" and "ultramarine") with a one-click merge.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useAppStore } from '../store';
+import { selectActiveTheme } from '../selectors';
+import { Theme } from '../themes';
+import { ModelGroup } from '../types';
+import { armiesForSystem, countMiniaturesByArmy, findNearDuplicateArmies, DuplicateArmyGroup } from '../utils/armies';
+import NameManagerRow from './NameManagerRow';
+
+interface DuplicateGroupRowProps {
+    group: DuplicateArmyGroup;
+    counts: Map<string, number>;
+    theme: Theme;
+}
+
+/**
+ * One group of near-duplicate armies, merged into the army the user picks.
+ * @param {DuplicateGroupRowProps} props The component's properties.
+ * @returns {JSX.Element} The rendered list item.
+ */
+const DuplicateGroupRow: React.FC<DuplicateGroupRowProps> = ({ group, counts, theme }) => {
+    const mergeArmy = useAppStore(state => state.mergeArmy);
+    const [targetId, setTargetId] = useState(group.suggestedTarget._id);
+    const [isMerging, setIsMerging] = useState(false);
+    const target = group.armies.find(army => army._id === targetId) || group.suggestedTarget;
+
+    const handleMerge = async () => {
+        const sources = group.armies.filter(army => army._id !== target._id);
+        const names = sources.map(army => `"${army.name}"`).join(', ');
+        if (!window.confirm(`Merge ${names} into "${target.name}"?`)) return;
+        setIsMerging(true);
+        // Merge one at a time; the server rejects merges into an army that no longer exists.
+        for (const source of sources) {
+            if (!(await mergeArmy(source._id, target._id))) break;
+        }
+        setIsMerging(false);
+    };
+
+    return (
+        <li className="bg-gray-700/50 p-3 rounded-md text-gray-200">
+            <p className="text-sm text-gray-400 mb-2">{group.gameSystem}</p>
+            <p className="mb-3">
+                {group.armies.map(army => `${army.name} (${counts.get(army._id) || 0})`).join(', ')}
+            </p>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-400">Merge into</span>
+                <select
+                    value={target._id}
+                    onChange={(e) => setTargetId(e.target.value)}
+                    aria-label="Army to keep"
+                    className={`bg-gray-700 border border-gray-600 rounded-md shadow-sm py-1 px-2 text-sm focus:outline-none focus:ring-2 ${theme.accentRing}`}
+                >
+                    {group.armies.map(army => <option key={army._id} value={army._id}>{army.name}</option>)}
+                </select>
+                <button
+                    onClick={handleMerge}
+                    disabled={isMerging}
+                    className={`px-3 py-1 text-sm font-semibold rounded-md shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${theme.button} text-white`}
+                >
+                    {isMerging ? 'Merging...' : 'Merge'}
+                </button>
+            </div>
+        </li>
+    );
+};
+
+interface ArmyManagerProps {
+    // The collection counted by army, for how many miniatures each army has.
+    groups: ModelGroup[];
+}
+
+/**
+ * The army management and cleanup sections of the settings page.
+ * @param {ArmyManagerProps} props The component's properties.
+ * @returns {JSX.Element} The rendered sections.
+ */
+const ArmyManager: React.FC<ArmyManagerProps> = ({ groups }) => {
+    const { gameSystems, armies, createArmy, renameArmy, mergeArmy, deleteArmy } = useAppStore();
+    const activeTheme = useAppStore(selectActiveTheme);
+    const [selectedSystem, setSelectedSystem] = useState(gameSystems[0] || '');
+    const [newArmyName, setNewArmyName] = useState('');
+    const [isAdding, setIsAdding] = useState(false);
+
+    // The selected system can disappear through a rename or delete; fall back to the first one.
+    const gameSystem = gameSystems.includes(selectedSystem) ? selectedSystem : gameSystems[0] || '';
+    const systemArmies = useMemo(() => armiesForSystem(armies, gameSystem), [armies, gameSystem]);
+    const counts = useMemo(() => countMiniaturesByArmy(armies, groups), [armies, groups]);
+    const duplicateGroups = useMemo(() => findNearDuplicateArmies(armies, groups), [armies, groups]);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newArmyName.trim() || !gameSystem || isAdding) return;
+
+        setIsAdding(true);
+        const success = await createArmy(newArmyName.trim(), gameSystem);
+        setIsAdding(false);
+
+        if (success) {
+            setNewArmyName('');
+        }
+    };
+
+    return (
+        <>
+            <div className="bg-gray-900/50 p-6 rounded-lg shadow-inner mt-8">
+                <h3 className={`text-xl font-semibold ${activeTheme.secondaryText} mb-4`}>Manage Armies</h3>
+                <p className="text-gray-400 mb-6">
+                    Armies belong to a game system and are offered when adding or editing miniatures. Renaming or merging an army updates every miniature that uses it.
+                </p>
+
+                <label className="block text-sm text-gray-300 mb-4">
+                    Game system
+                    <select
+                        value={gameSystem}
+                        onChange={(e) => setSelectedSystem(e.target.value)}
+                        className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing}`}
+                    >
+                        {gameSystems.map(gs => <option key={gs} value={gs}>{gs}</option>)}
+                    </select>
+                </label>
+
+                <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-4 mb-6">
+                    <input
+                        type="text"
+                        value={newArmyName}
+                        onChange={(e) => setNewArmyName(e.target.value)}
+                        placeholder="e.g., Ultramarines"
+                        required
+                        className={`flex-grow bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing}`}
+                    />
+                    <button
+                        type="submit"
+                        disabled={isAdding || !newArmyName.trim() || !gameSystem}
+                        className={`px-6 py-2 ${activeTheme.button} text-white font-semibold rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+                    >
+                        {isAdding ? 'Adding...' : 'Add Army'}
+                    </button>
+                </form>
+
+                {systemArmies.length === 0 ? (
+                    <p className="text-gray-400">No armies in this game system yet.</p>
+                ) : (
+                    <ul className="space-y-2 max-h-96 overflow-y-auto pr-2">
+                        {systemArmies.map(army => (
+                            <NameManagerRow
+                                key={army._id}
+                                name={army.name}
+                                noun="army"
+                                miniatureCount={counts.get(army._id) || 0}
+                                targets={systemArmies.filter(a => a._id !== army._id).map(a => ({ value: a._id, label: a.name }))}
+                                theme={activeTheme}
+                                onRename={(newName) => renameArmy(army._id, newName)}
+                                onMerge={(targetId) => mergeArmy(army._id, targetId)}
+                                onDelete={(reassignTo) => deleteArmy(army._id, reassignTo)}
+                            />
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="bg-gray-900/50 p-6 rounded-lg shadow-inner mt-8">
+                <h3 className={`text-xl font-semibold ${activeTheme.secondaryText} mb-4`}>Army Cleanup</h3>
+                {duplicateGroups.length === 0 ? (
+                    <p className="text-gray-400">No duplicate-looking army names found.</p>
+                ) : (
+                    <>
+                        <p className="text-gray-400 mb-6">
+                            These armies have names that differ only in case, spacing, punctuation or a small typo. Merging keeps one name and moves every miniature to it.
+                        </p>
+                        <ul className="space-y-2">
+                            {duplicateGroups.map(group => (
+                                <DuplicateGroupRow
+                                    key={group.armies.map(army => army._id).join(':')}
+                                    group={group}
+                                    counts={counts}
+                                    theme={activeTheme}
+                                />
+                            ))}
+                        </ul>
+                    </>
+                )}
+            </div>
+        </>
+    );
+};
+
+export default ArmyManager;
@@ -0,0 +1,92 @@
+/**
+ * @file src/components/ArmyPicker.tsx
+ * This component picks an army from the ones already known for a game system, so the same
+ * army is not typed three different ways. A new army can still be entered by name.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useAppStore } from '../store';
+import { Theme } from '../themes';
+
+interface ArmyPickerProps {
+    id: string;
+    value: string;
+    onChange: (army: string) => void;
+    // The game system whose armies are offered; null offers every army name.
+    gameSystem: string | null;
+    theme: Theme;
+    hasError?: boolean;
+    required?: boolean;
+    // Text of an extra first option meaning "no army chosen", e.g. "-- No Change --".
+    emptyOptionLabel?: string;
+}
+
+const NEW_ARMY = '__new__';
+
+/**
+ * A select of known armies with a "New army..." option that switches to a text input.
+ * @param {ArmyPickerProps} props The component's properties.
+ * @returns {JSX.Element} The rendered picker.
+ */
+const ArmyPicker: React.FC<ArmyPickerProps> = ({ id, value, onChange, gameSystem, theme, hasError, required, emptyOptionLabel }) => {
+    const armies = useAppStore(state => state.armies);
+    const names = useMemo(() => {
+        const relevant = gameSystem === null ? armies : armies.filter(army => army.gameSystem === gameSystem);
+        return [...new Set(relevant.map(army => army.name))].sort((a, b) => a.localeCompare(b));
+    }, [armies, gameSystem]);
+
+    // A value that is not a known army (e.g. after switching game system) is shown as a new one.
+    const [isNew, setIsNew] = useState(false);
+    useEffect(() => {
+        if (value && !names.includes(value)) setIsNew(true);
+    }, [value, names]);
+    const showInput = isNew || (names.length === 0 && !emptyOptionLabel);
+
+    const fieldClassName = `mt-1 block w-full bg-gray-700 border ${hasError ? 'border-red-500' : 'border-gray-600'} rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`;
+
+    const handleSelect = (selected: string) => {
+        if (selected === NEW_ARMY) {
+            setIsNew(true);
+            onChange('');
+        } else {
+            onChange(selected);
+        }
+    };
+
+    if (showInput) {
+        return (
+            <div className="flex gap-2 items-start">
+                <input
+                    type="text"
+                    id={id}
+                    name="army"
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    required={required}
+                    autoFocus={isNew && value === ''}
+                    placeholder="e.g., Ultramarines"
+                    className={fieldClassName}
+                />
+                {names.length > 0 && (
+                    <button
+                        type="button"
+                        onClick={() => { setIsNew(false); onChange(''); }}
+                        className="mt-1 px-3 py-2 text-sm bg-gray-600 hover:bg-gray-500 rounded-md transition-colors whitespace-nowrap"
+                    >
+                        Pick existing
+                    </button>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <select id={id} name="army" value={value} onChange={(e) => handleSelect(e.target.value)} required={required} className={fieldClassName}>
+            <option value="" disabled={!emptyOptionLabel}>{emptyOptionLabel || 'Choose an army...'}</option>
+            {names.map(name => <option key={name} value={name}>{name}</option>)}
+            <option value={NEW_ARMY}>New army...</option>
+        </select>
+    );
+};
+
+export default ArmyPicker;
@@ -1,24 +1,42 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Status } from '../types';
 import { useAppStore } from '../store';
-import { STATUSES } from '../constants';
+import { selectActiveTheme } from '../selectors';
 import Modal from './Modal';
+import FieldError from './FieldError';
+import ArmyPicker from './ArmyPicker';
+import { combinedStages, stagesFor } from '../utils/workflows';
+
+// Fields with their own input; validation errors for anything else are listed at the top.
+const BULK_FIELDS = ['gameSystem', 'army', 'status', 'notes'];
 
 interface BulkEditModalProps {
     onClose: () => void;
-    onSave: (updates: { status?: Status; army?: string, gameSystem?: string, notes?: string }) => void;
+    onSave: (updates: { status?: Status; army?: string, gameSystem?: string, notes?: string }, statusNote?: string) => void;
     selectedCount: number;
 }
 
 const BulkEditModal: React.FC<BulkEditModalProps> = ({ onClose, onSave, selectedCount }) => {
-    const { gameSystems: allGameSystems, activeTheme } = useAppStore();
+    const { gameSystems: allGameSystems, workflows, fieldErrors, miniatures, selectedIds } = useAppStore();
+    const activeTheme = useAppStore(selectActiveTheme);
 
     const [status, setStatus] = useState<Status | ''>('');
+    const [statusNote, setStatusNote] = useState('');
     const [army, setArmy] = useState('');
     const [gameSystem, setGameSystem] = useState<string | ''>('');
     const [notes, setNotes] = useState('');
     const [updateNotes, setUpdateNotes] = useState(false);
 
+    // Offer the armies and stages of the new game system, or of the one all selected miniatures
+    // share. A mixed selection gets every army and the stages of all its systems.
+    const selectedSystems = useMemo(
+        () => [...new Set(miniatures.filter(m => selectedIds.includes(m._id)).map(m => m.gameSystem))],
+        [miniatures, selectedIds]
+    );
+    const targetGameSystem = gameSystem || (selectedSystems.length === 1 ? selectedSystems[0] : null);
+    const stageNames = (targetGameSystem ? stagesFor(workflows, targetGameSystem) : combinedStages(workflows, selectedSystems))
+        .map(stage => stage.name);
+
     const handleSave = () => {
         const updates: { status?: Status; army?: string; gameSystem?: string, notes?: string } = {};
         if (status) updates.status = status;
@@ -26,50 +44,75 @@ const BulkEditModal: React.FC<BulkEditModalProps> = ({ onClose, onSave, selected
         if (gameSystem) updates.gameSystem = gameSystem;
         if (updateNotes) updates.notes = notes;
 
+        // The store closes the modal once the update succeeds, and keeps it open
+        // with inline errors if the server rejects it.
         if (Object.keys(updates).length > 0) {
-            onSave(updates);
+            onSave(updates, status ? statusNote : undefined);
+        } else {
+            onClose();
         }
-        onClose();
     };
 
+    const otherErrors = Object.entries(fieldErrors).filter(([field]) => !BULK_FIELDS.includes(field));
+
     return (
         <Modal onClose={onClose} title={`Bulk Edit ${selectedCount} Item${selectedCount > 1 ? 's' : ''}`} theme={activeTheme}>
             <div className="p-6 space-y-6 text-gray-300">
                 <p>Apply changes to all selected miniatures. Leave a field blank to keep its original value.</p>
+                {otherErrors.length > 0 && (
+                    <ul className="p-3 bg-red-900/40 border border-red-700 rounded-md text-sm text-red-300 list-disc list-inside" role="alert">
+                        {otherErrors.map(([field, message]) => <li key={field}>{message}</li>)}
+                    </ul>
+                )}
                 <div>
                     <label htmlFor="bulk-gameSystem" className="block text-sm font-medium text-gray-300">New Game System</label>
                     <select
                         id="bulk-gameSystem"
                         value={gameSystem}
                         onChange={(e) => setGameSystem(e.target.value)}
-                        className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing}`}
+                        className={`mt-1 block w-full bg-gray-700 border ${fieldErrors.gameSystem ? 'border-red-500' : 'border-gray-600'} rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing}`}
                     >
                         <option value="">-- No Change --</option>
                         {allGameSystems.map(gs => <option key={gs} value={gs}>{gs}</option>)}
                     </select>
+                    <FieldError message={fieldErrors.gameSystem} />
                 </div>
                 <div>
                     <label htmlFor="bulk-army" className="block text-sm font-medium text-gray-300">New Army / Faction</label>
-                    <input
-                        type="text"
+                    <ArmyPicker
                         id="bulk-army"
                         value={army}
-                        onChange={(e) => setArmy(e.target.value)}
-                        placeholder="e.g., Ultramarines"
-                        className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing}`}
+                        onChange={setArmy}
+                        gameSystem={targetGameSystem}
+                        theme={activeTheme}
+                        hasError={!!fieldErrors.army}
+                        emptyOptionLabel="-- No Change --"
                     />
+                    <FieldError message={fieldErrors.army} />
                 </div>
                  <div>
                     <label htmlFor="bulk-status" className="block text-sm font-medium text-gray-300">New Status</label>
                     <select
                         id="bulk-status"
                         value={status}
-                        onChange={(e) => setStatus(e.target.value as Status | '')}
-                        className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing}`}
+                        onChange={(e) => setStatus(e.target.value)}
+                        className={`mt-1 block w-full bg-gray-700 border ${fieldErrors.status ? 'border-red-500' : 'border-gray-600'} rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing}`}
                     >
                         <option value="">-- No Change --</option>
-                        {STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+                        {stageNames.map(s => <option key={s} value={s}>{s}</option>)}
                     </select>
+                    <FieldError message={fieldErrors.status} />
+                    {status && (
+                        <input
+                            type="text"
+                            id="bulk-statusNote"
+                            value={statusNote}
+                            onChange={(e) => setStatusNote(e.target.value)}
+                            placeholder="Optional note for the status history"
+                            aria-label="Status change note"
+                            className={`mt-2 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing}`}
+                        />
+                    )}
                 </div>
                 <div>
                     <label className="flex items-center space-x-2 text-sm font-medium text-gray-300">
@@ -88,8 +131,9 @@ const BulkEditModal: React.FC<BulkEditModalProps> = ({ onClose, onSave, selected
                         placeholder="Enter new notes. Leave blank to clear notes."
                         disabled={!updateNotes}
                         rows={3}
-                        className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing} ${!updateNotes ? 'opacity-50 cursor-not-allowed' : ''}`}
+                        className={`mt-1 block w-full bg-gray-700 border ${fieldErrors.notes ? 'border-red-500' : 'border-gray-600'} rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing} ${!updateNotes ? 'opacity-50 cursor-not-allowed' : ''}`}
                     />
+                    <FieldError message={fieldErrors.notes} />
                 </div>
             </div>
             <div className="flex justify-end gap-4 p-4 bg-gray-700/50">
@@ -2,33 +2,47 @@
  * @file src/components/CombinedStatusTracker.tsx
  * This component displays a single, combined progress bar that visualizes the overall
  * state of the collection by grouping individual statuses into broader categories.
+ * Each game system has its own workflow, so a miniature's category comes from where its
+ * status sits in that workflow rather than from the status name.
  */
 
 import React, { useMemo } from 'react';
-import { Miniature, Status } from '../types';
+import { Miniature, WorkflowStage } from '../types';
 import { Theme } from '../themes';
+import { useAppStore } from '../store';
+import { stagesFor } from '../utils/workflows';
 
 interface CombinedStatusTrackerProps {
     miniatures: Miniature[];
     theme: Theme;
 }
 
-// Defines the broader categories for the progress bar. Each group contains one or more `Status` enums.
-const statusGroups = [
-    { name: 'Acquired', statuses: [Status.Purchased, Status.Printed], color: 'bg-red-500', label: 'Purchased/Printed' },
-    { name: 'Prepped', statuses: [Status.Assembled, Status.Primed], color: 'bg-orange-500', label: 'Assembled/Primed' },
-    { name: 'In Progress', statuses: [Status.Painted, Status.Based], color: 'bg-yellow-500', label: 'Painted/Based' },
-    { name: 'Game Ready', statuses: [Status.ReadyForGame], color: 'bg-green-500', label: 'Ready for Game' }
+// Defines the broader categories for the progress bar. `matches` decides from a stage's position in
+// its workflow whether it belongs to the group; the first matching group wins.
+const statusGroups: {
+    name: string;
+    color: string;
+    label: string;
+    matches: (index: number, stages: WorkflowStage[]) => boolean;
+}[] = [
+    { name: 'Acquired', color: 'bg-red-500', label: 'First stage', matches: (index) => index <= 0 },
+    { name: 'Game Ready', color: 'bg-green-500', label: 'Last stage', matches: (index, stages) => index === stages.length - 1 },
+    { name: 'In Progress', color: 'bg-yellow-500', label: 'Painted', matches: (index, stages) => stages[index].countsAsPainted },
+    { name: 'Prepped', color: 'bg-orange-500', label: 'In preparation', matches: () => true },
 ];
 
+// The order the groups are shown in, from least to most finished.
+const GROUP_ORDER = ['Acquired', 'Prepped', 'In Progress', 'Game Ready'];
+
 /**
  * A component showing a stacked progress bar of the collection's overall hobby progress.
  * @param {CombinedStatusTrackerProps} props The component's properties.
  * @returns {JSX.Element} The rendered progress bar and legend.
  */
 const CombinedStatusTracker: React.FC<CombinedStatusTrackerProps> = ({ miniatures, theme }) => {
+    const workflows = useAppStore(state => state.workflows);
     // `useMemo` is used to calculate the data for the progress bar segments.
-    // This calculation only re-runs if the `miniatures` prop changes, improving performance.
+    // This calculation only re-runs if the miniatures or workflows change, improving performance.
     const { totalModels, segments } = useMemo(() => {
         // First, calculate the total number of individual models in the collection.
         const totalModels = miniatures.reduce((sum, m) => sum + m.modelCount, 0);
@@ -37,12 +51,18 @@ const CombinedStatusTracker: React.FC<CombinedStatusTrackerProps> = ({ miniature
             return { totalModels: 0, segments: [] };
         }
 
+        // Count the models in each group. Statuses missing from their workflow count as not started.
+        const counts = new Map<string, number>();
+        miniatures.forEach(m => {
+            const stages = stagesFor(workflows, m.gameSystem);
+            const index = stages.findIndex(stage => stage.name === m.status);
+            const group = statusGroups.find(g => g.matches(index, stages))!;
+            counts.set(group.name, (counts.get(group.name) || 0) + m.modelCount);
+        });
+
         // Next, calculate the data for each segment of the progress bar.
-        const calculatedSegments = statusGroups.map(group => {
-            // Count how many models fall into the statuses defined for this group.
-            const count = miniatures
-                .filter(m => group.statuses.includes(m.status))
-                .reduce((sum, m) => sum + m.modelCount, 0);
+        const calculatedSegments = GROUP_ORDER.map(name => statusGroups.find(group => group.name === name)!).map(group => {
+            const count = counts.get(group.name) || 0;
             return {
                 ...group,
                 count,
@@ -52,7 +72,7 @@ const CombinedStatusTracker: React.FC<CombinedStatusTrackerProps> = ({ miniature
         }).filter(segment => segment.count > 0); // Only include segments that have models.
 
         return { totalModels, segments: calculatedSegments };
-    }, [miniatures]);
+    }, [miniatures, workflows]);
 
     // Render a placeholder if there are no models in the collection.
     if (totalModels === 0) {
@@ -0,0 +1,107 @@
+/**
+ * @file src/components/ConflictDialog.tsx
+ * This component is shown when saving a miniature fails because someone else saved it first.
+ * It lists every field where the user's version and the saved one differ and lets the user
+ * pick which value to keep for each, then saves the result on top of the newer version.
+ */
+
+import React, { useState } from 'react';
+import { EditConflict, Miniature } from '../types';
+import { Theme } from '../themes';
+import Modal from './Modal';
+
+type ConflictField = 'modelName' | 'gameSystem' | 'army' | 'status' | 'modelCount' | 'notes';
+type Choice = 'mine' | 'theirs';
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+    modelName: 'Model/Unit Name',
+    gameSystem: 'Game System',
+    army: 'Army / Faction',
+    status: 'Status',
+    modelCount: 'Model Count',
+    notes: 'Notes',
+};
+
+const valueOf = (miniature: Miniature, field: ConflictField) => String(miniature[field] ?? '');
+
+interface ConflictDialogProps {
+    conflict: EditConflict;
+    // Called with the user's version of the miniature, merged onto the saved one.
+    onResolve: (merged: Miniature) => void;
+    onDiscard: () => void;
+    onClose: () => void;
+    theme: Theme;
+}
+
+/**
+ * A per-field choice between the user's unsaved values and the ones saved by someone else.
+ * @param {ConflictDialogProps} props The component's properties.
+ * @returns {JSX.Element} The rendered dialog.
+ */
+const ConflictDialog: React.FC<ConflictDialogProps> = ({ conflict, onResolve, onDiscard, onClose, theme }) => {
+    const { base, mine, current } = conflict;
+    const fields = (Object.keys(FIELD_LABELS) as ConflictField[])
+        .filter(field => valueOf(mine, field) !== valueOf(current, field));
+
+    // Keep the user's value where they changed the field, and the saved one where only the
+    // other person did.
+    const [choices, setChoices] = useState<Record<string, Choice>>(() => Object.fromEntries(
+        fields.map(field => [field, valueOf(mine, field) !== valueOf(base, field) ? 'mine' : 'theirs'])
+    ));
+
+    const handleResolve = () => {
+        const kept = fields.filter(field => choices[field] === 'mine').map(field => [field, mine[field]]);
+        onResolve({ ...current, ...Object.fromEntries(kept) });
+    };
+
+    const renderOption = (field: ConflictField, choice: Choice, miniature: Miniature, label: string) => (
+        <label className={`flex-1 flex items-start gap-2 p-2 rounded-md border cursor-pointer ${choices[field] === choice ? 'border-cyan-500 bg-cyan-900/20' : 'border-gray-600'}`}>
+            <input
+                type="radio"
+                name={`conflict-${field}`}
+                checked={choices[field] === choice}
+                onChange={() => setChoices(prev => ({ ...prev, [field]: choice }))}
+                className="mt-1"
+            />
+            <span>
+                <span className="block text-xs text-gray-400">{label}</span>
+                <span className="block text-white whitespace-pre-wrap break-words">{valueOf(miniature, field) || <em className="text-gray-500">empty</em>}</span>
+            </span>
+        </label>
+    );
+
+    return (
+        <Modal onClose={onClose} title="Someone Else Changed This Miniature" theme={theme} maxWidthClass="max-w-2xl">
+            <div className="p-6 space-y-4 text-gray-300">
+                <p>
+                    "{current.modelName}" was saved by someone else while you were editing it. Choose which value to keep for each field that differs.
+                </p>
+                {fields.length === 0 ? (
+                    <p className="text-gray-400">Your changes match the saved version.</p>
+                ) : (
+                    <ul className="space-y-3">
+                        {fields.map(field => (
+                            <li key={field}>
+                                <p className="text-sm font-medium text-gray-300 mb-1">{FIELD_LABELS[field]}</p>
+                                <div className="flex flex-col sm:flex-row gap-2">
+                                    {renderOption(field, 'mine', mine, 'Yours')}
+                                    {renderOption(field, 'theirs', current, 'Saved')}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+            <div className="flex justify-end gap-4 p-4 border-t border-gray-700">
+                <button type="button" onClick={onDiscard} className="px-6 py-2 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-lg shadow-md transition-colors">
+                    Discard My Changes
+                </button>
+                <button type="button" onClick={handleResolve} className={`px-6 py-2 ${theme.button} text-white font-semibold rounded-lg shadow-md transition-colors`}>
+                    Save Chosen Values
+                </button>
+            </div>
+        </Modal>
+    );
+};
+
+export default ConflictDialog;
@@ -0,0 +1,241 @@
+/**
+ * @file src/components/CsvImportWizard.tsx
+ * This component lets the user import a CSV file with any column layout. Columns are
+ * mapped onto miniature fields (guessed from the header names), unknown status texts are
+ * mapped onto statuses, and the first converted rows are previewed alongside a list of
+ * rows that cannot be imported.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useAppStore } from '../store';
+import { selectActiveTheme } from '../selectors';
+import { Miniature, Status } from '../types';
+import { CsvTable } from '../utils/csv';
+import {
+    MAPPABLE_FIELDS,
+    MappableField,
+    ColumnMapping,
+    StatusMapping,
+    guessColumnMapping,
+    guessStatusMapping,
+    distinctStatusValues,
+    applyColumnMapping,
+} from '../utils/csvMapping';
+import { combinedStages, stagesFor } from '../utils/workflows';
+import Modal from './Modal';
+
+interface CsvImportWizardProps {
+    table: CsvTable;
+    fileName: string;
+    // Label of the button that hands the converted rows on, e.g. "Review Merge".
+    continueLabel: string;
+    onCancel: () => void;
+    onComplete: (miniatures: Omit<Miniature, '_id'>[]) => void;
+}
+
+const FIELD_LABELS: Record<MappableField, string> = {
+    modelName: 'Model/Unit Name',
+    gameSystem: 'Game System',
+    army: 'Army / Faction',
+    status: 'Status',
+    modelCount: 'Model Count',
+    notes: 'Notes',
+};
+
+// Fields that must come from a column; the others fall back to a default.
+const REQUIRED_FIELDS: MappableField[] = ['modelName', 'army'];
+
+const DELIMITER_NAMES: Record<string, string> = {
+    ',': 'commas',
+    ';': 'semicolons',
+    '\t': 'tabs',
+};
+
+const PREVIEW_ROWS = 5;
+const MAX_LISTED_ERRORS = 50;
+
+const selectClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-1 px-2 text-sm focus:outline-none focus:ring-2';
+
+/**
+ * A modal wizard that converts an arbitrary CSV table into miniatures.
+ * @param {CsvImportWizardProps} props The component's properties.
+ * @returns {JSX.Element} The rendered wizard.
+ */
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ table, fileName, continueLabel, onCancel, onComplete }) => {
+    const { gameSystems, workflows } = useAppStore();
+    const activeTheme = useAppStore(selectActiveTheme);
+    const [columns, setColumns] = useState<ColumnMapping>(() => guessColumnMapping(table.headers));
+    const [statusOverrides, setStatusOverrides] = useState<StatusMapping>({});
+    const [defaultGameSystem, setDefaultGameSystem] = useState(gameSystems[0] || '');
+    const [chosenDefaultStatus, setDefaultStatus] = useState<Status>('');
+
+    // With a game system column, rows can belong to any system, so offer every stage; otherwise
+    // only the stages of the game system every row gets.
+    const stageNames = useMemo(
+        () => (columns.gameSystem === null
+            ? stagesFor(workflows, defaultGameSystem)
+            : combinedStages(workflows, gameSystems)
+        ).map(stage => stage.name),
+        [columns.gameSystem, workflows, defaultGameSystem, gameSystems]
+    );
+    const defaultStatus = stageNames.includes(chosenDefaultStatus) ? chosenDefaultStatus : stageNames[0] || '';
+
+    const statusValues = useMemo(
+        () => distinctStatusValues(table.records, columns.status),
+        [table.records, columns.status]
+    );
+    // Guesses are recomputed when the status column changes; the user's picks take precedence.
+    const statusMapping = useMemo(
+        () => ({ ...guessStatusMapping(statusValues, stageNames), ...statusOverrides }),
+        [statusValues, stageNames, statusOverrides]
+    );
+    const result = useMemo(
+        () => applyColumnMapping(table, columns, statusMapping, {
+            gameSystem: defaultGameSystem,
+            status: defaultStatus,
+        }, workflows),
+        [table, columns, statusMapping, defaultGameSystem, defaultStatus, workflows]
+    );
+
+    // A row can have more than one problem, so count rows rather than errors.
+    const skippedRowCount = new Set(result.errors.map(error => error.row)).size;
+    const missingRequired = REQUIRED_FIELDS.filter(field => columns[field] === null);
+    const canContinue = missingRequired.length === 0 && result.rows.length > 0;
+
+    const handleColumnChange = (field: MappableField, value: string) => {
+        const column = value === '' ? null : Number(value);
+        setColumns(prev => {
+            const next = { ...prev, [field]: column };
+            // A column feeds one field only, so take it away from whichever field had it.
+            MAPPABLE_FIELDS.forEach(other => {
+                if (other !== field && column !== null && next[other] === column) next[other] = null;
+            });
+            return next;
+        });
+    };
+
+    return (
+        <Modal onClose={onCancel} title={`Import ${fileName}`} theme={activeTheme} maxWidthClass="max-w-4xl">
+            <div className="p-6 space-y-6 text-gray-300 max-h-[70vh] overflow-y-auto">
+                <section>
+                    <h3 className={`text-lg font-semibold ${activeTheme.secondaryText} mb-2`}>1. Match columns to fields</h3>
+                    <p className="text-sm text-gray-400 mb-3">Found {table.headers.length} columns and {table.records.length} rows, separated by {DELIMITER_NAMES[table.delimiter] || `"${table.delimiter}"`}. Columns were matched by name; adjust anything that looks wrong.</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {MAPPABLE_FIELDS.map(field => (
+                            <label key={field} className="block text-sm">
+                                <span className="text-gray-300">{FIELD_LABELS[field]}{REQUIRED_FIELDS.includes(field) && <span className="text-red-400"> *</span>}</span>
+                                <select
+                                    value={columns[field] ?? ''}
+                                    onChange={(e) => handleColumnChange(field, e.target.value)}
+                                    className={`mt-1 ${selectClassName} ${activeTheme.accentRing}`}
+                                >
+                                    <option value="">(not in file)</option>
+                                    {table.headers.map((header, index) => (
+                                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+                    {(columns.gameSystem === null || columns.status === null) && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
+                            {columns.gameSystem === null && (
+                                <label className="block text-sm">
+                                    <span className="text-gray-300">Game system for every row</span>
+                                    <select value={defaultGameSystem} onChange={(e) => setDefaultGameSystem(e.target.value)} className={`mt-1 ${selectClassName} ${activeTheme.accentRing}`}>
+                                        {gameSystems.map(gs => <option key={gs} value={gs}>{gs}</option>)}
+                                    </select>
+                                </label>
+                            )}
+                            {columns.status === null && (
+                                <label className="block text-sm">
+                                    <span className="text-gray-300">Status for every row</span>
+                                    <select value={defaultStatus} onChange={(e) => setDefaultStatus(e.target.value)} className={`mt-1 ${selectClassName} ${activeTheme.accentRing}`}>
+                                        {stageNames.map(s => <option key={s} value={s}>{s}</option>)}
+                                    </select>
+                                </label>
+                            )}
+                        </div>
+                    )}
+                </section>
+
+                {statusValues.length > 0 && (
+                    <section>
+                        <h3 className={`text-lg font-semibold ${activeTheme.secondaryText} mb-2`}>2. Match status values</h3>
+                        <p className="text-sm text-gray-400 mb-3">Rows with an unmatched status are skipped. Empty statuses use "{defaultStatus}".</p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+                            {statusValues.map(value => (
+                                <label key={value} className="flex items-center justify-between gap-3 text-sm">
+                                    <span className="truncate" title={value}>&ldquo;{value}&rdquo;</span>
+                                    <select
+                                        value={statusMapping[value]}
+                                        onChange={(e) => setStatusOverrides(prev => ({ ...prev, [value]: e.target.value }))}
+                                        className={`w-44 ${selectClassName} ${activeTheme.accentRing} ${statusMapping[value] ? '' : 'border-red-500'}`}
+                                    >
+                                        <option value="">(choose a status)</option>
+                                        {stageNames.map(s => <option key={s} value={s}>{s}</option>)}
+                                    </select>
+                                </label>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
+                <section>
+                    <h3 className={`text-lg font-semibold ${activeTheme.secondaryText} mb-2`}>{statusValues.length > 0 ? '3' : '2'}. Preview</h3>
+                    {missingRequired.length > 0 ? (
+                        <p className="text-sm text-red-300">Choose a column for {missingRequired.map(field => FIELD_LABELS[field]).join(' and ')} to continue.</p>
+                    ) : (
+                        <>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm text-left">
+                                    <thead className="text-gray-400">
+                                        <tr>
+                                            <th className="py-1 pr-3">Row</th>
+                                            {MAPPABLE_FIELDS.map(field => <th key={field} className="py-1 pr-3">{FIELD_LABELS[field]}</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {result.rows.slice(0, PREVIEW_ROWS).map(({ row, miniature }) => (
+                                            <tr key={row} className="border-t border-gray-700">
+                                                <td className="py-1 pr-3 text-gray-500">{row}</td>
+                                                {MAPPABLE_FIELDS.map(field => <td key={field} className="py-1 pr-3 text-white truncate max-w-[10rem]">{String(miniature[field] ?? '')}</td>)}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <p className="mt-3 text-sm">
+                                <span className="text-green-300">{result.rows.length} rows ready to import.</span>
+                                {skippedRowCount > 0 && <span className="text-red-300"> {skippedRowCount} rows will be skipped:</span>}
+                            </p>
+                            {result.errors.length > 0 && (
+                                <ul className="mt-2 max-h-40 overflow-y-auto text-sm text-red-300 list-disc list-inside">
+                                    {result.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                                        <li key={index}>Row {error.row}: {error.message}</li>
+                                    ))}
+                                    {result.errors.length > MAX_LISTED_ERRORS && <li>...and {result.errors.length - MAX_LISTED_ERRORS} more.</li>}
+                                </ul>
+                            )}
+                        </>
+                    )}
+                </section>
+            </div>
+            <div className="flex justify-end gap-4 p-4 bg-gray-700/50">
+                <button type="button" onClick={onCancel} className="px-6 py-2 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-lg shadow-md transition-colors">
+                    Cancel
+                </button>
+                <button
+                    type="button"
+                    onClick={() => onComplete(result.rows.map(({ miniature }) => miniature))}
+                    disabled={!canContinue}
+                    className={`px-6 py-2 ${activeTheme.button} text-white font-semibold rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                    {continueLabel}
+                </button>
+            </div>
+        </Modal>
+    );
+};
+
+export default CsvImportWizard;
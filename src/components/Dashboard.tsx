@@ -1,28 +1,28 @@
-import React, { useMemo } from 'react';
-import { Miniature } from '../types';
+import React from 'react';
+import { ModelGroup } from '../types';
+import { useAppStore } from '../store';
+import { DashboardStats } from '../selectors';
+import { Workflows } from '../utils/workflows';
 import HeatmapChart from './HeatmapChart';
 import StatusChart from './StatusChart';
 import Card from './Card';
 import { CollectionIcon, CheckCircleIcon, ClockIcon } from './Icons';
 
 interface DashboardProps {
-    miniatures: Miniature[];
+    groups: ModelGroup[];
+    stats: DashboardStats;
+    // Defaults to the logged-in user's workflows; a shared showcase passes its owner's.
+    workflows?: Workflows;
+    title?: string;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ miniatures }) => {
-    const stats = useMemo(() => {
-        const totalModels = miniatures.reduce((sum, m) => sum + m.modelCount, 0);
-        const paintedModels = miniatures
-            .filter(m => ['Painted', 'Based', 'Ready for Game'].includes(m.status))
-            .reduce((sum, m) => sum + m.modelCount, 0);
-        const unpaintedModels = totalModels - paintedModels;
-        
-        return { totalModels, paintedModels, unpaintedModels };
-    }, [miniatures]);
+const Dashboard: React.FC<DashboardProps> = ({ groups, stats, workflows: workflowsProp, title = 'Dashboard' }) => {
+    const storeWorkflows = useAppStore(state => state.workflows);
+    const workflows = workflowsProp ?? storeWorkflows;
 
     return (
         <div className="bg-gray-800/50 rounded-xl shadow-2xl p-6 backdrop-blur-sm">
-            <h2 className="text-3xl font-bold text-cyan-400 mb-6 tracking-wider">Dashboard</h2>
+            <h2 className="text-3xl font-bold text-cyan-400 mb-6 tracking-wider">{title}</h2>
             
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 my-6">
                 <Card title="Total Models" value={stats.totalModels} icon={<CollectionIcon />} />
@@ -33,11 +33,11 @@ const Dashboard: React.FC<DashboardProps> = ({ miniatures }) => {
             <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 mt-8">
                 <div className="lg:col-span-3 bg-gray-900/50 p-4 rounded-lg shadow-inner">
                      <h3 className="text-xl font-semibold text-purple-400 mb-4">Progress Heatmap</h3>
-                    <HeatmapChart data={miniatures} />
+                    <HeatmapChart data={groups} workflows={workflows} />
                 </div>
                 <div className="lg:col-span-2 bg-gray-900/50 p-4 rounded-lg shadow-inner">
                      <h3 className="text-xl font-semibold text-purple-400 mb-4">Status Overview</h3>
-                    <StatusChart data={miniatures} />
+                    <StatusChart data={groups} workflows={workflows} />
                 </div>
             </div>
         </div>
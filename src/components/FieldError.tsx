@@ -0,0 +1,13 @@
+import React from 'react';
+
+interface FieldErrorProps {
+    message?: string;
+}
+
+// Inline validation message shown beneath a form field.
+const FieldError: React.FC<FieldErrorProps> = ({ message }) => {
+    if (!message) return null;
+    return <p className="mt-1 text-sm text-red-400" role="alert">{message}</p>;
+};
+
+export default FieldError;
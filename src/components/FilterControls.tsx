@@ -1,21 +1,29 @@
 import React from 'react';
 import { useAppStore } from '../store';
-import { Miniature, Filter } from '../types';
+import { Filter, Status } from '../types';
+import { combinedStages, stagesFor } from '../utils/workflows';
 import { Theme } from '../themes';
 
 interface FilterControlsProps {
     filters: Filter;
     setFilters: (filters: Partial<Filter>) => void;
-    allMiniatures: Miniature[];
     theme: Theme;
 }
 
-const FilterControls: React.FC<FilterControlsProps> = ({ filters, setFilters, allMiniatures, theme }) => {
+const FilterControls: React.FC<FilterControlsProps> = ({ filters, setFilters, theme }) => {
     const gameSystems = useAppStore(state => state.gameSystems);
+    const armies = useAppStore(state => state.armies);
+    const workflows = useAppStore(state => state.workflows);
+    // Suggest the armies of the chosen game system, or every army name when showing all systems.
     const armyOptions = React.useMemo(() => {
-        const armies = new Set(allMiniatures.map(m => m.army));
-        return Array.from(armies).sort();
-    }, [allMiniatures]);
+        const relevant = filters.gameSystem === 'all' ? armies : armies.filter(army => army.gameSystem === filters.gameSystem);
+        return Array.from(new Set(relevant.map(army => army.name))).sort();
+    }, [armies, filters.gameSystem]);
+    // Offer the chosen game system's stages, or the stages of every system when showing all.
+    const statusOptions = React.useMemo(() => {
+        const stages = filters.gameSystem === 'all' ? combinedStages(workflows, gameSystems) : stagesFor(workflows, filters.gameSystem);
+        return stages.map(stage => stage.name);
+    }, [workflows, gameSystems, filters.gameSystem]);
 
     return (
         <div className="flex flex-col md:flex-row gap-4 mb-6 p-4 bg-gray-900/50 rounded-lg">
@@ -46,6 +54,18 @@ const FilterControls: React.FC<FilterControlsProps> = ({ filters, setFilters, al
                     {armyOptions.map(army => <option key={army} value={army} />)}
                 </datalist>
             </div>
+            <div className="flex-1">
+                <label htmlFor="statusFilter" className="block text-sm font-medium text-gray-400 mb-1">Status</label>
+                <select 
+                    id="statusFilter" 
+                    value={filters.status} 
+                    onChange={e => setFilters({ status: e.target.value as Status | 'all' })}
+                    className={`w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`}
+                >
+                    <option value="all">All Statuses</option>
+                    {statusOptions.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+            </div>
         </div>
     );
 };
@@ -1,7 +1,9 @@
-import React from 'react';
-import { Page } from '../App';
+import React, { useState } from 'react';
+import { Page } from '../types';
 import { useAppStore } from '../store';
-import { PaintBrushIcon, SearchIcon, DashboardIcon, CollectionIcon, DatabaseIcon } from './Icons';
+import { pathForPage } from '../utils/routing';
+import SearchBox from './SearchBox';
+import { PaintBrushIcon, DashboardIcon, CollectionIcon, DatabaseIcon, CogIcon, TrashIcon, UndoIcon, RedoIcon, UserIcon } from './Icons';
 
 interface HeaderProps {
     page: Page;
@@ -9,15 +11,22 @@ interface HeaderProps {
 }
 
 interface NavLinkProps {
+    href: string;
     onClick: () => void;
     isActive: boolean;
     children: React.ReactNode;
     icon: React.ReactNode;
 }
 
-const NavLink: React.FC<NavLinkProps> = ({ onClick, isActive, children, icon }) => (
-    <button
-        onClick={onClick}
+// A real link, so pages can be opened in a new tab, but plain clicks switch page in place.
+const NavLink: React.FC<NavLinkProps> = ({ href, onClick, isActive, children, icon }) => (
+    <a
+        href={href}
+        onClick={(e) => {
+            if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+            e.preventDefault();
+            onClick();
+        }}
         className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md transition-colors ${
             isActive 
                 ? 'bg-cyan-500/20 text-cyan-300' 
@@ -27,11 +36,60 @@ const NavLink: React.FC<NavLinkProps> = ({ onClick, isActive, children, icon })
     >
         {icon}
         <span className="hidden sm:inline">{children}</span>
-    </button>
+    </a>
 );
 
+// The logged-in user's name, opening a menu with the logout button.
+const UserMenu: React.FC = () => {
+    const { currentUser, pendingOperations, logout } = useAppStore();
+    const [isOpen, setIsOpen] = useState(false);
+
+    const handleLogout = () => {
+        if (pendingOperations.length > 0 && !window.confirm(`${pendingOperations.length} changes made offline have not been saved yet and will be lost. Log out anyway?`)) {
+            return;
+        }
+        setIsOpen(false);
+        logout();
+    };
+
+    return (
+        <div
+            className="relative"
+            // Close when focus leaves the menu, e.g. by clicking elsewhere.
+            onBlur={(e) => { if (!e.currentTarget.contains(e.relatedTarget)) setIsOpen(false); }}
+        >
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md text-gray-400 hover:bg-gray-700/50 hover:text-white transition-colors"
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+            >
+                <UserIcon />
+                <span className="hidden md:inline max-w-[10rem] truncate">{currentUser?.username}</span>
+            </button>
+            {isOpen && (
+                <div role="menu" className="absolute right-0 mt-2 w-48 bg-gray-800 border border-gray-700 rounded-md shadow-lg py-1">
+                    <p className="px-4 py-2 text-xs text-gray-400 border-b border-gray-700">
+                        Logged in as <span className="text-gray-200">{currentUser?.username}</span>
+                    </p>
+                    <button
+                        role="menuitem"
+                        onClick={handleLogout}
+                        className="block w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
+                    >
+                        Log Out
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
 const Header: React.FC<HeaderProps> = ({ page, setPage }) => {
-    const { searchQuery, setSearchQuery } = useAppStore();
+    const { undoStack, redoStack, isReplaying, undo, redo, isOffline, isSyncing, pendingOperations, syncPendingOperations } = useAppStore();
+    const pendingCount = pendingOperations.length;
+    const nextUndo = undoStack[undoStack.length - 1];
+    const nextRedo = redoStack[redoStack.length - 1];
 
     return (
         <header className="bg-gray-800/30 backdrop-blur-lg shadow-lg border-b border-cyan-500/20 sticky top-0 z-50">
@@ -45,28 +103,52 @@ const Header: React.FC<HeaderProps> = ({ page, setPage }) => {
                     </div>
 
                     <nav className="flex items-center gap-2 sm:gap-4">
-                        <NavLink onClick={() => setPage('dashboard')} isActive={page === 'dashboard'} icon={<DashboardIcon />}>Dashboard</NavLink>
-                        <NavLink onClick={() => setPage('collection')} isActive={page === 'collection'} icon={<CollectionIcon />}>Collection</NavLink>
-                        <NavLink onClick={() => setPage('data')} isActive={page === 'data'} icon={<DatabaseIcon />}>Data</NavLink>
+                        <NavLink href={pathForPage('dashboard')} onClick={() => setPage('dashboard')} isActive={page === 'dashboard'} icon={<DashboardIcon />}>Dashboard</NavLink>
+                        <NavLink href={pathForPage('collection')} onClick={() => setPage('collection')} isActive={page === 'collection'} icon={<CollectionIcon />}>Collection</NavLink>
+                        <NavLink href={pathForPage('data')} onClick={() => setPage('data')} isActive={page === 'data'} icon={<DatabaseIcon />}>Data</NavLink>
+                        <NavLink href={pathForPage('settings')} onClick={() => setPage('settings')} isActive={page === 'settings'} icon={<CogIcon />}>Settings</NavLink>
+                        <NavLink href={pathForPage('trash')} onClick={() => setPage('trash')} isActive={page === 'trash'} icon={<TrashIcon />}>Trash</NavLink>
                     </nav>
 
+                    {(isOffline || pendingCount > 0) && (
+                        <button
+                            onClick={syncPendingOperations}
+                            disabled={isSyncing || pendingCount === 0}
+                            className="flex items-center gap-2 px-3 py-1 rounded-full text-xs font-semibold bg-amber-500/20 text-amber-300 hover:bg-amber-500/30 transition-colors disabled:cursor-default"
+                            title={isOffline ? 'The server cannot be reached. Changes are saved on this device and sent once it is back.' : 'Send the changes made offline now'}
+                        >
+                            <span className={`h-2 w-2 rounded-full ${isOffline ? 'bg-amber-400' : 'bg-cyan-400 animate-pulse'}`} />
+                            {isOffline ? 'Offline' : isSyncing ? 'Syncing' : 'Not synced'}
+                            {pendingCount > 0 && <span className="hidden sm:inline">&middot; {pendingCount} pending</span>}
+                        </button>
+                    )}
+
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={undo}
+                            disabled={!nextUndo || isReplaying}
+                            className="p-2 rounded-md text-gray-400 hover:bg-gray-700/50 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                            title={nextUndo ? `Undo ${nextUndo.label} (Ctrl+Z)` : 'Nothing to undo'}
+                            aria-label="Undo"
+                        >
+                            <UndoIcon />
+                        </button>
+                        <button
+                            onClick={redo}
+                            disabled={!nextRedo || isReplaying}
+                            className="p-2 rounded-md text-gray-400 hover:bg-gray-700/50 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                            title={nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                            aria-label="Redo"
+                        >
+                            <RedoIcon />
+                        </button>
+                    </div>
+
                     <div className="flex-1 flex justify-end">
-                        {page === 'collection' && (
-                            <div className="relative w-full max-w-xs">
-                                <span className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
-                                    <SearchIcon />
-                                </span>
-                                <input
-                                    type="search"
-                                    placeholder="Search collection..."
-                                    value={searchQuery}
-                                    onChange={(e) => setSearchQuery(e.target.value)}
-                                    className="w-full pl-10 pr-4 py-2 bg-gray-700/50 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors"
-                                    aria-label="Search collection"
-                                />
-                            </div>
-                        )}
+                        {page === 'collection' && <SearchBox />}
                     </div>
+
+                    <UserMenu />
                 </div>
             </div>
         </header>
@@ -1,15 +1,20 @@
 import React, { useMemo } from 'react';
 import { Treemap, ResponsiveContainer, Tooltip } from 'recharts';
-import { Miniature } from '../types';
-import { STATUS_COLORS, STATUS_PROGRESS } from '../constants';
+import { ModelGroup } from '../types';
+import { DEFAULT_STAGES } from '../constants';
+import { useAppStore } from '../store';
+import { stageProgress, Workflows } from '../utils/workflows';
 
 interface HeatmapChartProps {
-    data: Miniature[];
+    data: ModelGroup[];
+    // Defaults to the logged-in user's workflows; a shared showcase passes its owner's.
+    workflows?: Workflows;
 }
 
 interface TreemapNode {
     name: string;
     size: number;
+    // Sum of each model's progress through its workflow (0 to 1), so dividing by size gives the average.
     statusProgress: number;
     children?: TreemapNode[];
     // FIX: Add optional gameSystem property to allow it on leaf nodes for the tooltip.
@@ -33,7 +38,13 @@ const CustomTooltip = ({ active, payload }: any) => {
 };
 
 
-const HeatmapChart: React.FC<HeatmapChartProps> = ({ data }) => {
+// Average progress is shown on the default workflow's color scale, whatever the game system,
+// so systems with different numbers of stages stay comparable.
+const PROGRESS_COLORS = DEFAULT_STAGES.map(stage => stage.color);
+
+const HeatmapChart: React.FC<HeatmapChartProps> = ({ data, workflows: workflowsProp }) => {
+    const storeWorkflows = useAppStore(state => state.workflows);
+    const workflows = workflowsProp ?? storeWorkflows;
     const treemapData = useMemo(() => {
         const groupedByGameSystem: { [key: string]: TreemapNode } = {};
 
@@ -48,32 +59,33 @@ const HeatmapChart: React.FC<HeatmapChartProps> = ({ data }) => {
             }
 
             const gameSystemNode = groupedByGameSystem[mini.gameSystem];
+            const progress = stageProgress(workflows, mini.gameSystem, mini.status) * mini.modelCount;
             
             // FIX: Accumulate size and progress on the game system node.
             // This ensures the top-level containers have a size for the treemap to render.
             gameSystemNode.size += mini.modelCount;
-            gameSystemNode.statusProgress += STATUS_PROGRESS[mini.status] * mini.modelCount;
+            gameSystemNode.statusProgress += progress;
 
             const armyNode = gameSystemNode.children?.find(c => c.name === mini.army);
 
             if (armyNode) {
                 armyNode.size += mini.modelCount;
-                armyNode.statusProgress += STATUS_PROGRESS[mini.status] * mini.modelCount;
+                armyNode.statusProgress += progress;
                 armyNode.children?.push({
                     name: mini.modelName,
                     size: mini.modelCount,
-                    statusProgress: STATUS_PROGRESS[mini.status],
+                    statusProgress: progress,
                     gameSystem: mini.gameSystem, // Add for tooltip
                 });
             } else {
                  gameSystemNode.children?.push({
                     name: mini.army,
                     size: mini.modelCount,
-                    statusProgress: STATUS_PROGRESS[mini.status] * mini.modelCount,
+                    statusProgress: progress,
                     children: [{
                         name: mini.modelName,
                         size: mini.modelCount,
-                        statusProgress: STATUS_PROGRESS[mini.status],
+                        statusProgress: progress,
                         gameSystem: mini.gameSystem, // Add for tooltip
                     }]
                 });
@@ -82,23 +94,21 @@ const HeatmapChart: React.FC<HeatmapChartProps> = ({ data }) => {
         
         return Object.values(groupedByGameSystem);
 
-    }, [data]);
+    }, [data, workflows]);
 
     if (data.length === 0) {
         return <div className="flex items-center justify-center h-full text-gray-500">No data to display. Add some miniatures!</div>;
     }
 
-    const COLORS = Object.values(STATUS_COLORS);
-
     const CustomTreemapContent = (props: any) => {
         const { depth, x, y, width, height, payload, name } = props;
         
-        if (!payload || !payload.statusProgress || !payload.size) return null;
+        if (!payload || payload.statusProgress === undefined || !payload.size) return null;
         
         const avgProgress = payload.statusProgress / payload.size;
         
-        const colorIndex = Math.round(avgProgress) - 1;
-        const color = COLORS[colorIndex] || '#374151';
+        const colorIndex = Math.ceil(avgProgress * PROGRESS_COLORS.length) - 1;
+        const color = PROGRESS_COLORS[colorIndex] || '#374151';
 
         return (
             <g>
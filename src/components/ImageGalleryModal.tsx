@@ -5,13 +5,18 @@
 
 import React, { useState, useEffect } from 'react';
 import { Miniature } from '../types';
-import { ChevronLeftIcon, ChevronRightIcon, XIcon } from './Icons';
+import { ChevronLeftIcon, ChevronRightIcon, StarIcon, TrashIcon, UploadIcon, XIcon } from './Icons';
 import ReactDOM from 'react-dom';
+import { getThumbnailUrl } from '../utils/images';
 
 // Defines the props for the ImageGalleryModal component.
+// The image handlers are optional; without them the gallery is view-only.
 interface ImageGalleryModalProps {
     miniature: Miniature;
     onClose: () => void;
+    onAddImages?: (files: File[]) => Promise<void>;
+    onDeleteImage?: (url: string) => Promise<void>;
+    onReorderImages?: (images: string[]) => Promise<void>;
 }
 
 /**
@@ -19,18 +24,27 @@ interface ImageGalleryModalProps {
 * @param {ImageGalleryModalProps} props The component's properties.
 * @returns {JSX.Element} The rendered modal component.
 */
-const ImageGalleryModal: React.FC<ImageGalleryModalProps> = ({ miniature, onClose }) => {
+const ImageGalleryModal: React.FC<ImageGalleryModalProps> = ({ miniature, onClose, onAddImages, onDeleteImage, onReorderImages }) => {
     const [currentIndex, setCurrentIndex] = useState(0);
+    const [isWorking, setIsWorking] = useState(false);
 
     // FIX: Access the 'images' property safely, providing an empty array as a fallback.
     const images = miniature.images || [];
+    const canManage = !!(onAddImages && onDeleteImage && onReorderImages);
+
+    // Keep the index in range when an image is deleted.
+    useEffect(() => {
+        if (currentIndex > 0 && currentIndex >= images.length) {
+            setCurrentIndex(Math.max(images.length - 1, 0));
+        }
+    }, [currentIndex, images.length]);
 
     // Keyboard navigation effect
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key === 'ArrowRight') {
+            if (e.key === 'ArrowRight' && images.length > 1) {
                 goToNext();
-            } else if (e.key === 'ArrowLeft') {
+            } else if (e.key === 'ArrowLeft' && images.length > 1) {
                 goToPrevious();
             } else if (e.key === 'Escape') {
                 onClose();
@@ -40,9 +54,39 @@ const ImageGalleryModal: React.FC<ImageGalleryModalProps> = ({ miniature, onClos
         return () => window.removeEventListener('keydown', handleKeyDown);
     }, [currentIndex, images.length]); // Re-bind if index or images change
 
-    if (images.length === 0) {
+    if (images.length === 0 && !canManage) {
         return null; // Don't render if there are no images.
     }
+
+    const runImageAction = async (action: () => Promise<void>) => {
+        setIsWorking(true);
+        await action();
+        setIsWorking(false);
+    };
+
+    const handleAddImages = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length > 0 && onAddImages) {
+            runImageAction(() => onAddImages(files));
+        }
+    };
+
+    const handleSetCover = () => {
+        if (!onReorderImages || currentIndex === 0) return;
+        const reordered = [images[currentIndex], ...images.filter((_, index) => index !== currentIndex)];
+        runImageAction(async () => {
+            await onReorderImages(reordered);
+            setCurrentIndex(0);
+        });
+    };
+
+    const handleDelete = () => {
+        if (!onDeleteImage) return;
+        if (window.confirm('Are you sure you want to delete this image?')) {
+            runImageAction(() => onDeleteImage(images[currentIndex]));
+        }
+    };
     
     const goToPrevious = () => {
         const isFirstImage = currentIndex === 0;
@@ -78,13 +122,48 @@ const ImageGalleryModal: React.FC<ImageGalleryModalProps> = ({ miniature, onClos
             <div className="relative w-full h-full max-w-5xl max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
                 <h2 className="text-white text-center text-xl mb-4 truncate">{miniature.modelName}</h2>
 
+                {/* Management Toolbar */}
+                {canManage && (
+                    <div className="flex justify-center gap-3 mb-4">
+                        <label className={`flex items-center gap-2 px-3 py-1.5 text-sm bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg transition-colors ${isWorking ? 'opacity-50 cursor-wait' : 'cursor-pointer'}`}>
+                            <UploadIcon />
+                            Add Images
+                            <input type="file" accept="image/*" multiple className="hidden" onChange={handleAddImages} disabled={isWorking} />
+                        </label>
+                        {images.length > 0 && (
+                            <>
+                                <button
+                                    onClick={handleSetCover}
+                                    disabled={isWorking || currentIndex === 0}
+                                    className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <StarIcon />
+                                    {currentIndex === 0 ? 'Cover Image' : 'Set as Cover'}
+                                </button>
+                                <button
+                                    onClick={handleDelete}
+                                    disabled={isWorking}
+                                    className="flex items-center gap-2 px-3 py-1.5 text-sm bg-red-600 hover:bg-red-500 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <TrashIcon />
+                                    Delete
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
+
                 {/* Main Image Viewer */}
                 <div className="relative flex-grow flex items-center justify-center">
-                    <img 
-                        src={images[currentIndex]} 
-                        alt={`Image ${currentIndex + 1} for ${miniature.modelName}`}
-                        className="max-w-full max-h-full object-contain"
-                    />
+                    {images.length === 0 ? (
+                        <p className="text-gray-400">No images yet. Add some to start the gallery.</p>
+                    ) : (
+                        <img 
+                            src={images[currentIndex]} 
+                            alt={`Image ${currentIndex + 1} for ${miniature.modelName}`}
+                            className="max-w-full max-h-full object-contain"
+                        />
+                    )}
                     
                     {/* Navigation Arrows */}
                     {images.length > 1 && (
@@ -111,7 +190,7 @@ const ImageGalleryModal: React.FC<ImageGalleryModalProps> = ({ miniature, onClos
                 {images.length > 1 && (
                     <div className="flex-shrink-0 mt-4 h-24">
                         <div className="flex justify-center items-center gap-2 overflow-x-auto p-2">
-                            {images.map((img, index) => (
+                            {images.map((_, index) => (
                                 <button
                                     key={index}
                                     onClick={() => goToIndex(index)}
@@ -119,7 +198,7 @@ const ImageGalleryModal: React.FC<ImageGalleryModalProps> = ({ miniature, onClos
                                         index === currentIndex ? 'border-4 border-cyan-400' : 'border-2 border-transparent hover:border-gray-500'
                                     }`}
                                 >
-                                    <img src={img} alt={`Thumbnail ${index + 1}`} className="w-full h-full object-cover" />
+                                    <img src={getThumbnailUrl(miniature, index)} alt={`Thumbnail ${index + 1}`} loading="lazy" className="w-full h-full object-cover" />
                                 </button>
                             ))}
                         </div>
@@ -0,0 +1,97 @@
+/**
+ * @file src/components/ImageManager.tsx
+ * This component lists a miniature's images and lets the user add, reorder,
+ * choose a cover for and delete them. The first image is always the cover.
+ */
+
+import React from 'react';
+import { Theme } from '../themes';
+import { ChevronLeftIcon, ChevronRightIcon, StarIcon, TrashIcon, UploadIcon } from './Icons';
+
+interface ImageManagerProps {
+    images: string[];
+    // Optional thumbnail URLs, index-aligned with `images`, used for the grid previews.
+    thumbnails?: (string | null)[];
+    onAdd: (files: File[]) => void;
+    onRemove: (url: string) => void;
+    onReorder: (images: string[]) => void;
+    theme: Theme;
+    isBusy?: boolean;
+}
+
+/**
+ * Moves the item at `from` to position `to`, returning a new array.
+ */
+const moveItem = (items: string[], from: number, to: number): string[] => {
+    const result = [...items];
+    const [item] = result.splice(from, 1);
+    result.splice(to, 0, item);
+    return result;
+};
+
+/**
+ * An editable grid of image thumbnails with an upload button.
+ * @param {ImageManagerProps} props The component's properties.
+ * @returns {JSX.Element} The rendered image manager.
+ */
+const ImageManager: React.FC<ImageManagerProps> = ({ images, thumbnails, onAdd, onRemove, onReorder, theme, isBusy = false }) => {
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        if (files.length > 0) {
+            onAdd(files);
+        }
+        // Reset the input so selecting the same file again still fires a change event.
+        e.target.value = '';
+    };
+
+    const handleRemove = (url: string) => {
+        if (window.confirm('Are you sure you want to delete this image?')) {
+            onRemove(url);
+        }
+    };
+
+    const iconButton = 'p-1 rounded bg-black/60 text-white hover:bg-black/90 disabled:opacity-30 disabled:cursor-not-allowed transition-colors';
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-3">
+                <h4 className={`text-lg font-semibold ${theme.secondaryText}`}>Images</h4>
+                <label className={`flex items-center gap-2 px-3 py-1.5 text-sm ${theme.button} text-white rounded-lg shadow-md transition-colors ${isBusy ? 'opacity-50 cursor-wait' : 'cursor-pointer'}`}>
+                    <UploadIcon />
+                    {isBusy ? 'Working...' : 'Add Images'}
+                    <input type="file" accept="image/*" multiple className="hidden" onChange={handleFileChange} disabled={isBusy} />
+                </label>
+            </div>
+            {images.length === 0 ? (
+                <p className="text-sm text-gray-500">No images yet.</p>
+            ) : (
+                <ul className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+                    {images.map((url, index) => (
+                        <li key={url} className={`relative group aspect-square rounded-md overflow-hidden border-2 ${index === 0 ? 'border-yellow-400' : 'border-gray-600'}`}>
+                            <img src={thumbnails?.[index] || url} alt={`Image ${index + 1}`} loading="lazy" className="w-full h-full object-cover" />
+                            {index === 0 && (
+                                <span className="absolute top-1 left-1 px-1.5 py-0.5 text-[10px] font-bold uppercase bg-yellow-400 text-gray-900 rounded">Cover</span>
+                            )}
+                            <div className="absolute inset-x-0 bottom-0 flex justify-between p-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                                <button type="button" className={iconButton} disabled={isBusy || index === 0} onClick={() => onReorder(moveItem(images, index, index - 1))} aria-label="Move image left">
+                                    <ChevronLeftIcon />
+                                </button>
+                                <button type="button" className={iconButton} disabled={isBusy || index === 0} onClick={() => onReorder(moveItem(images, index, 0))} aria-label="Set as cover image">
+                                    <StarIcon />
+                                </button>
+                                <button type="button" className={iconButton} disabled={isBusy} onClick={() => handleRemove(url)} aria-label="Delete image">
+                                    <TrashIcon />
+                                </button>
+                                <button type="button" className={iconButton} disabled={isBusy || index === images.length - 1} onClick={() => onReorder(moveItem(images, index, index + 1))} aria-label="Move image right">
+                                    <ChevronRightIcon />
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ImageManager;
@@ -0,0 +1,160 @@
+/**
+ * @file src/components/ImportPreviewModal.tsx
+ * This component previews a merge import: which rows would be added, changed, left
+ * unchanged or removed, with per-field diffs. Each group can be accepted or rejected
+ * before anything is written to the database.
+ */
+
+import React, { useState } from 'react';
+import { useAppStore } from '../store';
+import { selectActiveTheme } from '../selectors';
+import { ImportDiff, buildMergePlan } from '../utils/importDiff';
+import Modal from './Modal';
+
+interface ImportPreviewModalProps {
+    diff: ImportDiff;
+    onClose: () => void;
+    onMerged: () => void;
+}
+
+// Labels for the compared fields in the changed-rows list.
+const FIELD_LABELS: Record<string, string> = {
+    modelName: 'Name',
+    gameSystem: 'System',
+    army: 'Army',
+    status: 'Status',
+    modelCount: 'Count',
+    notes: 'Notes',
+};
+
+// Only this many rows per group are listed; the counts always cover every row.
+const MAX_LISTED_ROWS = 100;
+
+const formatValue = (value: unknown) => (value === undefined || value === null || value === '' ? '(empty)' : String(value));
+
+interface GroupProps {
+    title: string;
+    count: number;
+    color: string;
+    accepted?: boolean;
+    onToggle?: (accepted: boolean) => void;
+    children?: React.ReactNode;
+}
+
+const Group: React.FC<GroupProps> = ({ title, count, color, accepted, onToggle, children }) => (
+    <details className="bg-gray-900/50 rounded-lg border border-gray-700" open={count > 0 && count <= 20}>
+        <summary className="flex items-center justify-between gap-4 p-3 cursor-pointer select-none">
+            <span className="flex items-center gap-2 font-semibold">
+                <span className={`h-3 w-3 rounded-full ${color}`}></span>
+                {title} <span className="text-gray-400 font-normal">({count})</span>
+            </span>
+            {onToggle && (
+                <label className="flex items-center gap-2 text-sm text-gray-300" onClick={(e) => e.stopPropagation()}>
+                    <input
+                        type="checkbox"
+                        checked={accepted}
+                        disabled={count === 0}
+                        onChange={(e) => onToggle(e.target.checked)}
+                        className="h-4 w-4 rounded bg-gray-700 border-gray-600 text-cyan-600 focus:ring-cyan-500"
+                    />
+                    Apply
+                </label>
+            )}
+        </summary>
+        {count > 0 && children && (
+            <div className="px-3 pb-3 max-h-64 overflow-y-auto text-sm">
+                {children}
+                {count > MAX_LISTED_ROWS && <p className="mt-2 text-gray-500">...and {count - MAX_LISTED_ROWS} more.</p>}
+            </div>
+        )}
+    </details>
+);
+
+/**
+ * A modal that shows the diff of a merge import and commits the accepted groups.
+ * @param {ImportPreviewModalProps} props The component's properties.
+ * @returns {JSX.Element} The rendered modal.
+ */
+const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ diff, onClose, onMerged }) => {
+    const { mergeImport } = useAppStore();
+    const activeTheme = useAppStore(selectActiveTheme);
+    // Removing miniatures is destructive, so it is opt-in.
+    const [accept, setAccept] = useState({ added: true, changed: true, removed: false });
+    const [isMerging, setIsMerging] = useState(false);
+
+    const plan = buildMergePlan(diff, accept);
+    const totalChanges = plan.add.length + plan.update.length + plan.remove.length;
+
+    const handleMerge = async () => {
+        setIsMerging(true);
+        const success = await mergeImport(plan);
+        setIsMerging(false);
+        if (success) {
+            onMerged();
+        }
+    };
+
+    return (
+        <Modal onClose={onClose} title="Merge Import Preview" theme={activeTheme} maxWidthClass="max-w-3xl">
+            <div className="p-6 space-y-4 text-gray-300 max-h-[70vh] overflow-y-auto">
+                <p>Rows are matched to your collection by id, or by model name, game system and army. Choose which groups to apply.</p>
+
+                <Group title="Added" count={diff.added.length} color="bg-green-500" accepted={accept.added} onToggle={(added) => setAccept(prev => ({ ...prev, added }))}>
+                    <ul className="space-y-1">
+                        {diff.added.slice(0, MAX_LISTED_ROWS).map((row, index) => (
+                            <li key={index}>
+                                <span className="text-white">{row.modelName}</span> <span className="text-gray-400">&middot; {row.gameSystem} &middot; {row.army} &middot; {row.status} &middot; x{row.modelCount}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </Group>
+
+                <Group title="Changed" count={diff.changed.length} color="bg-yellow-500" accepted={accept.changed} onToggle={(changed) => setAccept(prev => ({ ...prev, changed }))}>
+                    <ul className="space-y-3">
+                        {diff.changed.slice(0, MAX_LISTED_ROWS).map(({ existing, changes }) => (
+                            <li key={existing._id}>
+                                <p className="text-white">{existing.modelName} <span className="text-gray-400">&middot; {existing.army}</span></p>
+                                <ul className="ml-4">
+                                    {changes.map(({ field, before, after }) => (
+                                        <li key={field}>
+                                            <span className="text-gray-400">{FIELD_LABELS[field]}:</span>{' '}
+                                            <span className="text-red-300 line-through">{formatValue(before)}</span>{' '}&rarr;{' '}
+                                            <span className="text-green-300">{formatValue(after)}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </li>
+                        ))}
+                    </ul>
+                </Group>
+
+                <Group title="Unchanged" count={diff.unchanged.length} color="bg-gray-500" />
+
+                <Group title="Removed (not in file)" count={diff.removed.length} color="bg-red-500" accepted={accept.removed} onToggle={(removed) => setAccept(prev => ({ ...prev, removed }))}>
+                    <ul className="space-y-1">
+                        {diff.removed.slice(0, MAX_LISTED_ROWS).map(m => (
+                            <li key={m._id}>
+                                <span className="text-white">{m.modelName}</span> <span className="text-gray-400">&middot; {m.gameSystem} &middot; {m.army}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </Group>
+            </div>
+            <div className="flex justify-end gap-4 p-4 bg-gray-700/50">
+                <button type="button" onClick={onClose} className="px-6 py-2 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-lg shadow-md transition-colors">
+                    Cancel
+                </button>
+                <button
+                    type="button"
+                    onClick={handleMerge}
+                    disabled={isMerging || totalChanges === 0}
+                    className={`px-6 py-2 ${activeTheme.button} text-white font-semibold rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                    {isMerging ? 'Merging...' : `Apply ${totalChanges} Change${totalChanges === 1 ? '' : 's'}`}
+                </button>
+            </div>
+        </Modal>
+    );
+};
+
+export default ImportPreviewModal;
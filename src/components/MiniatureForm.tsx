@@ -1,11 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAppStore } from '../store';
-import { Miniature, Status } from '../types';
-import { STATUSES } from '../constants';
+import { Miniature } from '../types';
 import { Theme } from '../themes';
+import StatusTimeline from './StatusTimeline';
+import ImageManager from './ImageManager';
+import FieldError from './FieldError';
+import { stagesFor } from '../utils/workflows';
+import ArmyPicker from './ArmyPicker';
+import ConflictDialog from './ConflictDialog';
+
+// Fields with their own input; validation errors for anything else are listed above the form.
+const FORM_FIELDS = ['modelName', 'gameSystem', 'army', 'status', 'modelCount', 'notes'];
+
+// An image chosen for a miniature that has not been created yet, with a local preview URL.
+interface PendingImage {
+    file: File;
+    previewUrl: string;
+}
 
 interface MiniatureFormProps {
-    onSubmit: (miniature: Omit<Miniature, '_id'> | Miniature) => void;
+    onSubmit: (miniature: Omit<Miniature, '_id'> | Miniature, statusNote?: string, images?: File[]) => void;
     initialData?: Miniature | null;
     onCancel: () => void;
     theme: Theme;
@@ -13,17 +27,45 @@ interface MiniatureFormProps {
 
 const MiniatureForm: React.FC<MiniatureFormProps> = ({ onSubmit, initialData, onCancel, theme }) => {
     const gameSystems = useAppStore(state => state.gameSystems);
+    const fieldErrors = useAppStore(state => state.fieldErrors);
+    const workflows = useAppStore(state => state.workflows);
+    const firstStage = (gameSystem: string) => stagesFor(workflows, gameSystem)[0]?.name || '';
+    const { uploadImages, deleteImage, reorderImages, editConflict, dismissConflict } = useAppStore();
+    // Image changes on an existing miniature are saved immediately, so read them from the store
+    // rather than from `initialData`, which is a snapshot taken when editing started.
+    const savedMiniature = useAppStore(state =>
+        initialData ? state.miniatures.find(m => m._id === initialData._id) : undefined
+    );
+    const savedImages = savedMiniature?.images || [];
+    const [pendingImages, setPendingImages] = useState<PendingImage[]>([]);
+    const [isSavingImages, setIsSavingImages] = useState(false);
     
     const [formData, setFormData] = useState({
         modelName: '',
         gameSystem: gameSystems[0] || '',
         army: '',
-        status: STATUSES[0],
+        status: firstStage(gameSystems[0] || ''),
         modelCount: 1,
         notes: '',
     });
+    const [statusNote, setStatusNote] = useState('');
+    // The version the next update is based on; it moves forward when a conflict is resolved.
+    const [baseVersion, setBaseVersion] = useState(initialData?.version);
 
+    // Release any remaining preview URLs when the form closes.
+    const pendingImagesRef = useRef(pendingImages);
+    pendingImagesRef.current = pendingImages;
     useEffect(() => {
+        return () => pendingImagesRef.current.forEach(image => URL.revokeObjectURL(image.previewUrl));
+    }, []);
+
+    useEffect(() => {
+        setStatusNote('');
+        setBaseVersion(initialData?.version);
+        setPendingImages(prev => {
+            prev.forEach(image => URL.revokeObjectURL(image.previewUrl));
+            return [];
+        });
         if (initialData) {
             setFormData({
                 modelName: initialData.modelName,
@@ -38,66 +80,188 @@ const MiniatureForm: React.FC<MiniatureFormProps> = ({ onSubmit, initialData, on
                 modelName: '',
                 gameSystem: gameSystems[0] || '',
                 army: '',
-                status: STATUSES[0],
+                status: firstStage(gameSystems[0] || ''),
                 modelCount: 1,
                 notes: '',
             });
         }
-    }, [initialData, gameSystems]);
+    }, [initialData, gameSystems, workflows]);
+
+    const stages = stagesFor(workflows, formData.gameSystem);
+    // A miniature saved before its workflow changed may be at a stage the workflow no longer has.
+    const isUnknownStatus = !stages.some(stage => stage.name === formData.status);
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
-        setFormData(prev => ({ ...prev, [name]: name === 'modelCount' ? parseInt(value) || 0 : value }));
+        setFormData(prev => {
+            const next = { ...prev, [name]: name === 'modelCount' ? parseInt(value) || 0 : value };
+            // Each game system has its own stages; keep the status only if the new system has it too.
+            if (name === 'gameSystem' && !stagesFor(workflows, value).some(stage => stage.name === prev.status)) {
+                next.status = firstStage(value);
+            }
+            return next;
+        });
     };
 
+    const otherErrors = Object.entries(fieldErrors).filter(([field]) => !FORM_FIELDS.includes(field));
+
+    // A note can only be attached to a transition, so only offer it once the status has changed.
+    const statusChanged = !!initialData && formData.status !== initialData.status;
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (formData.modelName.trim() === '' || formData.army.trim() === '') return;
         
         if (initialData) {
-            onSubmit({ ...initialData, ...formData });
+            onSubmit({ ...initialData, ...formData, version: baseVersion }, statusChanged ? statusNote : undefined);
+        } else {
+            onSubmit(formData, undefined, pendingImages.map(image => image.file));
+        }
+    };
+
+    // Saves the values picked in the conflict dialog on top of the newer version. The form shows
+    // them too, so they are not lost if the server rejects the save.
+    const handleResolveConflict = (merged: Miniature) => {
+        setFormData({
+            modelName: merged.modelName,
+            gameSystem: merged.gameSystem,
+            army: merged.army,
+            status: merged.status,
+            modelCount: merged.modelCount,
+            notes: merged.notes || '',
+        });
+        setBaseVersion(merged.version);
+        // Submitted before the conflict is dismissed, so the save knows which version the
+        // merged values were picked against.
+        onSubmit(merged, merged.status !== editConflict?.current.status ? editConflict?.statusNote : undefined);
+        dismissConflict();
+    };
+
+    const handleDiscardChanges = () => {
+        dismissConflict();
+        onCancel();
+    };
+
+    const withImageSaving = async (action: () => Promise<void>) => {
+        setIsSavingImages(true);
+        await action();
+        setIsSavingImages(false);
+    };
+
+    const handleAddImages = (files: File[]) => {
+        if (initialData) {
+            withImageSaving(() => uploadImages(initialData._id, files));
+        } else {
+            setPendingImages(prev => [...prev, ...files.map(file => ({ file, previewUrl: URL.createObjectURL(file) }))]);
+        }
+    };
+
+    const handleRemoveImage = (url: string) => {
+        if (initialData) {
+            withImageSaving(() => deleteImage(initialData._id, url));
+        } else {
+            URL.revokeObjectURL(url);
+            setPendingImages(prev => prev.filter(image => image.previewUrl !== url));
+        }
+    };
+
+    const handleReorderImages = (images: string[]) => {
+        if (initialData) {
+            withImageSaving(() => reorderImages(initialData._id, images));
         } else {
-            onSubmit(formData);
+            setPendingImages(prev => images.map(url => prev.find(image => image.previewUrl === url)!));
         }
     };
     
     return (
         <form onSubmit={handleSubmit} className="p-6 mb-8 bg-gray-900/50 rounded-lg space-y-6 border border-gray-700 animate-fade-in">
             <h3 className={`text-2xl font-semibold ${theme.secondaryText} border-b border-gray-700 pb-3`}>{initialData ? 'Edit Miniature' : 'Add New Miniature'}</h3>
+            {otherErrors.length > 0 && (
+                <ul className="p-3 bg-red-900/40 border border-red-700 rounded-md text-sm text-red-300 list-disc list-inside" role="alert">
+                    {otherErrors.map(([field, message]) => <li key={field}><strong>{field}</strong>: {message}</li>)}
+                </ul>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                     <label htmlFor="modelName" className="block text-sm font-medium text-gray-300">Model/Unit Name</label>
-                    <input type="text" name="modelName" id="modelName" value={formData.modelName} onChange={handleChange} required className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`} />
+                    <input type="text" name="modelName" id="modelName" value={formData.modelName} onChange={handleChange} required className={`mt-1 block w-full bg-gray-700 border ${fieldErrors.modelName ? 'border-red-500' : 'border-gray-600'} rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`} />
+                    <FieldError message={fieldErrors.modelName} />
                 </div>
                  <div>
                     <label htmlFor="gameSystem" className="block text-sm font-medium text-gray-300">Game System</label>
-                    <select name="gameSystem" id="gameSystem" value={formData.gameSystem} onChange={handleChange} required className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`}>
+                    <select name="gameSystem" id="gameSystem" value={formData.gameSystem} onChange={handleChange} required className={`mt-1 block w-full bg-gray-700 border ${fieldErrors.gameSystem ? 'border-red-500' : 'border-gray-600'} rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`}>
                         {gameSystems.map(gs => <option key={gs} value={gs}>{gs}</option>)}
                     </select>
+                    <FieldError message={fieldErrors.gameSystem} />
                 </div>
                  <div>
                     <label htmlFor="army" className="block text-sm font-medium text-gray-300">Army / Faction</label>
-                    <input type="text" name="army" id="army" value={formData.army} onChange={handleChange} required className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`} />
+                    <ArmyPicker
+                        id="army"
+                        value={formData.army}
+                        onChange={(army) => setFormData(prev => ({ ...prev, army }))}
+                        gameSystem={formData.gameSystem}
+                        theme={theme}
+                        hasError={!!fieldErrors.army}
+                        required
+                    />
+                    <FieldError message={fieldErrors.army} />
                 </div>
                 <div>
                     <label htmlFor="status" className="block text-sm font-medium text-gray-300">Status</label>
-                    <select name="status" id="status" value={formData.status} onChange={handleChange} className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`}>
-                        {STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+                    <select name="status" id="status" value={formData.status} onChange={handleChange} className={`mt-1 block w-full bg-gray-700 border ${fieldErrors.status ? 'border-red-500' : 'border-gray-600'} rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`}>
+                        {isUnknownStatus && <option value={formData.status}>{formData.status} (not in workflow)</option>}
+                        {stages.map(stage => <option key={stage.name} value={stage.name}>{stage.name}</option>)}
                     </select>
+                    <FieldError message={fieldErrors.status} />
                 </div>
                 <div>
                     <label htmlFor="modelCount" className="block text-sm font-medium text-gray-300">Model Count</label>
-                    <input type="number" name="modelCount" id="modelCount" min="1" value={formData.modelCount} onChange={handleChange} required className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`} />
+                    <input type="number" name="modelCount" id="modelCount" min="1" value={formData.modelCount} onChange={handleChange} required className={`mt-1 block w-full bg-gray-700 border ${fieldErrors.modelCount ? 'border-red-500' : 'border-gray-600'} rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`} />
+                    <FieldError message={fieldErrors.modelCount} />
                 </div>
+                {statusChanged && (
+                    <div className="md:col-span-2">
+                        <label htmlFor="statusNote" className="block text-sm font-medium text-gray-300">Status Change Note <span className="text-gray-500">(optional)</span></label>
+                        <input type="text" name="statusNote" id="statusNote" value={statusNote} onChange={(e) => setStatusNote(e.target.value)} className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`} placeholder={`e.g., why it moved from ${initialData?.status} to ${formData.status}`} />
+                    </div>
+                )}
                 <div className="md:col-span-2">
                      <label htmlFor="notes" className="block text-sm font-medium text-gray-300">Notes</label>
-                    <textarea name="notes" id="notes" value={formData.notes} onChange={handleChange} rows={3} className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`} placeholder="e.g., paint scheme, squad markings..."/>
+                    <textarea name="notes" id="notes" value={formData.notes} onChange={handleChange} rows={3} className={`mt-1 block w-full bg-gray-700 border ${fieldErrors.notes ? 'border-red-500' : 'border-gray-600'} rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${theme.accentRing}`} placeholder="e.g., paint scheme, squad markings..."/>
+                    <FieldError message={fieldErrors.notes} />
                 </div>
             </div>
+            <div className="border-t border-gray-700 pt-4">
+                <ImageManager
+                    images={initialData ? savedImages : pendingImages.map(image => image.previewUrl)}
+                    thumbnails={initialData ? savedMiniature?.thumbnails : undefined}
+                    onAdd={handleAddImages}
+                    onRemove={handleRemoveImage}
+                    onReorder={handleReorderImages}
+                    theme={theme}
+                    isBusy={isSavingImages}
+                />
+                {initialData && <p className="mt-2 text-xs text-gray-500">Image changes are saved immediately.</p>}
+            </div>
+            {initialData && (
+                <div className="border-t border-gray-700 pt-4">
+                    <StatusTimeline history={initialData.statusHistory || []} gameSystem={initialData.gameSystem} theme={theme} />
+                </div>
+            )}
             <div className="flex justify-end gap-4 pt-4">
                 <button type="button" onClick={onCancel} className="px-6 py-2 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-lg shadow-md transition-colors">Cancel</button>
                 <button type="submit" className={`px-6 py-2 ${theme.button} text-white font-semibold rounded-lg shadow-md transition-colors`}>{initialData ? 'Update' : 'Save'}</button>
             </div>
+            {editConflict && (
+                <ConflictDialog
+                    conflict={editConflict}
+                    onResolve={handleResolveConflict}
+                    onDiscard={handleDiscardChanges}
+                    onClose={dismissConflict}
+                    theme={theme}
+                />
+            )}
         </form>
     );
 };
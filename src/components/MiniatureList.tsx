@@ -1,8 +1,12 @@
-import React from 'react';
+import React, { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
 import { useAppStore } from '../store';
+import { selectSelectedIdSet, selectSelection } from '../selectors';
 import { Miniature } from '../types';
-import { STATUS_COLORS } from '../constants';
-import { PencilIcon, TrashIcon, SortIcon, SortAscIcon, SortDescIcon } from './Icons';
+import { stageColor } from '../utils/workflows';
+import { getCoverThumbnailUrl } from '../utils/images';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { PencilIcon, TrashIcon, SortIcon, SortAscIcon, SortDescIcon, PhotoIcon } from './Icons';
 
 interface SortableHeaderProps {
     title: string;
@@ -10,7 +14,7 @@ interface SortableHeaderProps {
 }
 
 const SortableHeader: React.FC<SortableHeaderProps> = ({ title, columnKey }) => {
-    const { sortConfig, setSortConfig } = useAppStore();
+    const { sortConfig, setSortConfig } = useAppStore(useShallow(state => ({ sortConfig: state.sortConfig, setSortConfig: state.setSortConfig })));
     const isSorted = sortConfig?.key === columnKey;
     const Icon = isSorted 
         ? (sortConfig.direction === 'asc' ? SortAscIcon : SortDescIcon) 
@@ -29,33 +33,191 @@ const SortableHeader: React.FC<SortableHeaderProps> = ({ title, columnKey }) =>
     );
 };
 
-const MiniatureList: React.FC = () => {
-    const { 
-        filteredMiniatures,
-        deleteMiniature,
-        startEditing,
-        selectedIds,
-        toggleSelection,
-        toggleSelectAll,
-        isAllSelected,
-        activeTheme
-    } = useAppStore();
-
-    const handleDelete = (id: string, name: string) => {
-        if (window.confirm(`Are you sure you want to delete "${name}"?`)) {
-            deleteMiniature(id);
+// Rows are drawn at this height until a taller one is measured: a name with a line of notes.
+const ROW_HEIGHT = 69;
+
+// The row keyboard focus is in, and which of the row's controls has it.
+interface RowFocus {
+    index: number;
+    control: number;
+}
+
+const rowControls = (row: Element) => Array.from(row.querySelectorAll<HTMLElement>('input, button'));
+
+interface MiniatureRowProps {
+    mini: Miniature;
+    index: number;
+    isSelected: boolean;
+    height: number;
+    onDelete: (id: string, name: string) => void;
+}
+
+const MiniatureRow: React.FC<MiniatureRowProps> = React.memo(({ mini, index, isSelected, height, onDelete }) => {
+    const { startEditing, toggleSelection, openImageGallery, workflows } = useAppStore(useShallow(state => ({
+        startEditing: state.startEditing,
+        toggleSelection: state.toggleSelection,
+        openImageGallery: state.openImageGallery,
+        workflows: state.workflows,
+    })));
+    const coverUrl = getCoverThumbnailUrl(mini);
+
+    return (
+        <tr 
+            data-index={index}
+            data-id={mini._id}
+            aria-rowindex={index + 2}
+            style={{ height }}
+            className={`border-b border-gray-700 transition-colors ${isSelected ? 'bg-cyan-900/50' : 'bg-gray-800/50 hover:bg-gray-700/50'}`}
+        >
+            <td className="w-4 p-4">
+                <div className="flex items-center">
+                    <input 
+                        id={`checkbox-table-search-${mini._id}`} 
+                        type="checkbox" 
+                        className="w-4 h-4 text-cyan-600 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500"
+                        checked={isSelected}
+                        onChange={() => toggleSelection(mini._id)}
+                    />
+                    <label htmlFor={`checkbox-table-search-${mini._id}`} className="sr-only">checkbox</label>
+                </div>
+            </td>
+            <td className="px-2 py-2">
+                <button
+                    onClick={() => openImageGallery(mini)}
+                    className="relative w-10 h-10 flex items-center justify-center rounded-md overflow-hidden bg-gray-700/50 text-gray-500 hover:text-white border border-gray-600 hover:border-cyan-400 transition-colors"
+                    aria-label={`Images of ${mini.modelName}`}
+                >
+                    {coverUrl
+                        ? <img src={coverUrl} alt="" loading="lazy" className="w-full h-full object-cover" />
+                        : <PhotoIcon />}
+                    {(mini.images?.length ?? 0) > 1 && (
+                        <span className="absolute bottom-0 right-0 text-[10px] font-bold bg-black/70 text-white px-1 rounded-tl">{mini.images!.length}</span>
+                    )}
+                </button>
+            </td>
+            <th scope="row" className="px-6 py-4 font-medium text-white">
+                <div className="max-w-xs">
+                    <div className="truncate" title={mini.modelName}>{mini.modelName}</div>
+                    {mini.notes && (
+                        <p className="font-normal text-gray-400 text-xs truncate" title={mini.notes}>
+                            {mini.notes}
+                        </p>
+                    )}
+                </div>
+            </th>
+            <td className="px-6 py-4">{mini.gameSystem}</td>
+            <td className="px-6 py-4">{mini.army}</td>
+            <td className="px-6 py-4">{mini.modelCount}</td>
+            <td className="px-6 py-4">
+                <span className="flex items-center gap-2">
+                    <span style={{ backgroundColor: stageColor(workflows, mini.gameSystem, mini.status) }} className="h-3 w-3 rounded-full"></span>
+                    {mini.status}
+                </span>
+            </td>
+            <td className="px-6 py-4 flex items-center gap-4">
+                <button onClick={() => startEditing(mini)} className="font-medium text-blue-400 hover:text-white transition-colors" aria-label={`Edit ${mini.modelName}`}>
+                    <PencilIcon />
+                </button>
+                <button onClick={() => onDelete(mini._id, mini.modelName)} className="font-medium text-red-400 hover:text-white transition-colors" aria-label={`Delete ${mini.modelName}`}>
+                    <TrashIcon />
+                </button>
+            </td>
+        </tr>
+    );
+});
+
+interface MiniatureListProps {
+    // The loaded part of the list, in order.
+    miniatures: Miniature[];
+}
+
+/**
+ * The collection table. Only the rows in view are rendered, under a sticky header, so
+ * collections of thousands of miniatures scroll smoothly. The row holding keyboard focus stays
+ * rendered when scrolled out, and the arrow keys move focus to the same control of the row
+ * above or below, scrolling it into view.
+ */
+const MiniatureList: React.FC<MiniatureListProps> = ({ miniatures }) => {
+    const { deleteMiniature, toggleSelectAll, filters, searchQuery, sortConfig } = useAppStore(useShallow(state => ({
+        deleteMiniature: state.deleteMiniature,
+        toggleSelectAll: state.toggleSelectAll,
+        filters: state.filters,
+        searchQuery: state.searchQuery,
+        sortConfig: state.sortConfig,
+    })));
+    const selectedIds = useAppStore(selectSelectedIdSet);
+    const isAllSelected = useAppStore(state => selectSelection(state).isAllSelected);
+
+    const [focusedId, setFocusedId] = useState<string | null>(null);
+    const keys = useMemo(() => miniatures.map(m => m._id), [miniatures]);
+    const { containerRef, bodyRef, slots, rowHeight, scrollToIndex, scrollTo } = useVirtualRows({
+        keys,
+        estimatedRowHeight: ROW_HEIGHT,
+        pinnedKey: focusedId,
+    });
+
+    // A new view of the collection starts at its top.
+    const viewRef = useRef({ filters, searchQuery, sortConfig });
+    useLayoutEffect(() => {
+        const view = viewRef.current;
+        if (view.filters === filters && view.searchQuery === searchQuery && view.sortConfig === sortConfig) return;
+        viewRef.current = { filters, searchQuery, sortConfig };
+        scrollTo(0);
+    }, [filters, searchQuery, sortConfig, scrollTo]);
+
+    // Focus moved by the arrow keys to a row that was scrolled out waits for it to render.
+    const pendingFocusRef = useRef<RowFocus | null>(null);
+    const focusRow = ({ index, control }: RowFocus) => {
+        const row = bodyRef.current?.querySelector(`tr[data-index="${index}"]`);
+        if (!row) return false;
+        rowControls(row)[control]?.focus({ preventScroll: true });
+        return true;
+    };
+    useLayoutEffect(() => {
+        if (pendingFocusRef.current && focusRow(pendingFocusRef.current)) {
+            pendingFocusRef.current = null;
         }
+    });
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTableSectionElement>) => {
+        if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+        const row = (e.target as HTMLElement).closest('tr[data-index]');
+        if (!row) return;
+        const control = rowControls(row).indexOf(e.target as HTMLElement);
+        const index = Number(row.getAttribute('data-index')) + (e.key === 'ArrowDown' ? 1 : -1);
+        if (control === -1 || index < 0 || index >= miniatures.length) return;
+        e.preventDefault();
+        scrollToIndex(index);
+        if (!focusRow({ index, control })) {
+            pendingFocusRef.current = { index, control };
+        }
+    };
+
+    const handleFocus = (e: React.FocusEvent<HTMLTableSectionElement>) => {
+        setFocusedId(e.target.closest('tr[data-id]')?.getAttribute('data-id') ?? null);
     };
 
-    if (filteredMiniatures.length === 0) {
+    const handleBlur = (e: React.FocusEvent<HTMLTableSectionElement>) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+            setFocusedId(null);
+        }
+    };
+
+    const handleDelete = useCallback((id: string, name: string) => {
+        if (window.confirm(`Move "${name}" to the trash?`)) {
+            deleteMiniature(id);
+        }
+    }, [deleteMiniature]);
+
+    if (miniatures.length === 0) {
         return <p className="text-center text-gray-500 py-8">No miniatures match the current filters. Add one to get started!</p>;
     }
     
     return (
-        <div className="overflow-x-auto shadow-md rounded-lg">
-            <table className="w-full text-sm text-left text-gray-300">
-                <thead className="bg-gray-700/50">
-                    <tr>
+        <div ref={containerRef} className="overflow-auto max-h-[70vh] shadow-md rounded-lg">
+            <table className="w-full text-sm text-left text-gray-300" aria-rowcount={miniatures.length + 1}>
+                <thead className="sticky top-0 z-10 bg-gray-700">
+                    <tr aria-rowindex={1}>
                         <th scope="col" className="p-4">
                             <div className="flex items-center">
                                 <input 
@@ -68,6 +230,7 @@ const MiniatureList: React.FC = () => {
                                 <label htmlFor="checkbox-all-search" className="sr-only">checkbox</label>
                             </div>
                         </th>
+                        <th scope="col" className="px-2 py-3 text-xs text-cyan-300 uppercase"><span className="sr-only">Cover image</span></th>
                         <SortableHeader title="Model Name" columnKey="modelName" />
                         <SortableHeader title="Game System" columnKey="gameSystem" />
                         <SortableHeader title="Army" columnKey="army" />
@@ -76,54 +239,21 @@ const MiniatureList: React.FC = () => {
                         <th scope="col" className="px-6 py-3 text-xs text-cyan-300 uppercase">Actions</th>
                     </tr>
                 </thead>
-                <tbody>
-                    {filteredMiniatures.map(mini => {
-                        const isSelected = selectedIds.includes(mini._id);
+                <tbody ref={bodyRef} onKeyDown={handleKeyDown} onFocus={handleFocus} onBlur={handleBlur}>
+                    {slots.map(slot => {
+                        if (slot.kind === 'gap') {
+                            return <tr key={slot.key} aria-hidden="true" style={{ height: slot.height }} />;
+                        }
+                        const mini = miniatures[slot.index];
                         return (
-                            <tr 
-                                key={mini._id} 
-                                className={`border-b border-gray-700 transition-colors ${isSelected ? 'bg-cyan-900/50' : 'bg-gray-800/50 hover:bg-gray-700/50'}`}
-                            >
-                                <td className="w-4 p-4">
-                                    <div className="flex items-center">
-                                        <input 
-                                            id={`checkbox-table-search-${mini._id}`} 
-                                            type="checkbox" 
-                                            className="w-4 h-4 text-cyan-600 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500"
-                                            checked={isSelected}
-                                            onChange={() => toggleSelection(mini._id)}
-                                        />
-                                        <label htmlFor={`checkbox-table-search-${mini._id}`} className="sr-only">checkbox</label>
-                                    </div>
-                                </td>
-                                <th scope="row" className="px-6 py-4 font-medium text-white">
-                                    <div className="max-w-xs">
-                                        <div className="truncate" title={mini.modelName}>{mini.modelName}</div>
-                                        {mini.notes && (
-                                            <p className="font-normal text-gray-400 text-xs truncate" title={mini.notes}>
-                                                {mini.notes}
-                                            </p>
-                                        )}
-                                    </div>
-                                </th>
-                                <td className="px-6 py-4">{mini.gameSystem}</td>
-                                <td className="px-6 py-4">{mini.army}</td>
-                                <td className="px-6 py-4">{mini.modelCount}</td>
-                                <td className="px-6 py-4">
-                                    <span className="flex items-center gap-2">
-                                        <span style={{ backgroundColor: STATUS_COLORS[mini.status] }} className="h-3 w-3 rounded-full"></span>
-                                        {mini.status}
-                                    </span>
-                                </td>
-                                <td className="px-6 py-4 flex items-center gap-4">
-                                    <button onClick={() => startEditing(mini)} className="font-medium text-blue-400 hover:text-white transition-colors" aria-label={`Edit ${mini.modelName}`}>
-                                        <PencilIcon />
-                                    </button>
-                                    <button onClick={() => handleDelete(mini._id, mini.modelName)} className="font-medium text-red-400 hover:text-white transition-colors" aria-label={`Delete ${mini.modelName}`}>
-                                        <TrashIcon />
-                                    </button>
-                                </td>
-                            </tr>
+                            <MiniatureRow
+                                key={mini._id}
+                                mini={mini}
+                                index={slot.index}
+                                isSelected={selectedIds.has(mini._id)}
+                                height={rowHeight}
+                                onDelete={handleDelete}
+                            />
                         );
                     })}
                 </tbody>
@@ -132,4 +262,4 @@ const MiniatureList: React.FC = () => {
     );
 };
 
-export default MiniatureList;
\ No newline at end of file
+export default MiniatureList;
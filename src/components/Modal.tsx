@@ -8,9 +8,11 @@ interface ModalProps {
     children: React.ReactNode;
     title: string;
     theme: Theme;
+    // Tailwind max-width class for the dialog; defaults to a narrow form-sized modal.
+    maxWidthClass?: string;
 }
 
-const Modal: React.FC<ModalProps> = ({ onClose, children, title, theme }) => {
+const Modal: React.FC<ModalProps> = ({ onClose, children, title, theme, maxWidthClass = 'max-w-lg' }) => {
     
     useEffect(() => {
         const handleEsc = (event: KeyboardEvent) => {
@@ -34,7 +36,7 @@ const Modal: React.FC<ModalProps> = ({ onClose, children, title, theme }) => {
             aria-labelledby="modal-title"
         >
             <div 
-                className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-lg overflow-hidden border border-gray-700 animate-fade-in"
+                className={`bg-gray-800 rounded-lg shadow-2xl w-full ${maxWidthClass} overflow-hidden border border-gray-700 animate-fade-in`}
                 onClick={(e) => e.stopPropagation()}
             >
                 <div className={`flex justify-between items-center p-4 border-b border-gray-700`}>
@@ -0,0 +1,144 @@
+/**
+ * @file src/components/NameManagerRow.tsx
+ * This component shows one named grouping of miniatures (a game system or an army) with
+ * inline controls to rename it, merge it into another, or delete it while moving its
+ * miniatures elsewhere.
+ */
+
+import React, { useState } from 'react';
+import { Theme } from '../themes';
+import { PencilIcon, TrashIcon } from './Icons';
+
+type RowMode = 'view' | 'rename' | 'merge' | 'delete';
+
+// Something the row's miniatures can be moved to; `value` is what the callbacks receive.
+export interface NameTarget {
+    value: string;
+    label: string;
+}
+
+interface NameManagerRowProps {
+    name: string;
+    miniatureCount: number;
+    targets: NameTarget[];
+    // What is being managed, for labels and confirmations, e.g. "system" or "army".
+    noun: string;
+    theme: Theme;
+    onRename: (newName: string) => Promise<boolean>;
+    onMerge: (target: string) => Promise<boolean>;
+    onDelete: (reassignTo?: string) => Promise<boolean>;
+}
+
+const inputClassName = 'bg-gray-700 border border-gray-600 rounded-md shadow-sm py-1 px-2 text-sm focus:outline-none focus:ring-2';
+const smallButtonClassName = 'px-3 py-1 text-sm font-semibold rounded-md shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * One entry in a list of names, with inline rename, merge and delete controls.
+ * @param {NameManagerRowProps} props The component's properties.
+ * @returns {JSX.Element} The rendered list item.
+ */
+const NameManagerRow: React.FC<NameManagerRowProps> = ({ name, miniatureCount, targets, noun, theme, onRename, onMerge, onDelete }) => {
+    const [mode, setMode] = useState<RowMode>('view');
+    const [newName, setNewName] = useState(name);
+    const [target, setTarget] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const targetLabel = targets.find(t => t.value === target)?.label || target;
+
+    const startMode = (next: RowMode) => {
+        setNewName(name);
+        setTarget('');
+        setMode(next);
+    };
+
+    const run = async (action: () => Promise<boolean>) => {
+        setIsSaving(true);
+        const success = await action();
+        setIsSaving(false);
+        if (success) setMode('view');
+    };
+
+    const handleRename = (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = newName.trim();
+        if (!trimmed || trimmed === name) {
+            setMode('view');
+            return;
+        }
+        run(() => onRename(trimmed));
+    };
+
+    const handleMerge = () => {
+        if (!target) return;
+        if (!window.confirm(`Move all ${miniatureCount} miniatures from "${name}" to "${targetLabel}" and remove "${name}"?`)) return;
+        run(() => onMerge(target));
+    };
+
+    const handleDelete = () => {
+        if (miniatureCount > 0 && !target) return;
+        const message = miniatureCount > 0
+            ? `Delete "${name}" and move its ${miniatureCount} miniatures to "${targetLabel}"?`
+            : `Delete "${name}"?`;
+        if (!window.confirm(message)) return;
+        run(() => onDelete(miniatureCount > 0 ? target : undefined));
+    };
+
+    const targetSelect = (
+        <select value={target} onChange={(e) => setTarget(e.target.value)} className={`${inputClassName} ${theme.accentRing}`} aria-label={`Target ${noun}`}>
+            <option value="">Choose {/^[aeiou]/i.test(noun) ? 'an' : 'a'} {noun}...</option>
+            {targets.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+        </select>
+    );
+    const cancelButton = (
+        <button type="button" onClick={() => setMode('view')} disabled={isSaving} className={`${smallButtonClassName} bg-gray-600 hover:bg-gray-500 text-white`}>Cancel</button>
+    );
+
+    return (
+        <li className="bg-gray-700/50 p-3 rounded-md text-gray-200">
+            {mode === 'rename' ? (
+                <form onSubmit={handleRename} className="flex flex-wrap items-center gap-2">
+                    <input type="text" value={newName} onChange={(e) => setNewName(e.target.value)} autoFocus required className={`flex-grow ${inputClassName} ${theme.accentRing}`} aria-label="New name" />
+                    <button type="submit" disabled={isSaving || !newName.trim()} className={`${smallButtonClassName} ${theme.button} text-white`}>{isSaving ? 'Saving...' : 'Save'}</button>
+                    {cancelButton}
+                </form>
+            ) : (
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span>
+                        {name} <span className="text-sm text-gray-400">({miniatureCount} miniature{miniatureCount === 1 ? '' : 's'})</span>
+                    </span>
+                    {mode === 'view' && (
+                        <span className="flex items-center gap-1">
+                            <button onClick={() => startMode('rename')} className="p-1 text-gray-400 hover:text-white transition-colors" aria-label={`Rename ${name}`} title="Rename"><PencilIcon /></button>
+                            <button onClick={() => startMode('merge')} disabled={targets.length === 0} className="px-2 py-1 text-sm text-gray-400 hover:text-white transition-colors disabled:opacity-50" title={`Merge into another ${noun}`}>Merge</button>
+                            <button onClick={() => startMode('delete')} className="p-1 text-gray-400 hover:text-red-400 transition-colors" aria-label={`Delete ${name}`} title="Delete"><TrashIcon /></button>
+                        </span>
+                    )}
+                </div>
+            )}
+            {mode === 'merge' && (
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+                    <span className="text-gray-400">Merge into</span>
+                    {targetSelect}
+                    <button onClick={handleMerge} disabled={isSaving || !target} className={`${smallButtonClassName} ${theme.button} text-white`}>{isSaving ? 'Merging...' : 'Merge'}</button>
+                    {cancelButton}
+                </div>
+            )}
+            {mode === 'delete' && (
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+                    {miniatureCount > 0 ? (
+                        <>
+                            <span className="text-gray-400">Move its {miniatureCount} miniatures to</span>
+                            {targetSelect}
+                        </>
+                    ) : (
+                        <span className="text-gray-400">No miniatures use this {noun}.</span>
+                    )}
+                    <button onClick={handleDelete} disabled={isSaving || (miniatureCount > 0 && !target)} className={`${smallButtonClassName} bg-red-700 hover:bg-red-600 text-white`}>{isSaving ? 'Deleting...' : 'Delete'}</button>
+                    {cancelButton}
+                </div>
+            )}
+        </li>
+    );
+};
+
+export default NameManagerRow;
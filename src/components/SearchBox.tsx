@@ -0,0 +1,150 @@
+/**
+ * @file src/components/SearchBox.tsx
+ * This component is the collection search box in the header. It takes the search query
+ * language of utils/searchQuery.ts, suggests field names and known values as you type, and
+ * shows what it cannot read under the box.
+ */
+
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useAppStore } from '../store';
+import { combinedStages } from '../utils/workflows';
+import { parseSearch, searchCompletions, SearchCompletion } from '../utils/searchQuery';
+import { SearchIcon } from './Icons';
+
+const SearchBox: React.FC = () => {
+    const { searchQuery, setSearchQuery, gameSystems, armies, workflows } = useAppStore(useShallow(state => ({
+        searchQuery: state.searchQuery,
+        setSearchQuery: state.setSearchQuery,
+        gameSystems: state.gameSystems,
+        armies: state.armies,
+        workflows: state.workflows,
+    })));
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [caret, setCaret] = useState(0);
+    const [isOpen, setIsOpen] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(0);
+    // Where to put the caret once an accepted suggestion is in the box.
+    const pendingCaretRef = useRef<number | null>(null);
+
+    const sources = useMemo(() => ({
+        gameSystems,
+        armies: [...new Set(armies.map(army => army.name))].sort(),
+        statuses: combinedStages(workflows, gameSystems).map(stage => stage.name),
+    }), [gameSystems, armies, workflows]);
+
+    const { errors } = useMemo(() => parseSearch(searchQuery), [searchQuery]);
+    const completion: SearchCompletion | null = useMemo(
+        () => (isOpen ? searchCompletions(searchQuery, caret, sources) : null),
+        [isOpen, searchQuery, caret, sources]
+    );
+    const active = completion ? Math.min(activeIndex, completion.options.length - 1) : -1;
+
+    useLayoutEffect(() => {
+        if (pendingCaretRef.current === null || !inputRef.current) return;
+        inputRef.current.setSelectionRange(pendingCaretRef.current, pendingCaretRef.current);
+        pendingCaretRef.current = null;
+    }, [searchQuery]);
+
+    const moveCaret = (e: React.SyntheticEvent<HTMLInputElement>) => {
+        setCaret(e.currentTarget.selectionStart ?? e.currentTarget.value.length);
+    };
+
+    const accept = (index: number) => {
+        if (!completion) return;
+        const { from, to } = completion;
+        let { text } = completion.options[index];
+        // Don't double the space when the term is already followed by one.
+        if (text.endsWith(' ') && /^\s/.test(searchQuery.slice(to))) text = text.trimEnd();
+        const next = searchQuery.slice(0, from) + text + searchQuery.slice(to);
+        pendingCaretRef.current = from + text.length;
+        setCaret(from + text.length);
+        setActiveIndex(0);
+        setSearchQuery(next);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!completion) return;
+        const count = completion.options.length;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex((active + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+        } else if (e.key === 'Enter' || (e.key === 'Tab' && !e.shiftKey)) {
+            e.preventDefault();
+            accept(active);
+        } else if (e.key === 'Escape') {
+            // Close the suggestions without the browser also clearing the search.
+            e.preventDefault();
+            setIsOpen(false);
+        }
+    };
+
+    return (
+        <div className="relative w-full max-w-xs">
+            <span className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                <SearchIcon />
+            </span>
+            <input
+                ref={inputRef}
+                type="search"
+                placeholder='Search, e.g. army:"Blood Angels" count:>5'
+                value={searchQuery}
+                onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    moveCaret(e);
+                    setActiveIndex(0);
+                    setIsOpen(true);
+                }}
+                onSelect={moveCaret}
+                onKeyDown={handleKeyDown}
+                onFocus={() => setIsOpen(true)}
+                onBlur={() => setIsOpen(false)}
+                role="combobox"
+                aria-autocomplete="list"
+                aria-expanded={!!completion}
+                aria-controls="search-suggestions"
+                aria-activedescendant={completion ? `search-suggestion-${active}` : undefined}
+                aria-invalid={errors.length > 0}
+                aria-describedby={errors.length > 0 ? 'search-errors' : undefined}
+                className={`w-full pl-10 pr-4 py-2 bg-gray-700/50 border rounded-lg focus:outline-none focus:ring-2 transition-colors ${
+                    errors.length > 0 ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-cyan-500'
+                }`}
+                aria-label="Search collection"
+            />
+            {isOpen && (completion || errors.length > 0) && (
+                <div className="absolute left-0 right-0 mt-1 bg-gray-800 border border-gray-700 rounded-md shadow-lg text-sm overflow-hidden">
+                    {completion && (
+                        <ul id="search-suggestions" role="listbox" className="py-1">
+                            {completion.options.map((option, index) => (
+                                <li
+                                    key={option.label}
+                                    id={`search-suggestion-${index}`}
+                                    role="option"
+                                    aria-selected={index === active}
+                                    // Keep focus in the box while a suggestion is clicked.
+                                    onMouseDown={(e) => e.preventDefault()}
+                                    onClick={() => accept(index)}
+                                    className={`px-3 py-1 cursor-pointer truncate ${index === active ? 'bg-cyan-500/20 text-cyan-300' : 'text-gray-300 hover:bg-gray-700'}`}
+                                >
+                                    {option.label}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {errors.length > 0 && (
+                        <ul id="search-errors" className={`px-3 py-2 space-y-1 text-red-400 ${completion ? 'border-t border-gray-700' : ''}`}>
+                            {errors.map(error => (
+                                <li key={`${error.start}-${error.message}`}>
+                                    <span className="font-mono text-red-300">{searchQuery.slice(error.start, error.end)}</span>
+                                    {' '}{error.message}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SearchBox;
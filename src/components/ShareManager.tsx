@@ -0,0 +1,162 @@
+/**
+ * @file src/components/ShareManager.tsx
+ * This component manages the public showcase links on the settings page: creating a read-only
+ * link to the whole collection, one game system or one army, copying it, and revoking it.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useAppStore } from '../store';
+import { selectActiveTheme } from '../selectors';
+import { Share } from '../types';
+import { Theme } from '../themes';
+import { armiesForSystem } from '../utils/armies';
+import { showcaseLabel, showcaseUrl } from '../utils/routing';
+
+// Select value for "the whole collection".
+const ALL = '';
+
+interface ShareRowProps {
+    share: Share;
+    theme: Theme;
+}
+
+/**
+ * One shared link, with buttons to copy and revoke it.
+ * @param {ShareRowProps} props The component's properties.
+ * @returns {JSX.Element} The rendered list item.
+ */
+const ShareRow: React.FC<ShareRowProps> = ({ share, theme }) => {
+    const revokeShare = useAppStore(state => state.revokeShare);
+    const [copied, setCopied] = useState(false);
+    const url = showcaseUrl(share.token);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(url);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.error('Failed to copy link:', error);
+            alert('Could not copy the link. Select it and copy it by hand.');
+        }
+    };
+
+    const handleRevoke = () => {
+        if (!window.confirm(`Revoke the link to "${showcaseLabel(share)}"? Anyone using it will lose access.`)) return;
+        revokeShare(share._id);
+    };
+
+    return (
+        <li className="bg-gray-700/50 p-3 rounded-md text-gray-200">
+            <p className="mb-2">
+                {showcaseLabel(share)}
+                <span className="text-sm text-gray-400"> · created {new Date(share.createdAt).toLocaleDateString()}</span>
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2 text-sm">
+                <input
+                    type="text"
+                    value={url}
+                    readOnly
+                    onFocus={(e) => e.target.select()}
+                    aria-label="Shared link"
+                    className={`flex-grow bg-gray-800 border border-gray-600 rounded-md py-1 px-2 text-gray-300 focus:outline-none focus:ring-2 ${theme.accentRing}`}
+                />
+                <button
+                    onClick={handleCopy}
+                    className={`px-3 py-1 font-semibold rounded-md shadow-md transition-colors ${theme.button} text-white`}
+                >
+                    {copied ? 'Copied!' : 'Copy'}
+                </button>
+                <button
+                    onClick={handleRevoke}
+                    className="px-3 py-1 font-semibold rounded-md shadow-md transition-colors bg-red-700 hover:bg-red-600 text-white"
+                >
+                    Revoke
+                </button>
+            </div>
+        </li>
+    );
+};
+
+/**
+ * The shared links section of the settings page.
+ * @returns {JSX.Element} The rendered section.
+ */
+const ShareManager: React.FC = () => {
+    const { gameSystems, armies, shares, fetchShares, createShare } = useAppStore();
+    const activeTheme = useAppStore(selectActiveTheme);
+    const [gameSystem, setGameSystem] = useState(ALL);
+    const [army, setArmy] = useState(ALL);
+    const [isCreating, setIsCreating] = useState(false);
+
+    useEffect(() => {
+        fetchShares();
+    }, [fetchShares]);
+
+    // The picked system or army can disappear through a rename or delete; fall back to "all".
+    const selectedSystem = gameSystems.includes(gameSystem) ? gameSystem : ALL;
+    const systemArmies = useMemo(() => (selectedSystem ? armiesForSystem(armies, selectedSystem) : []), [armies, selectedSystem]);
+    const selectedArmy = systemArmies.some(a => a.name === army) ? army : ALL;
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (isCreating) return;
+        setIsCreating(true);
+        await createShare(selectedSystem || null, selectedArmy || null);
+        setIsCreating(false);
+    };
+
+    const selectClassName = `mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing}`;
+
+    return (
+        <div className="bg-gray-900/50 p-6 rounded-lg shadow-inner mt-8">
+            <h3 className={`text-xl font-semibold ${activeTheme.secondaryText} mb-4`}>Shared Links</h3>
+            <p className="text-gray-400 mb-6">
+                A shared link shows part of your collection to anyone who has it, without logging in. Visitors see the dashboard and photos but not your notes, and cannot change anything.
+            </p>
+
+            <form onSubmit={handleCreate} className="flex flex-col sm:flex-row sm:items-end gap-4 mb-6">
+                <label className="flex-1 text-sm text-gray-300">
+                    Game system
+                    <select
+                        value={selectedSystem}
+                        onChange={(e) => { setGameSystem(e.target.value); setArmy(ALL); }}
+                        className={selectClassName}
+                    >
+                        <option value={ALL}>Whole collection</option>
+                        {gameSystems.map(gs => <option key={gs} value={gs}>{gs}</option>)}
+                    </select>
+                </label>
+                <label className="flex-1 text-sm text-gray-300">
+                    Army
+                    <select
+                        value={selectedArmy}
+                        onChange={(e) => setArmy(e.target.value)}
+                        disabled={!selectedSystem}
+                        className={`${selectClassName} disabled:opacity-50`}
+                    >
+                        <option value={ALL}>All armies</option>
+                        {systemArmies.map(a => <option key={a._id} value={a.name}>{a.name}</option>)}
+                    </select>
+                </label>
+                <button
+                    type="submit"
+                    disabled={isCreating}
+                    className={`px-6 py-2 ${activeTheme.button} text-white font-semibold rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                    {isCreating ? 'Creating...' : 'Create Link'}
+                </button>
+            </form>
+
+            {shares.length === 0 ? (
+                <p className="text-gray-400">No shared links yet.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {shares.map(share => <ShareRow key={share._id} share={share} theme={activeTheme} />)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ShareManager;
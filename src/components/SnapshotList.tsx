@@ -0,0 +1,82 @@
+/**
+ * @file src/components/SnapshotList.tsx
+ * This component lists the collection snapshots the server takes before each import,
+ * and lets the user restore or discard any of them.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useAppStore } from '../store';
+import { Snapshot } from '../types';
+import { TrashIcon } from './Icons';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+/**
+ * A list of restorable collection snapshots, newest first.
+ * @returns {JSX.Element} The rendered list.
+ */
+const SnapshotList: React.FC = () => {
+    const { snapshots, fetchSnapshots, restoreSnapshot, deleteSnapshot } = useAppStore();
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchSnapshots();
+    }, [fetchSnapshots]);
+
+    const handleRestore = async (snapshot: Snapshot) => {
+        if (!window.confirm(`Restore the collection as it was on ${formatDate(snapshot.createdAt)} (${snapshot.itemCount} miniatures)? Your current collection will be saved as a new snapshot first.`)) {
+            return;
+        }
+        setBusyId(snapshot._id);
+        const success = await restoreSnapshot(snapshot._id);
+        setBusyId(null);
+        if (success) {
+            alert(`Restored ${snapshot.itemCount} miniatures.`);
+        }
+    };
+
+    const handleDelete = async (snapshot: Snapshot) => {
+        if (!window.confirm(`Delete the snapshot from ${formatDate(snapshot.createdAt)}? It can no longer be restored afterwards.`)) {
+            return;
+        }
+        setBusyId(snapshot._id);
+        await deleteSnapshot(snapshot._id);
+        setBusyId(null);
+    };
+
+    if (snapshots.length === 0) {
+        return <p className="text-gray-500">No snapshots yet. One is saved automatically before every import.</p>;
+    }
+
+    return (
+        <ul className="divide-y divide-gray-700">
+            {snapshots.map(snapshot => (
+                <li key={snapshot._id} className="flex items-center justify-between gap-4 py-3">
+                    <div>
+                        <p className="text-white">{formatDate(snapshot.createdAt)}</p>
+                        <p className="text-sm text-gray-400">{snapshot.reason} &middot; {snapshot.itemCount} miniature{snapshot.itemCount === 1 ? '' : 's'}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => handleRestore(snapshot)}
+                            disabled={busyId !== null}
+                            className="px-4 py-2 bg-purple-600 hover:bg-purple-500 rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {busyId === snapshot._id ? 'Working...' : 'Restore'}
+                        </button>
+                        <button
+                            onClick={() => handleDelete(snapshot)}
+                            disabled={busyId !== null}
+                            className="p-2 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                            aria-label="Delete snapshot"
+                        >
+                            <TrashIcon />
+                        </button>
+                    </div>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+export default SnapshotList;
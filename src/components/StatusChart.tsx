@@ -1,13 +1,19 @@
 import React, { useMemo } from 'react';
 import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Miniature } from '../types';
-import { STATUS_COLORS } from '../constants';
+import { ModelGroup } from '../types';
+import { useAppStore } from '../store';
+import { combinedStages, Workflows } from '../utils/workflows';
+import { UNKNOWN_STAGE_COLOR } from '../constants';
 
 interface StatusChartProps {
-    data: Miniature[];
+    data: ModelGroup[];
+    // Defaults to the logged-in user's workflows; a shared showcase passes its owner's.
+    workflows?: Workflows;
 }
 
-const StatusChart: React.FC<StatusChartProps> = ({ data }) => {
+const StatusChart: React.FC<StatusChartProps> = ({ data, workflows: workflowsProp }) => {
+    const storeWorkflows = useAppStore(state => state.workflows);
+    const workflows = workflowsProp ?? storeWorkflows;
     const chartData = useMemo(() => {
         const statusCounts: { [key: string]: number } = {};
 
@@ -15,8 +21,17 @@ const StatusChart: React.FC<StatusChartProps> = ({ data }) => {
             statusCounts[miniature.status] = (statusCounts[miniature.status] || 0) + miniature.modelCount;
         });
 
-        return Object.entries(statusCounts).map(([name, value]) => ({ name, value }));
-    }, [data]);
+        // Slices follow the workflow order of the game systems shown, with stage colors;
+        // statuses outside every workflow go last in gray.
+        const stages = combinedStages(workflows, [...new Set(data.map(m => m.gameSystem))]);
+        const ordered = stages
+            .filter(stage => statusCounts[stage.name])
+            .map(stage => ({ name: stage.name, value: statusCounts[stage.name], color: stage.color }));
+        const unknown = Object.entries(statusCounts)
+            .filter(([name]) => !stages.some(stage => stage.name === name))
+            .map(([name, value]) => ({ name, value, color: UNKNOWN_STAGE_COLOR }));
+        return [...ordered, ...unknown];
+    }, [data, workflows]);
 
     if (data.length === 0) {
         return <div className="flex items-center justify-center h-full text-gray-500">No data for chart.</div>;
@@ -46,7 +61,7 @@ const StatusChart: React.FC<StatusChartProps> = ({ data }) => {
                     isAnimationActive={true}
                 >
                     {chartData.map((entry) => (
-                        <Cell key={`cell-${entry.name}`} fill={STATUS_COLORS[entry.name as keyof typeof STATUS_COLORS]} />
+                        <Cell key={`cell-${entry.name}`} fill={entry.color} />
                     ))}
                 </Pie>
             </PieChart>
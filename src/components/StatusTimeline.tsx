@@ -0,0 +1,62 @@
+/**
+ * @file src/components/StatusTimeline.tsx
+ * This component renders the recorded status transitions of a single miniature
+ * as a vertical timeline, newest first.
+ */
+
+import React from 'react';
+import { StatusChange } from '../types';
+import { Theme } from '../themes';
+import { useAppStore } from '../store';
+import { stageColor } from '../utils/workflows';
+
+interface StatusTimelineProps {
+    history: StatusChange[];
+    // The miniature's game system, whose workflow colors the entries.
+    gameSystem: string;
+    theme: Theme;
+}
+
+const formatTimestamp = (timestamp: string): string => {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+};
+
+/**
+ * A timeline of status changes for the edit view.
+ * @param {StatusTimelineProps} props The component's properties.
+ * @returns {JSX.Element} The rendered timeline.
+ */
+const StatusTimeline: React.FC<StatusTimelineProps> = ({ history, gameSystem, theme }) => {
+    const workflows = useAppStore(state => state.workflows);
+
+    if (history.length === 0) {
+        return <p className="text-sm text-gray-500">No status changes have been recorded for this miniature yet.</p>;
+    }
+
+    // The server stores entries oldest first; show the most recent change at the top.
+    const entries = [...history].reverse();
+
+    return (
+        <div>
+            <h4 className={`text-lg font-semibold ${theme.secondaryText} mb-3`}>Status History</h4>
+            <ol className="relative border-l border-gray-600 ml-2 space-y-4 max-h-64 overflow-y-auto pr-2">
+                {entries.map((change, index) => (
+                    <li key={`${change.changedAt}-${index}`} className="ml-4">
+                        <span
+                            className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-gray-800"
+                            style={{ backgroundColor: stageColor(workflows, gameSystem, change.to) }}
+                        ></span>
+                        <time className="block text-xs text-gray-400">{formatTimestamp(change.changedAt)}</time>
+                        <p className="text-sm text-gray-200">
+                            {change.from ? <>{change.from} &rarr; <strong>{change.to}</strong></> : <>Added as <strong>{change.to}</strong></>}
+                        </p>
+                        {change.note && <p className="text-sm text-gray-400 italic">{change.note}</p>}
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default StatusTimeline;
@@ -0,0 +1,196 @@
+/**
+ * @file src/components/WorkflowEditor.tsx
+ * This component edits the status workflow of a game system: the ordered list of stages a
+ * miniature moves through, each with a color and a flag saying whether it counts as painted.
+ * Renamed stages are carried over to the miniatures at them when the workflow is saved.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useAppStore } from '../store';
+import { selectActiveTheme } from '../selectors';
+import { ModelGroup, Status, WorkflowStage } from '../types';
+import { DEFAULT_STAGES } from '../constants';
+import { stagesFor } from '../utils/workflows';
+import { TrashIcon } from './Icons';
+
+// A stage being edited. `originalName` is the saved name, or null for a stage added here.
+interface EditableStage extends WorkflowStage {
+    key: number;
+    originalName: string | null;
+}
+
+let nextKey = 0;
+const toEditable = (stages: WorkflowStage[], keepNames: boolean): EditableStage[] =>
+    stages.map(stage => ({ ...stage, key: nextKey++, originalName: keepNames ? stage.name : null }));
+
+const inputClassName = 'bg-gray-700 border border-gray-600 rounded-md shadow-sm py-1 px-2 text-sm focus:outline-none focus:ring-2';
+const iconButtonClassName = 'px-2 py-1 text-gray-400 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+interface WorkflowEditorProps {
+    // The collection counted by status, for the stages that are in use.
+    groups: ModelGroup[];
+}
+
+/**
+ * The workflow section of the settings page.
+ * @param {WorkflowEditorProps} props The component's properties.
+ * @returns {JSX.Element} The rendered editor.
+ */
+const WorkflowEditor: React.FC<WorkflowEditorProps> = ({ groups }) => {
+    const { gameSystems, workflows, updateWorkflow } = useAppStore();
+    const activeTheme = useAppStore(selectActiveTheme);
+    const [selectedSystem, setSelectedSystem] = useState(gameSystems[0] || '');
+    const gameSystem = gameSystems.includes(selectedSystem) ? selectedSystem : gameSystems[0] || '';
+    const savedStages = stagesFor(workflows, gameSystem);
+
+    const [stages, setStages] = useState<EditableStage[]>(() => toEditable(savedStages, true));
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Start over from the saved workflow whenever another system is picked or it is saved.
+    useEffect(() => {
+        setStages(toEditable(savedStages, true));
+    }, [savedStages]);
+
+    // How many miniatures of this system are at each saved stage; those stages cannot be removed.
+    const usage = useMemo(() => {
+        const counts = new Map<Status, number>();
+        groups.forEach(g => {
+            if (g.gameSystem === gameSystem) counts.set(g.status, (counts.get(g.status) || 0) + g.miniatureCount);
+        });
+        return counts;
+    }, [groups, gameSystem]);
+
+    const trimmedNames = stages.map(stage => stage.name.trim().toLowerCase());
+    const hasDuplicates = new Set(trimmedNames).size !== trimmedNames.length;
+    const hasEmptyName = trimmedNames.some(name => name === '');
+    const canSave = stages.length > 0 && !hasDuplicates && !hasEmptyName && !isSaving;
+
+    const updateStage = (key: number, changes: Partial<WorkflowStage>) =>
+        setStages(prev => prev.map(stage => (stage.key === key ? { ...stage, ...changes } : stage)));
+
+    const moveStage = (index: number, offset: number) => setStages(prev => {
+        const next = [...prev];
+        const [moved] = next.splice(index, 1);
+        next.splice(index + offset, 0, moved);
+        return next;
+    });
+
+    const addStage = () => setStages(prev => [
+        ...prev,
+        { key: nextKey++, originalName: null, name: '', color: '#6b7280', countsAsPainted: false },
+    ]);
+
+    // The default stages replace the current ones by position, so miniatures at e.g. the third
+    // stage stay at the third stage under its default name.
+    const resetToDefault = () => setStages(prev => DEFAULT_STAGES.map((stage, index) => ({
+        ...stage,
+        key: nextKey++,
+        originalName: prev[index]?.originalName ?? null,
+    })));
+
+    const handleSave = async () => {
+        if (!canSave) return;
+        const renames: Record<Status, Status> = {};
+        stages.forEach(stage => {
+            if (stage.originalName !== null && stage.originalName !== stage.name.trim()) {
+                renames[stage.originalName] = stage.name.trim();
+            }
+        });
+        setIsSaving(true);
+        await updateWorkflow(
+            gameSystem,
+            stages.map(({ name, color, countsAsPainted }) => ({ name: name.trim(), color, countsAsPainted })),
+            renames,
+        );
+        setIsSaving(false);
+    };
+
+    return (
+        <div className="bg-gray-900/50 p-6 rounded-lg shadow-inner mt-8">
+            <h3 className={`text-xl font-semibold ${activeTheme.secondaryText} mb-4`}>Status Workflows</h3>
+            <p className="text-gray-400 mb-6">
+                Each game system has its own ordered stages. Renaming a stage moves its miniatures along; a stage can only be removed once no miniatures are at it.
+            </p>
+
+            <label className="block text-sm text-gray-300 mb-4">
+                Game system
+                <select
+                    value={gameSystem}
+                    onChange={(e) => setSelectedSystem(e.target.value)}
+                    className={`mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 ${activeTheme.accentRing}`}
+                >
+                    {gameSystems.map(gs => <option key={gs} value={gs}>{gs}</option>)}
+                </select>
+            </label>
+
+            <ol className="space-y-2 mb-4">
+                {stages.map((stage, index) => {
+                    const inUse = stage.originalName !== null ? usage.get(stage.originalName) || 0 : 0;
+                    return (
+                        <li key={stage.key} className="flex flex-wrap items-center gap-2 bg-gray-700/50 p-2 rounded-md">
+                            <span className="w-6 text-right text-sm text-gray-500">{index + 1}.</span>
+                            <input
+                                type="color"
+                                value={stage.color}
+                                onChange={(e) => updateStage(stage.key, { color: e.target.value })}
+                                className="h-8 w-10 bg-transparent border-0 cursor-pointer"
+                                aria-label={`Color of ${stage.name || 'new stage'}`}
+                            />
+                            <input
+                                type="text"
+                                value={stage.name}
+                                onChange={(e) => updateStage(stage.key, { name: e.target.value })}
+                                placeholder="Stage name"
+                                maxLength={50}
+                                className={`flex-grow ${inputClassName} ${activeTheme.accentRing} ${stage.name.trim() === '' ? 'border-red-500' : ''}`}
+                                aria-label="Stage name"
+                            />
+                            <label className="flex items-center gap-1 text-sm text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={stage.countsAsPainted}
+                                    onChange={(e) => updateStage(stage.key, { countsAsPainted: e.target.checked })}
+                                    className="h-4 w-4 rounded bg-gray-700 border-gray-600 text-cyan-600 focus:ring-cyan-500"
+                                />
+                                Painted
+                            </label>
+                            {inUse > 0 && <span className="text-xs text-gray-400">{inUse} miniature{inUse === 1 ? '' : 's'}</span>}
+                            <span className="flex items-center">
+                                <button type="button" onClick={() => moveStage(index, -1)} disabled={index === 0} className={iconButtonClassName} aria-label="Move up" title="Move up">&uarr;</button>
+                                <button type="button" onClick={() => moveStage(index, 1)} disabled={index === stages.length - 1} className={iconButtonClassName} aria-label="Move down" title="Move down">&darr;</button>
+                                <button
+                                    type="button"
+                                    onClick={() => setStages(prev => prev.filter(s => s.key !== stage.key))}
+                                    disabled={inUse > 0 || stages.length === 1}
+                                    className={`${iconButtonClassName} hover:text-red-400`}
+                                    aria-label={`Remove ${stage.name}`}
+                                    title={inUse > 0 ? 'Move its miniatures to another stage first' : 'Remove'}
+                                >
+                                    <TrashIcon />
+                                </button>
+                            </span>
+                        </li>
+                    );
+                })}
+            </ol>
+            {hasDuplicates && <p className="text-sm text-red-300 mb-4">Each stage needs a different name.</p>}
+
+            <div className="flex flex-wrap justify-between gap-2">
+                <span className="flex gap-2">
+                    <button type="button" onClick={addStage} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-lg shadow-md transition-colors">Add Stage</button>
+                    <button type="button" onClick={resetToDefault} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-lg shadow-md transition-colors">Use Default Stages</button>
+                </span>
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={!canSave}
+                    className={`px-6 py-2 ${activeTheme.button} text-white font-semibold rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                    {isSaving ? 'Saving...' : 'Save Workflow'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default WorkflowEditor;
@@ -1,24 +1,18 @@
-import { GameSystem, Status } from './types';
+import { GameSystem, WorkflowStage } from './types';
 
 export const GAME_SYSTEMS: GameSystem[] = Object.values(GameSystem);
-export const STATUSES: Status[] = Object.values(Status);
 
-export const STATUS_COLORS: Record<Status, string> = {
-    [Status.Purchased]: '#ef4444', // red-500
-    [Status.Printed]: '#f97316', // orange-500
-    [Status.Assembled]: '#eab308', // yellow-500
-    [Status.Primed]: '#84cc16', // lime-500
-    [Status.Painted]: '#22c55e', // green-500
-    [Status.Based]: '#10b981', // emerald-500
-    [Status.ReadyForGame]: '#06b6d4', // cyan-500
-};
+// The workflow of any game system that has not defined its own.
+// Mirrors `DEFAULT_STAGES` in server/workflows.js.
+export const DEFAULT_STAGES: WorkflowStage[] = [
+    { name: 'Purchased', color: '#ef4444', countsAsPainted: false }, // red-500
+    { name: 'Printed', color: '#f97316', countsAsPainted: false }, // orange-500
+    { name: 'Assembled', color: '#eab308', countsAsPainted: false }, // yellow-500
+    { name: 'Primed', color: '#84cc16', countsAsPainted: false }, // lime-500
+    { name: 'Painted', color: '#22c55e', countsAsPainted: true }, // green-500
+    { name: 'Based', color: '#10b981', countsAsPainted: true }, // emerald-500
+    { name: 'Ready for Game', color: '#06b6d4', countsAsPainted: true }, // cyan-500
+];
 
-export const STATUS_PROGRESS: Record<Status, number> = {
-    [Status.Purchased]: 1,
-    [Status.Printed]: 2,
-    [Status.Assembled]: 3,
-    [Status.Primed]: 4,
-    [Status.Painted]: 5,
-    [Status.Based]: 6,
-    [Status.ReadyForGame]: 7,
-};
\ No newline at end of file
+// Used for statuses that are no longer part of their game system's workflow, e.g. in old history entries.
+export const UNKNOWN_STAGE_COLOR = '#6b7280'; // gray-500
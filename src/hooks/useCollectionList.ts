@@ -0,0 +1,49 @@
+import { useEffect, useMemo } from 'react';
+import { useAppStore } from '../store';
+import { Miniature } from '../types';
+import { queryMatcher } from '../utils/miniatureQuery';
+
+// Typing in the search box or army filter waits this long before asking the server, and
+// bursts of edits are reloaded together.
+const RELOAD_DELAY_MS = 250;
+
+/**
+ * Loads the collection list page by page from the server for the current filters, search and
+ * sort, reloading it when they change and refreshing it when the collection does. Returns the
+ * loaded rows with the edits made since patched in: edits show at once, rows edited out of the
+ * view are hidden, and the refresh that follows brings in what moved into or within the pages.
+ */
+export function useCollectionList(): Miniature[] {
+    useEffect(() => {
+        const { loadList, refreshList } = useAppStore.getState();
+        loadList();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const schedule = (reload: () => Promise<void>) => {
+            clearTimeout(timer);
+            timer = setTimeout(reload, RELOAD_DELAY_MS);
+        };
+        const unsubscribe = useAppStore.subscribe((state, previous) => {
+            if (state.filters !== previous.filters || state.searchQuery !== previous.searchQuery
+                || state.sortConfig !== previous.sortConfig) {
+                schedule(loadList);
+            } else if (state.collectionRevision !== previous.collectionRevision || state.workflows !== previous.workflows) {
+                schedule(refreshList);
+            }
+        });
+        return () => {
+            clearTimeout(timer);
+            unsubscribe();
+        };
+    }, []);
+
+    const items = useAppStore(state => state.list.items);
+    const filters = useAppStore(state => state.filters);
+    const searchQuery = useAppStore(state => state.searchQuery);
+    const workflows = useAppStore(state => state.workflows);
+
+    // The store patches saved and deleted miniatures into the rows (see putMiniatures).
+    return useMemo(
+        () => items.filter(queryMatcher({ filters, searchQuery }, workflows)),
+        [items, filters, searchQuery, workflows]
+    );
+}
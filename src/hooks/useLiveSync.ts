@@ -0,0 +1,63 @@
+import { useEffect } from 'react';
+import { CLIENT_ID, useAppStore } from '../store';
+import { LiveEvent } from '../types';
+
+const EVENT_TYPES: LiveEvent['type'][] = [
+    'miniatures-saved',
+    'miniatures-deleted',
+    'trash-changed',
+    'gamesystems-changed',
+    'armies-changed',
+    'resync',
+];
+
+// Waits between reconnection attempts, growing while the server stays unreachable.
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+/**
+ * Subscribes to the server's live change feed so edits made in other tabs and browsers show
+ * up without a reload. Dropped connections are retried with a growing delay, and anything
+ * missed while disconnected is caught up by a full resync once the stream is back. Nothing is
+ * opened while logged out.
+ */
+export function useLiveSync() {
+    const authToken = useAppStore(state => state.authToken);
+
+    useEffect(() => {
+        if (!authToken) return;
+        let source: EventSource | null = null;
+        let retryTimer: number | undefined;
+        let attempt = 0;
+        let missedEvents = false;
+
+        const connect = () => {
+            // EventSource cannot send headers; the server sets a session cookie for this path instead.
+            source = new EventSource(`/api/events?clientId=${encodeURIComponent(CLIENT_ID)}`);
+            source.onopen = () => {
+                attempt = 0;
+                if (missedEvents) {
+                    missedEvents = false;
+                    useAppStore.getState().resync();
+                }
+            };
+            // EventSource retries some failures itself but gives up on others (e.g. a 503 while
+            // the database is down), so reconnection is always handled here instead.
+            source.onerror = () => {
+                source?.close();
+                missedEvents = true;
+                retryTimer = window.setTimeout(connect, RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)]);
+                attempt++;
+            };
+            EVENT_TYPES.forEach(type => source!.addEventListener(type, (e) => {
+                const data = JSON.parse((e as MessageEvent).data);
+                useAppStore.getState().applyLiveEvent({ ...data, type });
+            }));
+        };
+
+        connect();
+        return () => {
+            window.clearTimeout(retryTimer);
+            source?.close();
+        };
+    }, [authToken]);
+}
@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { useAppStore } from '../store';
+import { Filter, ModelGroup } from '../types';
+import { isServerUnreachable } from '../utils/api';
+import { DEFAULT_SORT } from '../utils/routing';
+import { queryMiniatures, queryParams, summarizeMiniatures } from '../utils/miniatureQuery';
+
+// Bursts of edits, and typing in the search box, are counted again together after this long.
+const RELOAD_DELAY_MS = 250;
+
+// The part of the view that decides which miniatures are counted.
+interface SummaryView {
+    filters: Filter;
+    searchQuery: string;
+}
+
+/**
+ * Counts the miniatures of a view on the server (see `GET /api/miniatures/summary`), or of the
+ * whole collection without one, and counts them again when the view or the collection
+ * changes. Without the server, the collection stored on this device is counted instead. Null until
+ * the first count arrives.
+ */
+export function useMiniatureSummary(view?: SummaryView): ModelGroup[] | null {
+    const collectionRevision = useAppStore(state => state.collectionRevision);
+    const workflows = useAppStore(state => state.workflows);
+    const [summary, setSummary] = useState<ModelGroup[] | null>(null);
+    // The first count is asked for at once, later ones after a pause.
+    const hasLoadedRef = useRef(false);
+    const filters = view?.filters;
+    const searchQuery = view?.searchQuery;
+
+    useEffect(() => {
+        let isCurrent = true;
+        const query = filters && searchQuery !== undefined ? { filters, searchQuery, sortConfig: DEFAULT_SORT } : null;
+        const load = async () => {
+            try {
+                const response = await axios.get('/api/miniatures/summary', { params: query ? queryParams(query) : undefined });
+                if (!isCurrent) return;
+                hasLoadedRef.current = true;
+                setSummary(response.data);
+            } catch (error) {
+                if (!isCurrent) return;
+                if (isServerUnreachable(error)) {
+                    const miniatures = await useAppStore.getState().readOfflineCollection();
+                    if (!isCurrent) return;
+                    hasLoadedRef.current = true;
+                    setSummary(summarizeMiniatures(query ? queryMiniatures(miniatures, query, workflows) : miniatures));
+                    return;
+                }
+                console.error("Failed to count the miniatures:", error);
+            }
+        };
+        const timer = setTimeout(load, hasLoadedRef.current ? RELOAD_DELAY_MS : 0);
+        return () => {
+            isCurrent = false;
+            clearTimeout(timer);
+        };
+    }, [filters, searchQuery, collectionRevision, workflows]);
+
+    return summary;
+}
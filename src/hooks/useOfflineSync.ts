@@ -0,0 +1,47 @@
+import { useEffect } from 'react';
+import { useAppStore } from '../store';
+import { writePendingOperations } from '../utils/offlineCache';
+
+// How often to check whether the server is back while offline.
+const RECONNECT_INTERVAL_MS = 15 * 1000;
+// Bursts of changes are cached together after this long.
+const CACHE_DELAY_MS = 5 * 1000;
+
+/**
+ * Keeps the IndexedDB copy of the collection and of the queued offline edits up to date, and
+ * sends the queued edits once the server can be reached again.
+ */
+export function useOfflineSync() {
+    useEffect(() => {
+        let cacheTimer: number | undefined;
+        const unsubscribe = useAppStore.subscribe((state, previous) => {
+            // Logging out empties the state; what is stored stays with the user it belongs to.
+            const user = state.currentUser;
+            if (!user || user !== previous.currentUser) return;
+            if (state.pendingOperations !== previous.pendingOperations) {
+                writePendingOperations(user._id, state.pendingOperations).catch(error => console.error('Failed to save offline changes:', error));
+            }
+            // The loaded miniatures are only pages of the collection, so the store fetches it
+            // whole to cache it once it has loaded, resynced or changed.
+            if (state.isLoading || state.error || state.isOffline) return;
+            if (previous.isLoading || state.collectionRevision !== previous.collectionRevision || state.gameSystems !== previous.gameSystems
+                || state.workflows !== previous.workflows || state.armies !== previous.armies) {
+                window.clearTimeout(cacheTimer);
+                cacheTimer = window.setTimeout(() => useAppStore.getState().cacheCollection(), CACHE_DELAY_MS);
+            }
+        });
+
+        const reconnect = () => {
+            if (useAppStore.getState().isOffline) useAppStore.getState().resync();
+        };
+        window.addEventListener('online', reconnect);
+        const interval = window.setInterval(reconnect, RECONNECT_INTERVAL_MS);
+
+        return () => {
+            unsubscribe();
+            window.clearTimeout(cacheTimer);
+            window.removeEventListener('online', reconnect);
+            window.clearInterval(interval);
+        };
+    }, []);
+}
@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { useAppStore } from '../store';
+
+// Text fields keep their own undo, so shortcuts typed into them are left alone.
+const isEditingText = (target: EventTarget | null) =>
+    target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Binds Ctrl+Z (Cmd+Z on macOS) to undo and Ctrl+Shift+Z or Ctrl+Y to redo.
+ */
+export function useUndoShortcuts() {
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditingText(e.target)) return;
+            const key = e.key.toLowerCase();
+            const { undo, redo } = useAppStore.getState();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey)) {
+                e.preventDefault();
+                redo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+}
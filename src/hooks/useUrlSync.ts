@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { useAppStore } from '../store';
+import { RouteState, buildRoute, parseRoute } from '../utils/routing';
+
+const selectRoute = ({ page, filters, searchQuery, sortConfig }: RouteState): RouteState =>
+    ({ page, filters, searchQuery, sortConfig });
+
+const currentUrl = () => `${window.location.pathname}${window.location.search}`;
+
+/**
+ * Keeps the browser URL and the store's page, filters, search and sort in step, so views
+ * survive a refresh, can be shared as links, and work with back/forward.
+ */
+export function useUrlSync() {
+    useEffect(() => {
+        const applyLocation = () => {
+            useAppStore.getState().applyRoute(parseRoute(window.location.pathname, window.location.search));
+        };
+
+        applyLocation();
+        // Rewrite hand-edited or legacy URLs into their canonical form.
+        window.history.replaceState(null, '', buildRoute(selectRoute(useAppStore.getState())));
+
+        const unsubscribe = useAppStore.subscribe((state, previous) => {
+            const url = buildRoute(selectRoute(state));
+            if (url === currentUrl()) return;
+            // The search box and army filter are typed into, which would otherwise add a
+            // history entry per keystroke; those edits replace the current entry instead.
+            const onlyTextChanged = state.page === previous.page
+                && state.filters.gameSystem === previous.filters.gameSystem
+                && state.filters.status === previous.filters.status
+                && state.sortConfig === previous.sortConfig;
+            if (onlyTextChanged) {
+                window.history.replaceState(null, '', url);
+            } else {
+                window.history.pushState(null, '', url);
+            }
+        });
+
+        window.addEventListener('popstate', applyLocation);
+        return () => {
+            unsubscribe();
+            window.removeEventListener('popstate', applyLocation);
+        };
+    }, []);
+}
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+// Rows rendered above and below the visible ones, so short scrolls and keyboard moves land
+// on rows that are already there.
+const OVERSCAN = 8;
+
+// What the table renders in order: a row of the list, or an empty stretch standing in for
+// rows that are scrolled out.
+export type VirtualSlot =
+    | { kind: 'row'; index: number }
+    | { kind: 'gap'; key: string; height: number };
+
+interface VirtualRowsOptions {
+    // The key of each row of the list, in order.
+    keys: string[];
+    // A first guess at the height of a row, used until one is measured.
+    estimatedRowHeight: number;
+    // The key of a row to keep rendered wherever it is scrolled, such as the one holding focus.
+    pinnedKey?: string | null;
+}
+
+interface Viewport {
+    scrollTop: number;
+    height: number;
+}
+
+/**
+ * Windows a long table body inside a scrolling container with a sticky header: only the rows
+ * in view, a few around them and the pinned row are rendered, with gaps standing in for the
+ * rest. Rows are drawn at one height, the tallest measured, so positions follow from indexes.
+ * When the rows change, the row at the top of the view is kept there, so edits and refreshes
+ * above or around it do not move the list under the reader.
+ */
+export function useVirtualRows({ keys, estimatedRowHeight, pinnedKey = null }: VirtualRowsOptions) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const bodyRef = useRef<HTMLTableSectionElement>(null);
+    const [viewport, setViewport] = useState<Viewport>({ scrollTop: 0, height: 0 });
+    const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+    // Height of the sticky header, which covers the top of the scrolled rows.
+    const [headerHeight, setHeaderHeight] = useState(0);
+    // The row at the top of the view and how far it is scrolled past; null at the very top.
+    const anchorRef = useRef<{ key: string; offset: number } | null>(null);
+
+    const recordAnchor = useCallback((scrollTop: number) => {
+        const index = Math.floor(scrollTop / rowHeight);
+        anchorRef.current = scrollTop > 0 && index < keys.length
+            ? { key: keys[index], offset: scrollTop - index * rowHeight }
+            : null;
+    }, [keys, rowHeight]);
+
+    const scrollTo = useCallback((scrollTop: number) => {
+        const container = containerRef.current;
+        if (!container) return;
+        container.scrollTop = scrollTop;
+        recordAnchor(container.scrollTop);
+        setViewport({ scrollTop: container.scrollTop, height: container.clientHeight });
+    }, [recordAnchor]);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const update = () => setViewport({ scrollTop: container.scrollTop, height: container.clientHeight });
+        const handleScroll = () => {
+            recordAnchor(container.scrollTop);
+            update();
+        };
+        update();
+        container.addEventListener('scroll', handleScroll, { passive: true });
+        const observer = new ResizeObserver(update);
+        observer.observe(container);
+        return () => {
+            container.removeEventListener('scroll', handleScroll);
+            observer.disconnect();
+        };
+    }, [recordAnchor]);
+
+    // Rows are as tall as the tallest one rendered so far, so the gaps stay accurate when
+    // text wraps or is zoomed.
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        const body = bodyRef.current;
+        if (!container || !body) return;
+        setHeaderHeight(body.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop);
+        const rows = body.querySelectorAll<HTMLElement>('tr[data-index]');
+        const tallest = Math.max(0, ...Array.from(rows, row => row.getBoundingClientRect().height));
+        if (tallest > rowHeight) setRowHeight(Math.ceil(tallest));
+    });
+
+    // Keep the row at the top of the view in place when rows are added, removed or reordered.
+    const previousKeysRef = useRef(keys);
+    useLayoutEffect(() => {
+        if (previousKeysRef.current === keys) return;
+        previousKeysRef.current = keys;
+        const anchor = anchorRef.current;
+        if (!anchor) return;
+        const index = keys.indexOf(anchor.key);
+        if (index !== -1) {
+            scrollTo(index * rowHeight + anchor.offset);
+        } else if (containerRef.current) {
+            // The row left the list; stay where we are and anchor on the row now there.
+            recordAnchor(containerRef.current.scrollTop);
+        }
+    }, [keys, rowHeight, scrollTo, recordAnchor]);
+
+    /**
+     * Scrolls the least needed to bring a row fully into view below the header.
+     */
+    const scrollToIndex = useCallback((index: number) => {
+        const container = containerRef.current;
+        if (!container) return;
+        const top = index * rowHeight;
+        const visibleHeight = container.clientHeight - headerHeight;
+        if (container.scrollTop > top) {
+            scrollTo(top);
+        } else if (container.scrollTop + visibleHeight < top + rowHeight) {
+            scrollTo(top + rowHeight - visibleHeight);
+        }
+    }, [rowHeight, headerHeight, scrollTo]);
+
+    const slots = useMemo(() => {
+        const first = Math.max(0, Math.floor(viewport.scrollTop / rowHeight) - OVERSCAN);
+        const last = Math.min(keys.length - 1,
+            Math.ceil((viewport.scrollTop + viewport.height - headerHeight) / rowHeight) + OVERSCAN);
+        const indexes: number[] = [];
+        for (let index = first; index <= last; index++) indexes.push(index);
+        const pinned = pinnedKey === null ? -1 : keys.indexOf(pinnedKey);
+        if (pinned !== -1 && (pinned < first || pinned > last)) {
+            indexes.push(pinned);
+            indexes.sort((a, b) => a - b);
+        }
+
+        const result: VirtualSlot[] = [];
+        let next = 0;
+        for (const index of indexes) {
+            if (index > next) result.push({ kind: 'gap', key: `gap-${next}`, height: (index - next) * rowHeight });
+            result.push({ kind: 'row', index });
+            next = index + 1;
+        }
+        if (keys.length > next) result.push({ kind: 'gap', key: `gap-${next}`, height: (keys.length - next) * rowHeight });
+        return result;
+    }, [keys, pinnedKey, viewport, rowHeight, headerHeight]);
+
+    return { containerRef, bodyRef, slots, rowHeight, scrollToIndex, scrollTo };
+}
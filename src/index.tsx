@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import ShowcasePage from './pages/ShowcasePage';
+import { showcaseTokenFromPath } from './utils/routing';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -8,9 +10,12 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Shared showcase links open a read-only page of their own, without the app or a login.
+const showcaseToken = showcaseTokenFromPath(window.location.pathname);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {showcaseToken ? <ShowcasePage token={showcaseToken} /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
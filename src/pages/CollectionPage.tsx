@@ -1,15 +1,17 @@
 import React from 'react';
+import { useShallow } from 'zustand/react/shallow';
 import { useAppStore } from '../store';
+import { selectActiveTheme } from '../selectors';
 import FilterControls from '../components/FilterControls';
 import MiniatureForm from '../components/MiniatureForm';
 import MiniatureList from '../components/MiniatureList';
 import BulkActionBar from '../components/BulkActionBar';
 import BulkEditModal from '../components/BulkEditModal';
 import { PlusCircleIcon } from '../components/Icons';
+import { useCollectionList } from '../hooks/useCollectionList';
 
 const CollectionPage: React.FC = () => {
     const {
-        miniatures,
         filters,
         setFilters,
         isFormVisible,
@@ -18,26 +20,49 @@ const CollectionPage: React.FC = () => {
         addMiniature,
         updateMiniature,
         stopEditing,
-        selectedIds,
+        selectedCount,
         startBulkEditing,
         isBulkEditing,
         stopBulkEditing,
         deleteSelected,
         updateSelected,
         clearSelection,
-        activeTheme
-    } = useAppStore();
+        list,
+        isListLoading,
+        loadMoreList
+    } = useAppStore(useShallow(state => ({
+        filters: state.filters,
+        setFilters: state.setFilters,
+        isFormVisible: state.isFormVisible,
+        editingMiniature: state.editingMiniature,
+        startAdding: state.startAdding,
+        addMiniature: state.addMiniature,
+        updateMiniature: state.updateMiniature,
+        stopEditing: state.stopEditing,
+        selectedCount: state.selectedIds.length,
+        startBulkEditing: state.startBulkEditing,
+        isBulkEditing: state.isBulkEditing,
+        stopBulkEditing: state.stopBulkEditing,
+        deleteSelected: state.deleteSelected,
+        updateSelected: state.updateSelected,
+        clearSelection: state.clearSelection,
+        list: state.list,
+        isListLoading: state.isListLoading,
+        loadMoreList: state.loadMoreList,
+    })));
+    const activeTheme = useAppStore(selectActiveTheme);
+    const listedMiniatures = useCollectionList();
 
-    const handleFormSubmit = (miniature: any) => {
+    const handleFormSubmit = (miniature: any, statusNote?: string, images?: File[]) => {
         if (miniature._id) {
-            updateMiniature(miniature);
+            updateMiniature(miniature, statusNote);
         } else {
-            addMiniature(miniature);
+            addMiniature(miniature, images);
         }
     };
     
     const handleDeleteSelected = () => {
-        if (window.confirm(`Are you sure you want to delete ${selectedIds.length} selected miniatures? This action cannot be undone.`)) {
+        if (window.confirm(`Move ${selectedCount} selected miniatures to the trash?`)) {
             deleteSelected();
         }
     };
@@ -47,7 +72,6 @@ const CollectionPage: React.FC = () => {
             <FilterControls 
                 filters={filters} 
                 setFilters={setFilters} 
-                allMiniatures={miniatures}
                 theme={activeTheme}
             />
         
@@ -62,9 +86,9 @@ const CollectionPage: React.FC = () => {
                     </div>
                 </div>
 
-                {selectedIds.length > 0 && (
+                {selectedCount > 0 && (
                     <BulkActionBar 
-                        selectedCount={selectedIds.length}
+                        selectedCount={selectedCount}
                         onClear={clearSelection}
                         onDelete={handleDeleteSelected}
                         onEdit={startBulkEditing}
@@ -85,11 +109,28 @@ const CollectionPage: React.FC = () => {
                     <BulkEditModal 
                         onClose={stopBulkEditing}
                         onSave={updateSelected}
-                        selectedCount={selectedIds.length}
+                        selectedCount={selectedCount}
                     />
                 )}
 
-                <MiniatureList />
+                {isListLoading && listedMiniatures.length === 0
+                    ? <p className="text-center text-gray-500 py-8">Loading miniatures...</p>
+                    : <MiniatureList miniatures={listedMiniatures} />}
+
+                {list.total > 0 && (
+                    <div className="flex flex-wrap justify-center items-center gap-4 mt-6 text-sm text-gray-400">
+                        <span>Showing {listedMiniatures.length} of {list.total}</span>
+                        {list.nextCursor && (
+                            <button
+                                onClick={loadMoreList}
+                                disabled={isListLoading}
+                                className={`px-4 py-2 ${activeTheme.button} text-white font-semibold rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+                            >
+                                {isListLoading ? 'Loading...' : 'Load More'}
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
         </>
     );
@@ -1,12 +1,22 @@
 import React from 'react';
+import { useShallow } from 'zustand/react/shallow';
 import { useAppStore } from '../store';
+import { dashboardStats } from '../selectors';
 import Dashboard from '../components/Dashboard';
+import { useMiniatureSummary } from '../hooks/useMiniatureSummary';
 
 const DashboardPage: React.FC = () => {
-    const filteredMiniatures = useAppStore(state => state.filteredMiniatures);
+    const view = useAppStore(useShallow(state => ({ filters: state.filters, searchQuery: state.searchQuery })));
+    const workflows = useAppStore(state => state.workflows);
+    const groups = useMiniatureSummary(view);
+    const stats = groups && dashboardStats({ groups, workflows });
+    if (!groups || !stats) {
+        return <p className="text-center text-gray-500 py-8">Loading dashboard...</p>;
+    }
     return (
         <Dashboard 
-            miniatures={filteredMiniatures}
+            groups={groups}
+            stats={stats}
         />
     );
 };
@@ -1,29 +1,64 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAppStore } from '../store';
-import { generateCSV, parseCSV } from '../utils/csv';
+import { generateCSV, readCSVFile, CsvTable } from '../utils/csv';
+import { ImportDiff, diffImport } from '../utils/importDiff';
+import { migrateBackup } from '../utils/backup';
 import { UploadIcon, DownloadIcon } from '../components/Icons';
+import ImportPreviewModal from '../components/ImportPreviewModal';
+import SnapshotList from '../components/SnapshotList';
+import CsvImportWizard from '../components/CsvImportWizard';
+import { Miniature } from '../types';
+
+type ImportMode = 'merge' | 'replace';
+
+// A CSV file that has been read and is waiting for its columns to be mapped.
+interface PendingImport {
+    mode: ImportMode;
+    fileName: string;
+    table: CsvTable;
+}
+
+const downloadFile = (content: string, filename: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', url);
+    linkElement.setAttribute('download', filename);
+    document.body.appendChild(linkElement);
+    linkElement.click();
+    document.body.removeChild(linkElement);
+    URL.revokeObjectURL(url);
+};
 
 const DataManagementPage: React.FC = () => {
-    const { miniatures, importData } = useAppStore();
+    const { fetchCollection, importData, fetchBackup, restoreBackup } = useAppStore();
+    const [mergeDiff, setMergeDiff] = useState<ImportDiff | null>(null);
+    const [isBackupBusy, setIsBackupBusy] = useState(false);
+    const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
 
-    const handleExport = () => {
+    const handleExport = async () => {
+        const miniatures = await fetchCollection();
+        if (!miniatures) return;
         try {
             const csvContent = generateCSV(miniatures);
-            const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-            const url = URL.createObjectURL(blob);
-            const linkElement = document.createElement('a');
-            linkElement.setAttribute('href', url);
-            linkElement.setAttribute('download', 'miniature_tracker_data.csv');
-            document.body.appendChild(linkElement);
-            linkElement.click();
-            document.body.removeChild(linkElement);
+            downloadFile(csvContent, 'miniature_tracker_data.csv', 'text/csv;charset=utf-8;');
         } catch (error) {
             alert('An error occurred while preparing the data for saving.');
             console.error(error);
         }
     };
 
-    const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleBackupExport = async () => {
+        setIsBackupBusy(true);
+        const backup = await fetchBackup();
+        setIsBackupBusy(false);
+        if (backup) {
+            const date = backup.exportedAt.slice(0, 10);
+            downloadFile(JSON.stringify(backup), `miniature_tracker_backup_${date}.json`, 'application/json');
+        }
+    };
+
+    const handleBackupRestore = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (!file) return;
 
@@ -32,16 +67,19 @@ const DataManagementPage: React.FC = () => {
             try {
                 const text = e.target?.result;
                 if (typeof text !== 'string') throw new Error('Could not read file content.');
-                
-                const parsedData = parseCSV(text);
 
-                if (window.confirm(`This will overwrite your entire collection with ${parsedData.length} entries from the CSV file. This action cannot be undone. Proceed?`)) {
-                    await importData(parsedData);
-                    alert(`Successfully loaded ${parsedData.length} miniatures from file.`);
+                const backup = migrateBackup(JSON.parse(text));
+                const imageCount = Object.keys(backup.files).length;
+                if (window.confirm(`This will replace your collection with ${backup.miniatures.length} miniatures and ${imageCount} images from the backup. A snapshot of your current collection is saved first so it can be restored. Proceed?`)) {
+                    setIsBackupBusy(true);
+                    const success = await restoreBackup(backup);
+                    setIsBackupBusy(false);
+                    if (success) {
+                        alert(`Successfully restored ${backup.miniatures.length} miniatures from the backup.`);
+                    }
                 }
-
             } catch (error) {
-                alert(`Failed to load data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                alert(`Failed to load backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
                 console.error(error);
             } finally {
                 event.target.value = '';
@@ -51,6 +89,33 @@ const DataManagementPage: React.FC = () => {
         reader.readAsText(file);
     };
 
+    const handleImport = (mode: ImportMode) => async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const input = event.target;
+        const file = input.files?.[0];
+        if (!file) return;
+
+        try {
+            const table = await readCSVFile(file);
+            if (table.records.length === 0) throw new Error('The file contains no data rows.');
+            setPendingImport({ mode, fileName: file.name, table });
+        } catch (error) {
+            alert(`Failed to load data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            console.error(error);
+        } finally {
+            input.value = '';
+        }
+    };
+
+    const handleMappedImport = async (mode: ImportMode, rows: Omit<Miniature, '_id'>[]) => {
+        setPendingImport(null);
+        if (mode === 'merge') {
+            const miniatures = await fetchCollection();
+            if (miniatures) setMergeDiff(diffImport(miniatures, rows));
+        } else if (window.confirm(`This will overwrite your entire collection with ${rows.length} entries from the CSV file. A snapshot of your current collection is saved first so it can be restored. Proceed?`)) {
+            await importData(rows);
+            alert(`Successfully loaded ${rows.length} miniatures from file.`);
+        }
+    };
 
     return (
         <div className="bg-gray-800/50 rounded-xl shadow-2xl p-6 md:p-8 backdrop-blur-sm">
@@ -76,20 +141,76 @@ const DataManagementPage: React.FC = () => {
                 <div className="bg-gray-900/50 p-6 rounded-lg shadow-inner flex flex-col">
                     <h3 className="text-xl font-semibold text-purple-400 mb-4">Import Collection from CSV</h3>
                     <p className="text-gray-400 mb-6 flex-grow">
-                        Load a collection from a CSV file. <strong className="text-yellow-400">Warning:</strong> This will completely overwrite your current collection in the database.
+                        Any spreadsheet layout works: you will be asked which column holds which field.{' '}
+                        <strong className="text-gray-200">Merge</strong> matches rows to your existing miniatures and lets you review every addition, change and removal before applying it.{' '}
+                        <strong className="text-gray-200">Replace</strong> discards your current collection. Either way, a snapshot is saved first so you can restore it below.
                     </p>
-                    <label 
-                        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-500 rounded-lg shadow-md transition-all duration-300 transform hover:scale-105 cursor-pointer"
+                    <div className="flex flex-col sm:flex-row gap-4">
+                        <label 
+                            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-500 rounded-lg shadow-md transition-all duration-300 transform hover:scale-105 cursor-pointer"
+                        >
+                            <UploadIcon />
+                            Merge from CSV
+                            <input type="file" accept=".csv" className="hidden" onChange={handleImport('merge')} />
+                        </label>
+                        <label 
+                            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-red-700 hover:bg-red-600 rounded-lg shadow-md transition-all duration-300 transform hover:scale-105 cursor-pointer"
+                        >
+                            <UploadIcon />
+                            Replace from CSV
+                            <input type="file" accept=".csv" className="hidden" onChange={handleImport('replace')} />
+                        </label>
+                    </div>
+                </div>
+            </div>
+            {/* Backup Section */}
+            <div className="bg-gray-900/50 p-6 rounded-lg shadow-inner mt-8">
+                <h3 className="text-xl font-semibold text-purple-400 mb-4">Full Backup</h3>
+                <p className="text-gray-400 mb-6">
+                    A backup file keeps everything the CSV export leaves out: ids, images, status history, game systems and settings. Use it to move your collection to another server or to keep a complete copy. Backups from older versions of the app are upgraded automatically when restored.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-4">
+                    <button
+                        onClick={handleBackupExport}
+                        disabled={isBackupBusy}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg shadow-md transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <DownloadIcon />
+                        {isBackupBusy ? 'Working...' : 'Download Backup'}
+                    </button>
+                    <label
+                        className={`w-full flex items-center justify-center gap-2 px-4 py-2 bg-red-700 hover:bg-red-600 rounded-lg shadow-md transition-all duration-300 transform hover:scale-105 cursor-pointer ${isBackupBusy ? 'opacity-50 pointer-events-none' : ''}`}
                     >
                         <UploadIcon />
-                        Import from CSV
-                        <input type="file" accept=".csv" className="hidden" onChange={handleImport} />
+                        Restore from Backup
+                        <input type="file" accept=".json,application/json" className="hidden" onChange={handleBackupRestore} disabled={isBackupBusy} />
                     </label>
                 </div>
             </div>
+            {/* Restore Section */}
+            <div className="bg-gray-900/50 p-6 rounded-lg shadow-inner mt-8">
+                <h3 className="text-xl font-semibold text-purple-400 mb-4">Restore Previous Collection</h3>
+                <SnapshotList />
+            </div>
             <div className="mt-8 p-4 bg-gray-900/30 rounded-lg text-sm text-gray-400">
                 <strong>How does saving work?</strong> Your data is now saved in a central database. Use the import/export features to create local backups or to migrate your data between different systems.
             </div>
+            {pendingImport && (
+                <CsvImportWizard
+                    table={pendingImport.table}
+                    fileName={pendingImport.fileName}
+                    continueLabel={pendingImport.mode === 'merge' ? 'Review Merge' : 'Replace Collection'}
+                    onCancel={() => setPendingImport(null)}
+                    onComplete={(rows) => handleMappedImport(pendingImport.mode, rows)}
+                />
+            )}
+            {mergeDiff && (
+                <ImportPreviewModal
+                    diff={mergeDiff}
+                    onClose={() => setMergeDiff(null)}
+                    onMerged={() => setMergeDiff(null)}
+                />
+            )}
         </div>
     );
 };
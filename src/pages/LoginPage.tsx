@@ -0,0 +1,98 @@
+/**
+ * @file src/pages/LoginPage.tsx
+ * This component is shown instead of the app until someone logs in. It logs in to an existing
+ * account or creates a new one; each account has its own collection.
+ */
+
+import React, { useState } from 'react';
+import { useAppStore } from '../store';
+import { PaintBrushIcon } from '../components/Icons';
+
+type Mode = 'login' | 'register';
+
+const inputClassName = 'mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+/**
+ * The login and sign-up page.
+ * @returns {JSX.Element} The rendered page.
+ */
+const LoginPage: React.FC = () => {
+    const { login, register, clearAuthErrors, fieldErrors, authError } = useAppStore();
+    const [mode, setMode] = useState<Mode>('login');
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        const succeeded = mode === 'login' ? await login(username, password) : await register(username, password);
+        // After a successful login this page is gone.
+        if (!succeeded) setIsSubmitting(false);
+    };
+
+    const switchMode = () => {
+        clearAuthErrors();
+        setMode(mode === 'login' ? 'register' : 'login');
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center p-4">
+            <form onSubmit={handleSubmit} className="w-full max-w-sm bg-gray-800/50 rounded-xl shadow-2xl p-8 backdrop-blur-sm animate-fade-in space-y-5">
+                <div className="flex items-center justify-center gap-3">
+                    <PaintBrushIcon />
+                    <h1 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500">
+                        Miniature Hobby Tracker
+                    </h1>
+                </div>
+                <h2 className="text-lg text-center text-gray-300">{mode === 'login' ? 'Log in to your collection' : 'Create an account'}</h2>
+
+                <label className="block text-sm text-gray-300">
+                    Username
+                    <input
+                        type="text"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        autoComplete="username"
+                        autoFocus
+                        required
+                        className={`${inputClassName} ${fieldErrors.username ? 'border-red-500' : ''}`}
+                    />
+                    {fieldErrors.username && <span className="block mt-1 text-sm text-red-300">{fieldErrors.username}</span>}
+                </label>
+
+                <label className="block text-sm text-gray-300">
+                    Password
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                        required
+                        className={`${inputClassName} ${fieldErrors.password ? 'border-red-500' : ''}`}
+                    />
+                    {fieldErrors.password && <span className="block mt-1 text-sm text-red-300">{fieldErrors.password}</span>}
+                </label>
+
+                {authError && <p className="text-sm text-red-300" role="alert">{authError}</p>}
+
+                <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="w-full px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isSubmitting ? 'Please wait...' : mode === 'login' ? 'Log In' : 'Create Account'}
+                </button>
+
+                <p className="text-sm text-center text-gray-400">
+                    {mode === 'login' ? 'New here?' : 'Already have an account?'}{' '}
+                    <button type="button" onClick={switchMode} className="text-cyan-400 hover:text-cyan-300 underline">
+                        {mode === 'login' ? 'Create an account' : 'Log in'}
+                    </button>
+                </p>
+            </form>
+        </div>
+    );
+};
+
+export default LoginPage;
@@ -1,11 +1,18 @@
 /**
  * @file src/pages/SettingsPage.tsx
  * This component provides a user interface for managing application settings,
- * starting with the ability to add new game systems to the collection.
+ * such as adding, renaming, merging and deleting the game systems and armies in the collection,
+ * editing each game system's status workflow, and managing public showcase links.
  */
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useAppStore } from '../store';
+import { selectActiveTheme } from '../selectors';
+import NameManagerRow from '../components/NameManagerRow';
+import ArmyManager from '../components/ArmyManager';
+import WorkflowEditor from '../components/WorkflowEditor';
+import ShareManager from '../components/ShareManager';
+import { useMiniatureSummary } from '../hooks/useMiniatureSummary';
 
 /**
  * The page component for managing settings.
@@ -14,7 +21,17 @@ import { useAppStore } from '../store';
 const SettingsPage: React.FC = () => {
     // Select necessary state and actions from the Zustand store.
     // FIX: Property 'allGameSystems' does not exist on type '{...}'. The property is named 'gameSystems' in the store, so we alias it.
-    const { gameSystems: allGameSystems, addGameSystem, activeTheme } = useAppStore();
+    const { gameSystems: allGameSystems, addGameSystem, renameGameSystem, mergeGameSystem, deleteGameSystem } = useAppStore();
+    const activeTheme = useAppStore(selectActiveTheme);
+    // The whole collection, counted on the server; empty until the counts arrive.
+    const summary = useMiniatureSummary();
+    const groups = useMemo(() => summary ?? [], [summary]);
+
+    const miniatureCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        groups.forEach(g => counts.set(g.gameSystem, (counts.get(g.gameSystem) || 0) + g.miniatureCount));
+        return counts;
+    }, [groups]);
 
     // Local state for the form input field.
     const [newSystemName, setNewSystemName] = useState('');
@@ -46,7 +63,7 @@ const SettingsPage: React.FC = () => {
                 <div className="bg-gray-900/50 p-6 rounded-lg shadow-inner">
                     <h3 className={`text-xl font-semibold ${activeTheme.secondaryText} mb-4`}>Manage Game Systems</h3>
                     <p className="text-gray-400 mb-6">
-                        Add new game systems to the list available throughout the application.
+                        Add new game systems to the list available throughout the application. Renaming or merging a system updates every miniature that uses it.
                     </p>
                     
                     <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-4 mb-6">
@@ -69,15 +86,26 @@ const SettingsPage: React.FC = () => {
 
                     <div>
                         <h4 className="text-lg font-semibold text-gray-300 mb-3">Current Systems:</h4>
-                        <ul className="space-y-2 max-h-60 overflow-y-auto pr-2">
+                        <ul className="space-y-2 max-h-96 overflow-y-auto pr-2">
                             {allGameSystems.map(system => (
-                                <li key={system} className="bg-gray-700/50 p-3 rounded-md text-gray-200">
-                                    {system}
-                                </li>
+                                <NameManagerRow
+                                    key={system}
+                                    name={system}
+                                    noun="system"
+                                    miniatureCount={miniatureCounts.get(system) || 0}
+                                    targets={allGameSystems.filter(gs => gs !== system).map(gs => ({ value: gs, label: gs }))}
+                                    theme={activeTheme}
+                                    onRename={(newName) => renameGameSystem(system, newName)}
+                                    onMerge={(target) => mergeGameSystem(system, target)}
+                                    onDelete={(reassignTo) => deleteGameSystem(system, reassignTo)}
+                                />
                             ))}
                         </ul>
                     </div>
                 </div>
+                <WorkflowEditor groups={groups} />
+                <ArmyManager groups={groups} />
+                <ShareManager />
             </div>
         </div>
     );
@@ -0,0 +1,125 @@
+/**
+ * @file src/pages/ShowcasePage.tsx
+ * This component is the public, read-only view behind a shared link: the owner's dashboard
+ * and a gallery of the shared miniatures. It needs no login and offers no edit or bulk controls.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import axios from 'axios';
+import { Miniature, Showcase } from '../types';
+import { DEFAULT_THEME } from '../themes';
+import { getErrorMessage } from '../utils/api';
+import { getCoverThumbnailUrl } from '../utils/images';
+import { stageColor } from '../utils/workflows';
+import { showcaseLabel } from '../utils/routing';
+import { summarizeMiniatures } from '../utils/miniatureQuery';
+import { dashboardStats } from '../selectors';
+import Dashboard from '../components/Dashboard';
+import ImageGalleryModal from '../components/ImageGalleryModal';
+import { PaintBrushIcon, PhotoIcon } from '../components/Icons';
+
+interface ShowcasePageProps {
+    token: string;
+}
+
+/**
+ * The shared showcase page.
+ * @param {ShowcasePageProps} props The component's properties.
+ * @returns {JSX.Element} The rendered page.
+ */
+const ShowcasePage: React.FC<ShowcasePageProps> = ({ token }) => {
+    const [showcase, setShowcase] = useState<Showcase | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [galleryMiniature, setGalleryMiniature] = useState<Miniature | null>(null);
+    const groups = useMemo(() => showcase && summarizeMiniatures(showcase.miniatures), [showcase]);
+    const stats = showcase && groups && dashboardStats({ groups, workflows: showcase.workflows });
+
+    useEffect(() => {
+        axios.get(`/api/showcase/${token}`)
+            .then(response => {
+                setShowcase(response.data);
+                document.title = `${response.data.owner}'s miniatures`;
+            })
+            .catch(error => {
+                console.error('Failed to fetch showcase:', error);
+                setError(getErrorMessage(error) || 'Could not load this collection. Please try again later.');
+            });
+    }, [token]);
+
+    const renderContent = () => {
+        if (error) {
+            return (
+                <div className="text-center text-red-400 bg-red-900/50 p-6 rounded-lg mt-20 max-w-2xl mx-auto">
+                    <p>{error}</p>
+                </div>
+            );
+        }
+        if (!showcase || !groups || !stats) {
+            return <div className="text-center text-xl text-gray-400 mt-20">Loading collection...</div>;
+        }
+        return (
+            <div className="space-y-8">
+                <Dashboard groups={groups} stats={stats} workflows={showcase.workflows} title={showcaseLabel(showcase)} />
+                <div className="bg-gray-800/50 rounded-xl shadow-2xl p-6 backdrop-blur-sm">
+                    <h2 className="text-2xl font-bold text-cyan-400 mb-6 tracking-wider">Miniatures</h2>
+                    {showcase.miniatures.length === 0 ? (
+                        <p className="text-gray-400">Nothing here yet.</p>
+                    ) : (
+                        <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+                            {showcase.miniatures.map(mini => {
+                                const coverUrl = getCoverThumbnailUrl(mini);
+                                const imageCount = mini.images?.length ?? 0;
+                                return (
+                                    <li key={mini._id} className="bg-gray-900/50 rounded-lg overflow-hidden shadow-inner">
+                                        <button
+                                            onClick={() => setGalleryMiniature(mini)}
+                                            disabled={imageCount === 0}
+                                            className="relative w-full aspect-square flex items-center justify-center bg-gray-700/50 text-gray-500 enabled:hover:opacity-90 transition-opacity"
+                                            aria-label={`Images of ${mini.modelName}`}
+                                        >
+                                            {coverUrl
+                                                ? <img src={coverUrl} alt="" loading="lazy" className="w-full h-full object-cover" />
+                                                : <PhotoIcon />}
+                                            {imageCount > 1 && (
+                                                <span className="absolute bottom-1 right-1 text-xs font-bold bg-black/70 text-white px-1.5 rounded">{imageCount}</span>
+                                            )}
+                                        </button>
+                                        <div className="p-3 text-sm">
+                                            <p className="font-medium text-white truncate" title={mini.modelName}>{mini.modelName}</p>
+                                            <p className="text-gray-400 truncate">{mini.army || mini.gameSystem} · {mini.modelCount}</p>
+                                            <p className="flex items-center gap-2 text-gray-300 mt-1">
+                                                <span style={{ backgroundColor: stageColor(showcase.workflows, mini.gameSystem, mini.status) }} className="h-3 w-3 rounded-full"></span>
+                                                {mini.status}
+                                            </p>
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className={`min-h-screen text-gray-100 font-sans ${DEFAULT_THEME.bgGradient}`}>
+            <header className="bg-gray-800/50 backdrop-blur-sm shadow-lg">
+                <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+                    <PaintBrushIcon />
+                    <h1 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500">
+                        {showcase ? `${showcase.owner}'s miniatures` : 'Miniature Hobby Tracker'}
+                    </h1>
+                </div>
+            </header>
+            <main className="container mx-auto p-4 md:p-8">
+                {renderContent()}
+            </main>
+            {galleryMiniature && (
+                <ImageGalleryModal miniature={galleryMiniature} onClose={() => setGalleryMiniature(null)} />
+            )}
+        </div>
+    );
+};
+
+export default ShowcasePage;
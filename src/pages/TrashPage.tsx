@@ -0,0 +1,161 @@
+/**
+ * @file src/pages/TrashPage.tsx
+ * This component lists the miniatures that have been deleted. They stay in the trash for the
+ * retention period, during which they can be restored to the collection or deleted for good.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useAppStore } from '../store';
+import { selectActiveTheme } from '../selectors';
+import { Miniature } from '../types';
+import { TrashIcon } from '../components/Icons';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+// Whole days until the server purges a miniature deleted at `deletedAt`, never below zero.
+const daysLeft = (deletedAt: string, retentionDays: number) =>
+    Math.max(0, Math.ceil((new Date(deletedAt).getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+/**
+ * The page component for the trash.
+ * @returns {JSX.Element} The rendered trash page.
+ */
+const TrashPage: React.FC = () => {
+    const { trash, trashRetentionDays, fetchTrash, restoreFromTrash, purgeFromTrash, emptyTrash, setTrashRetention } = useAppStore();
+    const activeTheme = useAppStore(selectActiveTheme);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [retentionInput, setRetentionInput] = useState('');
+    const [isSavingRetention, setIsSavingRetention] = useState(false);
+
+    useEffect(() => {
+        fetchTrash();
+    }, [fetchTrash]);
+
+    useEffect(() => {
+        if (trashRetentionDays !== null) setRetentionInput(String(trashRetentionDays));
+    }, [trashRetentionDays]);
+
+    // Runs one trash action at a time; `id` marks which row (or 'all') shows as busy.
+    const runBusy = async (id: string, action: () => Promise<unknown>) => {
+        setBusyId(id);
+        await action();
+        setBusyId(null);
+    };
+
+    const handlePurge = (miniature: Miniature) => {
+        if (!window.confirm(`Permanently delete "${miniature.modelName}" and its images? This cannot be undone.`)) return;
+        runBusy(miniature._id, () => purgeFromTrash([miniature._id]));
+    };
+
+    const handleEmpty = () => {
+        if (!window.confirm(`Permanently delete all ${trash.length} miniatures in the trash and their images? This cannot be undone.`)) return;
+        runBusy('all', emptyTrash);
+    };
+
+    const retentionDays = Number(retentionInput);
+    const isRetentionValid = Number.isInteger(retentionDays) && retentionDays >= 1;
+
+    const handleRetentionSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isRetentionValid || retentionDays === trashRetentionDays) return;
+        if (trashRetentionDays !== null && retentionDays < trashRetentionDays
+            && !window.confirm(`Miniatures deleted more than ${retentionDays} days ago will be permanently deleted now. Continue?`)) {
+            return;
+        }
+        setIsSavingRetention(true);
+        await setTrashRetention(retentionDays);
+        setIsSavingRetention(false);
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-xl shadow-2xl p-6 md:p-8 backdrop-blur-sm animate-fade-in">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-6 border-b border-gray-700 pb-4">
+                <h2 className={`text-3xl font-bold ${activeTheme.primaryText} tracking-wider`}>Trash</h2>
+                {trash.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={() => runBusy('all', () => restoreFromTrash(trash.map(m => m._id)))}
+                            disabled={busyId !== null}
+                            className={`px-4 py-2 ${activeTheme.button} text-white font-semibold rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+                        >
+                            Restore All
+                        </button>
+                        <button
+                            onClick={handleEmpty}
+                            disabled={busyId !== null}
+                            className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white font-semibold rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Empty Trash
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            <form onSubmit={handleRetentionSubmit} className="flex flex-wrap items-center gap-2 mb-6 text-gray-400">
+                <label htmlFor="trash-retention">Deleted miniatures are kept for</label>
+                <input
+                    id="trash-retention"
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={retentionInput}
+                    onChange={(e) => setRetentionInput(e.target.value)}
+                    className={`w-20 bg-gray-700 border border-gray-600 rounded-md shadow-sm py-1 px-2 text-white focus:outline-none focus:ring-2 ${activeTheme.accentRing} ${isRetentionValid ? '' : 'border-red-500'}`}
+                />
+                <span>days before they are deleted permanently.</span>
+                <button
+                    type="submit"
+                    disabled={!isRetentionValid || retentionDays === trashRetentionDays || isSavingRetention}
+                    className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white text-sm font-semibold rounded-md shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isSavingRetention ? 'Saving...' : 'Save'}
+                </button>
+            </form>
+
+            {trash.length === 0 ? (
+                <p className="text-gray-500">The trash is empty.</p>
+            ) : (
+                <ul className="divide-y divide-gray-700">
+                    {trash.map(miniature => (
+                        <li key={miniature._id} className="flex flex-wrap items-center justify-between gap-4 py-3">
+                            <div>
+                                <p className="text-white">{miniature.modelName}</p>
+                                <p className="text-sm text-gray-400">
+                                    {miniature.gameSystem} &middot; {miniature.army} &middot; {miniature.status}
+                                </p>
+                                {miniature.deletedAt && (
+                                    <p className="text-xs text-gray-500">
+                                        Deleted {formatDate(miniature.deletedAt)}
+                                        {trashRetentionDays !== null && ` · deleted permanently in ${daysLeft(miniature.deletedAt, trashRetentionDays)} days`}
+                                    </p>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => runBusy(miniature._id, () => restoreFromTrash([miniature._id]))}
+                                    disabled={busyId !== null}
+                                    className="px-4 py-2 bg-purple-600 hover:bg-purple-500 rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {busyId === miniature._id ? 'Working...' : 'Restore'}
+                                </button>
+                                <button
+                                    onClick={() => handlePurge(miniature)}
+                                    disabled={busyId !== null}
+                                    className="p-2 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                                    aria-label={`Delete ${miniature.modelName} permanently`}
+                                    title="Delete permanently"
+                                >
+                                    <TrashIcon />
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default TrashPage;
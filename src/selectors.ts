@@ -0,0 +1,108 @@
+import type { AppState } from './store';
+import { ModelGroup } from './types';
+import { Theme, THEMES, ARMY_THEMES, DEFAULT_THEME } from './themes';
+import { isPainted, Workflows } from './utils/workflows';
+
+// Values derived from the store's state. Each selector is memoized on the parts of the state
+// it reads, so it returns the same object until one of them changes, and components that use
+// it with `useAppStore(selector)` only re-render when the derived value really changes.
+
+/**
+ * Memoizes `compute` on the values `inputs` picks from the state, compared by identity. The
+ * source is the store's state unless the selector's inputs say otherwise.
+ */
+function createSelector<Inputs extends unknown[], Result, Source = AppState>(
+    inputs: (state: Source) => [...Inputs],
+    compute: (...values: Inputs) => Result
+): (state: Source) => Result {
+    let lastInputs: Inputs | null = null;
+    let lastResult: Result;
+    return (state) => {
+        const values = inputs(state) as Inputs;
+        if (lastInputs && values.every((value, index) => Object.is(value, lastInputs![index]))) {
+            return lastResult;
+        }
+        lastInputs = values;
+        lastResult = compute(...values);
+        return lastResult;
+    };
+}
+
+/**
+ * The theme for the current filters: an army's own theme when the army filter names one of a
+ * known game system, then the game system's theme, then the default.
+ */
+export const selectActiveTheme = createSelector(
+    state => [state.filters.gameSystem, state.filters.army, state.gameSystems],
+    (gameSystem, army, gameSystems): Theme => {
+        const lowercasedArmy = army.toLowerCase().trim();
+        if (lowercasedArmy) {
+            for (const system in ARMY_THEMES) {
+                if (!gameSystems.includes(system)) continue;
+                const armyThemesForSystem = ARMY_THEMES[system];
+                const armyThemeKey = Object.keys(armyThemesForSystem).find(key => key.toLowerCase() === lowercasedArmy);
+                if (armyThemeKey) {
+                    return { ...(THEMES[system] || DEFAULT_THEME), ...armyThemesForSystem[armyThemeKey] };
+                }
+            }
+        }
+        if (gameSystem !== 'all' && THEMES[gameSystem]) {
+            return THEMES[gameSystem];
+        }
+        return DEFAULT_THEME;
+    }
+);
+
+/**
+ * The ids of the selected miniatures, for quick lookups.
+ */
+export const selectSelectedIdSet = createSelector(
+    state => [state.selectedIds],
+    (selectedIds) => new Set(selectedIds)
+);
+
+export interface SelectionState {
+    selectedCount: number;
+    // Whether every miniature of the list is selected, loaded or not.
+    isAllSelected: boolean;
+}
+
+/**
+ * The selection compared with the list. Only the loaded rows can be checked one by one; the
+ * rest are taken to be selected when the selection is as large as the whole list.
+ */
+export const selectSelection = createSelector(
+    state => [state.list, selectSelectedIdSet(state)],
+    (list, selected): SelectionState => ({
+        selectedCount: selected.size,
+        isAllSelected: list.total > 0 && selected.size >= list.total && list.items.every(m => selected.has(m._id)),
+    })
+);
+
+// What the dashboard is computed from: the summary of a collection and its workflows, which
+// come from the store for the owner's dashboard and from the shared collection for a showcase.
+export interface DashboardSource {
+    groups: ModelGroup[];
+    workflows: Workflows;
+}
+
+export interface DashboardStats {
+    totalModels: number;
+    paintedModels: number;
+    unpaintedModels: number;
+}
+
+/**
+ * Model totals for the dashboard cards. Counts models, not miniatures, as a unit of several
+ * models takes longer to paint.
+ */
+export const dashboardStats = createSelector(
+    (source: DashboardSource) => [source.groups, source.workflows],
+    (groups, workflows): DashboardStats => {
+        const totalModels = groups.reduce((sum, g) => sum + g.modelCount, 0);
+        const paintedModels = groups
+            .filter(g => isPainted(workflows, g))
+            .reduce((sum, g) => sum + g.modelCount, 0);
+        return { totalModels, paintedModels, unpaintedModels: totalModels - paintedModels };
+    }
+);
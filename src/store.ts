@@ -1,17 +1,72 @@
-import { create } from 'zustand';
+import { create, StoreApi } from 'zustand';
 import { produce } from 'immer';
-import { Miniature, Filter, SortConfig, Status } from './types';
-import { Theme, THEMES, ARMY_THEMES, DEFAULT_THEME } from './themes';
+import { Miniature, Filter, SortConfig, Status, Snapshot, Page, Army, WorkflowStage, HistoryEntry, EditConflict, LiveEvent, PendingOperation, User, Share, MiniaturePage } from './types';
 import axios from 'axios';
+import { FieldErrors, getFieldErrors, getErrorMessage, isServerUnreachable, isUnauthorized } from './utils/api';
+import { MergePlan } from './utils/importDiff';
+import { Backup } from './utils/backup';
+import { RouteState, DEFAULT_FILTERS, DEFAULT_SORT } from './utils/routing';
+import { Workflows } from './utils/workflows';
+import { clearOfflineData, readCachedCollection, readPendingOperations, writeCachedCollection, writePendingOperations } from './utils/offlineCache';
+import { applyLogin, readStoredLogin, StoredLogin } from './utils/auth';
+import { createLocalId, enqueueOperation, isLocalId } from './utils/offlineQueue';
+import { LIST_PAGE_SIZE, MAX_PAGE_SIZE, MiniatureQuery, queryMiniatures, queryParams } from './utils/miniatureQuery';
+import { selectSelection } from './selectors';
+
+// Identifies this tab to the server, which leaves it out when broadcasting the changes it
+// makes (see useLiveSync). Not a secret, just unique enough among open tabs.
+export const CLIENT_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+axios.defaults.headers.common['X-Client-Id'] = CLIENT_ID;
+
+const storedLogin = readStoredLogin();
+applyLogin(storedLogin);
+
+// Define the shape of the application's state. Values derived from it are in selectors.ts.
+export interface AppState {
+    // The logged-in user and their session token, or null before logging in.
+    currentUser: User | null;
+    authToken: string | null;
+    // Why the last login or sign-up failed, when it was not a problem with one field.
+    authError: string | null;
 
-// Define the shape of the application's state.
-interface AppState {
     // Core Data
+    // The miniatures this tab has loaded: the pages of the list, those looked up for a bulk
+    // change, and those changed here or live. It is not the whole collection.
     miniatures: Miniature[];
+    // Counts the changes to the collection this tab made or was told about, so the views
+    // loaded from the server (the list, the dashboard) know to reload.
+    collectionRevision: number;
+    // The pages of the collection list loaded so far, for the current filters, search and sort.
+    list: MiniaturePage;
+    isListLoading: boolean;
     gameSystems: string[];
+    // The status workflow of each game system, keyed by name.
+    workflows: Workflows;
+    armies: Army[];
+    // Collection snapshots taken before imports, newest first.
+    snapshots: Snapshot[];
+    // Public showcase links to the collection, newest first.
+    shares: Share[];
+    // Deleted miniatures awaiting restore or purge, most recently deleted first.
+    trash: Miniature[];
+    // Days miniatures stay in the trash before the server purges them.
+    trashRetentionDays: number | null;
+    // Undoable changes, oldest first. The last entry of each is the next to undo or redo.
+    undoStack: HistoryEntry[];
+    redoStack: HistoryEntry[];
+    // True while an undo or redo is being sent to the server.
+    isReplaying: boolean;
+    // True while the API is unreachable; changes are then queued instead of sent.
+    isOffline: boolean;
+    // Changes waiting to be sent to the server, oldest first. Persisted by useOfflineSync.
+    pendingOperations: PendingOperation[];
+    // True while the queued changes are being sent.
+    isSyncing: boolean;
+    // Queued edits the server refused because the miniature changed in the meantime.
+    syncConflicts: EditConflict[];
 
     // UI State
-    page: 'dashboard' | 'collection' | 'data';
+    page: Page;
     filters: Filter;
     searchQuery: string;
     sortConfig: SortConfig;
@@ -23,46 +78,408 @@ interface AppState {
     galleryMiniature: Miniature | null;
     isLoading: boolean;
     error: string | null;
-    
-    // Derived State (getters)
-    activeTheme: Theme;
-    filteredMiniatures: Miniature[];
-    isAllSelected: boolean;
+    // Server validation errors for the open miniature form, bulk edit modal or login form.
+    fieldErrors: FieldErrors;
+    // A save of the open miniature form that clashed with someone else's edit.
+    editConflict: EditConflict | null;
 
     // Actions (functions to modify state)
-    setPage: (page: 'dashboard' | 'collection' | 'data') => void;
+    login: (username: string, password: string) => Promise<boolean>;
+    register: (username: string, password: string) => Promise<boolean>;
+    logout: () => Promise<void>;
+    endSession: () => void;
+    clearAuthErrors: () => void;
+    setPage: (page: Page) => void;
+    applyRoute: (route: RouteState) => void;
     fetchInitialData: () => Promise<void>;
+    loadList: () => Promise<void>;
+    loadMoreList: () => Promise<void>;
+    refreshList: () => Promise<void>;
+    resync: () => Promise<void>;
+    fetchCollection: () => Promise<Miniature[] | null>;
+    cacheCollection: () => Promise<void>;
+    readOfflineCollection: () => Promise<Miniature[]>;
+    applyLiveEvent: (event: LiveEvent) => void;
+    syncPendingOperations: () => Promise<void>;
+    resolveSyncConflict: (merged: Miniature | null) => Promise<void>;
     addGameSystem: (name: string) => Promise<boolean>;
+    renameGameSystem: (name: string, newName: string) => Promise<boolean>;
+    mergeGameSystem: (name: string, target: string) => Promise<boolean>;
+    deleteGameSystem: (name: string, reassignTo?: string) => Promise<boolean>;
+    fetchWorkflows: () => Promise<void>;
+    updateWorkflow: (gameSystem: string, stages: WorkflowStage[], renames: Record<Status, Status>) => Promise<boolean>;
+    fetchArmies: () => Promise<void>;
+    createArmy: (name: string, gameSystem: string) => Promise<boolean>;
+    renameArmy: (id: string, name: string) => Promise<boolean>;
+    mergeArmy: (id: string, targetId: string) => Promise<boolean>;
+    deleteArmy: (id: string, reassignTo?: string) => Promise<boolean>;
     setFilters: (newFilters: Partial<Filter>) => void;
     setSearchQuery: (query: string) => void;
     setSortConfig: (key: keyof Miniature) => void;
-    addMiniature: (miniature: Omit<Miniature, '_id'>) => Promise<void>;
-    updateMiniature: (miniature: Miniature) => Promise<void>;
+    addMiniature: (miniature: Omit<Miniature, '_id'>, images?: File[]) => Promise<void>;
+    updateMiniature: (miniature: Miniature, statusNote?: string) => Promise<void>;
     deleteMiniature: (id: string) => Promise<void>;
+    undo: () => Promise<void>;
+    redo: () => Promise<void>;
     importData: (miniatures: Omit<Miniature, '_id'>[]) => Promise<void>;
+    mergeImport: (plan: MergePlan) => Promise<boolean>;
+    fetchSnapshots: () => Promise<void>;
+    restoreSnapshot: (id: string) => Promise<boolean>;
+    deleteSnapshot: (id: string) => Promise<void>;
+    fetchShares: () => Promise<void>;
+    createShare: (gameSystem: string | null, army: string | null) => Promise<Share | null>;
+    revokeShare: (id: string) => Promise<void>;
+    fetchTrash: () => Promise<void>;
+    restoreFromTrash: (ids: string[]) => Promise<void>;
+    purgeFromTrash: (ids: string[]) => Promise<void>;
+    emptyTrash: () => Promise<void>;
+    setTrashRetention: (days: number) => Promise<boolean>;
+    fetchBackup: () => Promise<Backup | null>;
+    restoreBackup: (backup: Backup) => Promise<boolean>;
     startEditing: (miniature: Miniature) => void;
     startAdding: () => void;
     stopEditing: () => void;
+    dismissConflict: () => void;
     toggleSelection: (id: string) => void;
-    toggleSelectAll: () => void;
+    toggleSelectAll: () => Promise<void>;
     clearSelection: () => void;
-    startBulkEditing: () => void;
+    startBulkEditing: () => Promise<void>;
     stopBulkEditing: () => void;
     deleteSelected: () => Promise<void>;
-    updateSelected: (updates: Partial<Pick<Miniature, 'status' | 'army' | 'gameSystem' | 'notes'>>) => Promise<void>;
+    updateSelected: (updates: Partial<Pick<Miniature, 'status' | 'army' | 'gameSystem' | 'notes'>>, statusNote?: string) => Promise<void>;
+    uploadImages: (id: string, files: File[]) => Promise<void>;
+    deleteImage: (id: string, url: string) => Promise<void>;
+    reorderImages: (id: string, images: string[]) => Promise<void>;
     openImageGallery: (miniature: Miniature) => void;
     closeImageGallery: () => void;
 }
 
+// Shows saved miniatures in the loaded list at once, where it has them. Where they now belong
+// in the list is up to the reload that follows.
+const patchListItems = (draft: AppState, saved: Miniature[]) => {
+    const byId = new Map(saved.map(m => [m._id, m]));
+    draft.list.items.forEach((item, index) => {
+        const miniature = byId.get(item._id);
+        if (miniature) draft.list.items[index] = miniature;
+    });
+};
+
+// Swaps in a server copy of a miniature after an image change. `editingMiniature` is left alone
+// so an open form keeps its unsaved edits; the form reads live images from `miniatures` instead.
+const replaceMiniature = (draft: AppState, updated: Miniature) => {
+    const index = draft.miniatures.findIndex(m => m._id === updated._id);
+    if (index !== -1) draft.miniatures[index] = updated;
+    patchListItems(draft, [updated]);
+    if (draft.galleryMiniature?._id === updated._id) draft.galleryMiniature = updated;
+};
+
+// Import payloads can fail validation on many rows at once; list the first few problems.
+const alertImportError = (error: unknown) => {
+    const fieldErrors = Object.entries(getFieldErrors(error));
+    if (fieldErrors.length > 0) {
+        const details = fieldErrors.slice(0, 10).map(([field, message]) => `${field}: ${message}`).join('\n');
+        const more = fieldErrors.length > 10 ? `\n...and ${fieldErrors.length - 10} more.` : '';
+        alert(`Error: The imported data is invalid.\n${details}${more}`);
+    } else {
+        alert("Error: Could not import data.");
+    }
+};
+
+// How many changes can be undone.
+const MAX_HISTORY = 50;
+
+// Records a change for undo. A new change makes the undone ones unreachable, so redo is cleared.
+const recordHistory = (draft: AppState, entry: HistoryEntry) => {
+    draft.undoStack.push(entry);
+    if (draft.undoStack.length > MAX_HISTORY) draft.undoStack.shift();
+    draft.redoStack = [];
+};
+
+// Every miniature held by the undo and redo history, so renames can be applied to them too.
+const historyMiniatures = (draft: AppState) =>
+    [...draft.undoStack, ...draft.redoStack].flatMap(entry => [...entry.before, ...entry.after]);
+
+/**
+ * Moves the server from one side of a history entry to the other: miniatures missing from
+ * `to` are deleted and the rest are written back as they are in `to`. Image changes are not
+ * part of the history, so miniatures that still exist keep their current images.
+ * Miniatures someone else has saved since `from` are left as they are and returned as
+ * conflicts, for the user to merge in the conflict dialog; the rest of the change still applies.
+ */
+const replayHistory = async (from: Miniature[], to: Miniature[], current: Miniature[]) => {
+    const toIds = new Set(to.map(m => m._id));
+    const removedIds = from.filter(m => !toIds.has(m._id)).map(m => m._id);
+    const fromById = new Map(from.map(m => [m._id, m]));
+    const currentById = new Map(current.map(m => [m._id, m]));
+    // Each miniature is sent with the version it has on the server if nobody else has changed
+    // it: its version in `from`, or, for one restored from the trash, the one it was deleted at.
+    const restored = to.map(m => {
+        const live = currentById.get(m._id);
+        const version = (fromById.get(m._id) ?? m).version;
+        return live ? { ...m, images: live.images, thumbnails: live.thumbnails, version } : { ...m, version };
+    });
+    const upsert = async (miniatures: Miniature[]): Promise<Miniature[]> => miniatures.length > 0
+        ? (await axios.post('/api/miniatures/bulk-upsert', { miniatures })).data
+        : [];
+    let saved: Miniature[];
+    let conflicts: EditConflict[] = [];
+    try {
+        saved = await upsert(restored);
+    } catch (error) {
+        if (!(axios.isAxiosError(error) && error.response?.status === 409 && Array.isArray(error.response.data?.current))) throw error;
+        const newer: Miniature[] = error.response.data.current;
+        const newerIds = new Set(newer.map(m => m._id));
+        conflicts = newer.map(current => {
+            const mine = restored.find(m => m._id === current._id) ?? current;
+            return { base: fromById.get(current._id) ?? mine, mine, current };
+        });
+        saved = await upsert(restored.filter(m => !newerIds.has(m._id)));
+    }
+    if (removedIds.length > 0) {
+        await axios.post('/api/miniatures/bulk-delete', { ids: removedIds });
+    }
+    return { removedIds, saved, conflicts };
+};
+
+// Drops deleted miniatures from the loaded ones, the list and the selection.
+const removeMiniatures = (draft: AppState, ids: string[]) => {
+    const removed = new Set(ids);
+    draft.miniatures = draft.miniatures.filter(m => !removed.has(m._id));
+    const listed = draft.list.items.length;
+    draft.list.items = draft.list.items.filter(m => !removed.has(m._id));
+    draft.list.total -= listed - draft.list.items.length;
+    draft.selectedIds = draft.selectedIds.filter(id => !removed.has(id));
+    draft.collectionRevision++;
+};
+
+// Keeps miniatures read from the server among the loaded ones, replacing older copies by id.
+const rememberMiniatures = (draft: AppState, loaded: Miniature[]) => {
+    const indexById = new Map(draft.miniatures.map((m, index) => [m._id, index]));
+    loaded.forEach(miniature => {
+        const index = indexById.get(miniature._id);
+        if (index === undefined) {
+            indexById.set(miniature._id, draft.miniatures.length);
+            draft.miniatures.push(miniature);
+        } else {
+            draft.miniatures[index] = miniature;
+        }
+    });
+};
+
+// Takes in miniatures saved here or elsewhere: they replace the loaded copies and list rows.
+const putMiniatures = (draft: AppState, saved: Miniature[]) => {
+    rememberMiniatures(draft, saved);
+    patchListItems(draft, saved);
+    draft.collectionRevision++;
+};
+
+// Applies a change locally and queues it for the server, which cannot be reached right now.
+const applyOffline = (draft: AppState, operation: PendingOperation) => {
+    draft.pendingOperations = enqueueOperation(draft.pendingOperations, operation);
+    if (operation.kind === 'delete') removeMiniatures(draft, [operation.miniature._id]);
+    else putMiniatures(draft, [operation.miniature]);
+};
+
+// The fields a new miniature is created with; the rest are assigned by the server.
+const creatableFields = ({ modelName, gameSystem, army, status, modelCount, notes }: Miniature) =>
+    ({ modelName, gameSystem, army, status, modelCount, notes });
+
+// Once the server has created a miniature that was added offline, points everything that
+// still uses its local id at the real one.
+const adoptCreatedMiniature = (draft: AppState, localId: string, created: Miniature) => {
+    removeMiniatures(draft, [localId]);
+    putMiniatures(draft, [created]);
+    draft.pendingOperations = draft.pendingOperations.map(op => {
+        if (op.miniature._id !== localId) return op;
+        const miniature = { ...op.miniature, _id: created._id, version: created.version };
+        return op.kind === 'update' ? { ...op, base: created, miniature } : { ...op, miniature };
+    });
+};
+
+// Image files are sent straight to the server, so they cannot be changed offline, nor on a
+// miniature that only exists locally until its queued add has been sent.
+const canChangeImages = (state: AppState, id: string) => {
+    if (state.isOffline || isLocalId(id)) {
+        alert("Images can only be changed while connected to the server.");
+        return false;
+    }
+    return true;
+};
+
+// The queued edits are loaded from IndexedDB once per login, on the first load of the collection.
+let pendingOperationsRestoredFor: string | null = null;
+
+const EMPTY_LIST: MiniaturePage = { items: [], nextCursor: null, total: 0 };
+
+// Counts list requests, so a response for a view that has since changed is dropped.
+let listRequest = 0;
+
+const selectQuery = ({ filters, searchQuery, sortConfig }: AppState): MiniatureQuery =>
+    ({ filters, searchQuery, sortConfig });
+
+// Fetches the first `count` miniatures of a view, in as many pages as the server needs.
+const fetchListWindow = async (query: MiniatureQuery, count: number): Promise<MiniaturePage> => {
+    const list: MiniaturePage = { ...EMPTY_LIST, items: [] };
+    do {
+        const limit = Math.min(MAX_PAGE_SIZE, count - list.items.length);
+        const params = { ...queryParams(query), limit, ...(list.nextCursor && { cursor: list.nextCursor }) };
+        const response = await axios.get('/api/miniatures', { params });
+        list.items.push(...response.data.items);
+        list.nextCursor = response.data.nextCursor;
+        list.total = response.data.total;
+    } while (list.nextCursor && list.items.length < count);
+    return list;
+};
+
+// Replaces the list with the first `count` miniatures of the current view. Without the
+// server, the list is worked out from the collection stored on this device.
+const loadListWindow = async (set: StoreApi<AppState>['setState'], get: () => AppState, count: number) => {
+    const request = ++listRequest;
+    const query = selectQuery(get());
+    set({ isListLoading: true });
+    try {
+        const list = await fetchListWindow(query, count);
+        if (request !== listRequest) return;
+        set(produce((draft: AppState) => {
+            draft.list = list;
+            draft.isListLoading = false;
+            rememberMiniatures(draft, list.items);
+        }));
+    } catch (error) {
+        if (request !== listRequest) return;
+        if (isServerUnreachable(error)) {
+            const items = queryMiniatures(await get().readOfflineCollection(), query, get().workflows);
+            if (request !== listRequest) return;
+            set({ list: { items, nextCursor: null, total: items.length }, isListLoading: false, isOffline: true });
+            return;
+        }
+        console.error("Failed to load miniatures:", error);
+        set({ isListLoading: false });
+    }
+};
+
+// The loaded miniatures, the rows of the list and those held by the undo and redo history,
+// for renames that apply to all of them.
+const localMiniatures = (draft: AppState) =>
+    [...draft.miniatures, ...draft.list.items, ...historyMiniatures(draft)];
+
+// The server counts a rename as an edit of every miniature it moves, so local copies take the
+// version it gives them; forms opened before the rename then see it as a conflict.
+const renameMiniature = (m: Miniature, changes: Partial<Pick<Miniature, 'gameSystem' | 'army' | 'status'>>) => {
+    Object.assign(m, changes);
+    m.version = (m.version ?? 0) + 1;
+};
+
+// Points every miniature, share and the active filter at a renamed or merged game system.
+const moveGameSystem = (draft: AppState, from: string, to: string) => {
+    localMiniatures(draft).forEach(m => {
+        if (m.gameSystem === from) renameMiniature(m, { gameSystem: to });
+    });
+    draft.collectionRevision++;
+    draft.shares.forEach(share => {
+        if (share.gameSystem === from) share.gameSystem = to;
+    });
+    if (draft.filters.gameSystem === from) draft.filters.gameSystem = to;
+};
+
+// Builds the workflows map from the `GET /api/gamesystems` response.
+const workflowsFrom = (gameSystems: { name: string; stages: WorkflowStage[] }[]): Workflows =>
+    Object.fromEntries(gameSystems.map(gs => [gs.name, gs.stages]));
+
+// Points every miniature, share and the active filter at a renamed or merged army.
+const moveArmy = (draft: AppState, gameSystem: string, from: string, to: string) => {
+    localMiniatures(draft).forEach(m => {
+        if (m.gameSystem === gameSystem && m.army === from) renameMiniature(m, { army: to });
+    });
+    draft.collectionRevision++;
+    draft.shares.forEach(share => {
+        if (share.gameSystem === gameSystem && share.army === from) share.army = to;
+    });
+    if (draft.filters.army === from) draft.filters.army = to;
+};
+
+// The server creates army records for new armies on the next fetch, so refetch only when a
+// saved miniature introduced one.
+const usesUnknownArmy = (armies: Army[], miniatures: Pick<Miniature, 'gameSystem' | 'army'>[]) =>
+    miniatures.some(m => !armies.some(army => army.gameSystem === m.gameSystem && army.name === m.army));
+
+// Keeps a new login and shows its user's collection; App loads it once `currentUser` is set.
+const startSession = (set: (partial: Partial<AppState>) => void, login: StoredLogin) => {
+    applyLogin(login);
+    set({ currentUser: login.user, authToken: login.token, fieldErrors: {}, authError: null, isLoading: true });
+};
+
+// The selected miniatures that are loaded.
+const loadedSelection = ({ selectedIds, miniatures }: AppState): Miniature[] => {
+    const selected = new Set(selectedIds);
+    return miniatures.filter(m => selected.has(m._id));
+};
+
+// The selected miniatures found in the collection stored on this device, for changes queued
+// offline. Any that are not stored stay selected, and the user is told how many were left out.
+const offlineSelection = async (get: () => AppState, action: string): Promise<Miniature[]> => {
+    const selected = new Set(get().selectedIds);
+    const found = (await get().readOfflineCollection()).filter(m => selected.has(m._id));
+    const skipped = selected.size - found.length;
+    if (skipped > 0) {
+        alert(`${skipped} of the selected miniatures are not stored on this device, so they were not ${action}. They are still selected.`);
+    }
+    return found;
+};
+
+// Deselects the miniatures a change was queued for.
+const deselect = (draft: AppState, miniatures: Miniature[]) => {
+    const done = new Set(miniatures.map(m => m._id));
+    draft.selectedIds = draft.selectedIds.filter(id => !done.has(id));
+};
+
+// The selected miniatures, looking up on the server those not loaded yet, such as the ones
+// "select all" picked from pages of the list never shown.
+const loadSelection = async (set: StoreApi<AppState>['setState'], get: () => AppState): Promise<Miniature[]> => {
+    const { selectedIds, miniatures } = get();
+    const loadedIds = new Set(miniatures.map(m => m._id));
+    const missing = selectedIds.filter(id => !loadedIds.has(id) && !isLocalId(id));
+    if (missing.length > 0) {
+        const response = await axios.post('/api/miniatures/lookup', { ids: missing });
+        set(produce((draft: AppState) => rememberMiniatures(draft, response.data)));
+    }
+    return loadedSelection(get());
+};
+
+const postImages = (id: string, files: File[]) => {
+    const formData = new FormData();
+    files.forEach(file => formData.append('images', file));
+    return axios.post(`/api/miniatures/${id}/images`, formData);
+};
+
 // Create the Zustand store.
 export const useAppStore = create<AppState>((set, get) => ({
     // --- STATE ---
+    currentUser: storedLogin?.user ?? null,
+    authToken: storedLogin?.token ?? null,
+    authError: null,
     miniatures: [],
+    collectionRevision: 0,
+    list: EMPTY_LIST,
+    isListLoading: false,
     gameSystems: [],
+    workflows: {},
+    armies: [],
+    snapshots: [],
+    shares: [],
+    trash: [],
+    trashRetentionDays: null,
+    undoStack: [],
+    redoStack: [],
+    isReplaying: false,
+    isOffline: false,
+    pendingOperations: [],
+    isSyncing: false,
+    syncConflicts: [],
     page: 'dashboard',
-    filters: { gameSystem: 'all', army: '' },
+    filters: DEFAULT_FILTERS,
     searchQuery: '',
-    sortConfig: { key: 'modelName', direction: 'asc' },
+    sortConfig: DEFAULT_SORT,
     isFormVisible: false,
     editingMiniature: null,
     selectedIds: [],
@@ -71,123 +488,152 @@ export const useAppStore = create<AppState>((set, get) => ({
     galleryMiniature: null,
     isLoading: true,
     error: null,
+    fieldErrors: {},
+    editConflict: null,
 
-    // --- DERIVED STATE ---
-    get activeTheme() {
-        const { filters, gameSystems } = get();
-        if (filters.army) {
-            const lowercasedArmy = filters.army.toLowerCase().trim();
-            if (lowercasedArmy) {
-                for (const gameSystem in ARMY_THEMES) {
-                    if (gameSystems.includes(gameSystem)) {
-                        const armyThemesForSystem = ARMY_THEMES[gameSystem];
-                        if (armyThemesForSystem) {
-                            const armyThemeKey = Object.keys(armyThemesForSystem).find(
-                                key => key.toLowerCase() === lowercasedArmy
-                            );
-                            if (armyThemeKey) {
-                                const baseTheme = THEMES[gameSystem] || DEFAULT_THEME;
-                                const armyOverrides = armyThemesForSystem[armyThemeKey];
-                                return { ...baseTheme, ...armyOverrides };
-                            }
-                        }
-                    }
-                }
-            }
-        }
-        if (filters.gameSystem !== 'all' && THEMES[filters.gameSystem]) {
-            return THEMES[filters.gameSystem];
+    // --- ACTIONS ---
+    login: async (username, password) => {
+        set({ fieldErrors: {}, authError: null });
+        try {
+            const response = await axios.post('/api/auth/login', { username, password });
+            startSession(set, response.data);
+            return true;
+        } catch (error) {
+            console.error("Failed to log in:", error);
+            set({ authError: getErrorMessage(error) || 'Could not log in. Please try again.' });
+            return false;
         }
-        return DEFAULT_THEME;
     },
 
-    get filteredMiniatures() {
-        const { miniatures, filters, searchQuery, sortConfig } = get();
-        let result = [...miniatures];
-
-        // Apply filters
-        result = result.filter(m => {
-            const gameSystemMatch = filters.gameSystem === 'all' || m.gameSystem === filters.gameSystem;
-            const armyMatch = filters.army === '' || m.army.toLowerCase().includes(filters.army.toLowerCase());
-            return gameSystemMatch && armyMatch;
-        });
-
-        // Apply search
-        if (searchQuery.trim() !== '') {
-            const lowercasedQuery = searchQuery.toLowerCase();
-            result = result.filter(m =>
-                m.modelName.toLowerCase().includes(lowercasedQuery) ||
-                m.gameSystem.toLowerCase().includes(lowercasedQuery) ||
-                m.army.toLowerCase().includes(lowercasedQuery) ||
-                m.notes?.toLowerCase().includes(lowercasedQuery)
-            );
-        }
-
-        // Apply sorting
-        result.sort((a, b) => {
-            const aValue = a[sortConfig.key];
-            const bValue = b[sortConfig.key];
-            let comparison = 0;
-            if (typeof aValue === 'number' && typeof bValue === 'number') {
-                comparison = aValue - bValue;
-            } else if (typeof aValue === 'string' && typeof bValue === 'string') {
-                comparison = aValue.localeCompare(bValue);
-            } else if (aValue === undefined || aValue === null) {
-                return 1;
-            } else if (bValue === undefined || bValue === null) {
-                return -1;
+    register: async (username, password) => {
+        set({ fieldErrors: {}, authError: null });
+        try {
+            const response = await axios.post('/api/auth/register', { username, password });
+            startSession(set, response.data);
+            return true;
+        } catch (error) {
+            console.error("Failed to create an account:", error);
+            const fieldErrors = getFieldErrors(error);
+            if (Object.keys(fieldErrors).length > 0) {
+                set({ fieldErrors });
+            } else {
+                set({ authError: getErrorMessage(error) || 'Could not create the account. Please try again.' });
             }
-            return sortConfig.direction === 'asc' ? comparison : -comparison;
-        });
-        
-        return result;
-    },
-
-    get isAllSelected() {
-        const { miniatures, filters, searchQuery, selectedIds } = get();
-        
-        // FIX: Re-calculate filtered list to avoid recursive call to `get().filteredMiniatures`
-        let filteredMiniatures = [...miniatures];
-        filteredMiniatures = filteredMiniatures.filter(m => {
-            const gameSystemMatch = filters.gameSystem === 'all' || m.gameSystem === filters.gameSystem;
-            const armyMatch = filters.army === '' || m.army.toLowerCase().includes(filters.army.toLowerCase());
-            return gameSystemMatch && armyMatch;
-        });
-
-        if (searchQuery.trim() !== '') {
-            const lowercasedQuery = searchQuery.toLowerCase();
-            filteredMiniatures = filteredMiniatures.filter(m =>
-                m.modelName.toLowerCase().includes(lowercasedQuery) ||
-                m.gameSystem.toLowerCase().includes(lowercasedQuery) ||
-                m.army.toLowerCase().includes(lowercasedQuery) ||
-                m.notes?.toLowerCase().includes(lowercasedQuery)
-            );
+            return false;
         }
+    },
 
-        if (filteredMiniatures.length === 0) {
-            return false;
+    // Logging out also removes the collection and any unsent changes from this device.
+    logout: async () => {
+        const { currentUser } = get();
+        try {
+            await axios.post('/api/auth/logout');
+        } catch (error) {
+            // The login is forgotten here either way; the session expires on the server.
+            console.error("Failed to end the session on the server:", error);
         }
+        if (currentUser) {
+            await clearOfflineData(currentUser._id).catch(error => console.error("Failed to clear offline data:", error));
+        }
+        get().endSession();
+    },
 
-        // Check if all items in the filtered list are selected
-        return filteredMiniatures.every(m => selectedIds.includes(m._id));
+    // Forgets the login and the collection loaded with it. Unsent changes stay in IndexedDB
+    // for the next time the same user logs in.
+    endSession: () => {
+        applyLogin(null);
+        pendingOperationsRestoredFor = null;
+        set({
+            currentUser: null,
+            authToken: null,
+            miniatures: [],
+            list: EMPTY_LIST,
+            gameSystems: [],
+            workflows: {},
+            armies: [],
+            snapshots: [],
+            shares: [],
+            trash: [],
+            trashRetentionDays: null,
+            undoStack: [],
+            redoStack: [],
+            isOffline: false,
+            pendingOperations: [],
+            syncConflicts: [],
+            isFormVisible: false,
+            editingMiniature: null,
+            selectedIds: [],
+            isBulkEditing: false,
+            isGalleryOpen: false,
+            galleryMiniature: null,
+            isLoading: true,
+            error: null,
+            editConflict: null,
+        });
     },
 
-    // --- ACTIONS ---
+    clearAuthErrors: () => set({ fieldErrors: {}, authError: null }),
+
     setPage: (page) => set({ page }),
 
+    // Applies a view read from the URL. Unchanged values keep their identity so the URL sync
+    // can tell which parts actually changed.
+    applyRoute: (route) => set(state => {
+        const filtersChanged = (Object.keys(route.filters) as (keyof Filter)[]).some(key => route.filters[key] !== state.filters[key]);
+        const sortChanged = route.sortConfig.key !== state.sortConfig.key || route.sortConfig.direction !== state.sortConfig.direction;
+        return {
+            page: route.page,
+            searchQuery: route.searchQuery,
+            filters: filtersChanged ? route.filters : state.filters,
+            sortConfig: sortChanged ? route.sortConfig : state.sortConfig,
+            selectedIds: filtersChanged ? [] : state.selectedIds,
+        };
+    }),
+
     fetchInitialData: async () => {
+        const { currentUser } = get();
+        if (!currentUser) return;
         set({ isLoading: true, error: null });
+        if (pendingOperationsRestoredFor !== currentUser._id) {
+            pendingOperationsRestoredFor = currentUser._id;
+            const pendingOperations = await readPendingOperations(currentUser._id).catch(() => []);
+            if (pendingOperations.length > 0) set({ pendingOperations });
+        }
         try {
-            const [miniaturesRes, gameSystemsRes] = await Promise.all([
-                axios.get('/api/miniatures'),
-                axios.get('/api/gamesystems')
+            // The miniatures themselves are loaded a page at a time by the views that show them.
+            const [gameSystemsRes, armiesRes] = await Promise.all([
+                axios.get('/api/gamesystems'),
+                axios.get('/api/armies')
             ]);
-            set({
-                miniatures: miniaturesRes.data,
+            set(state => ({
+                // A reload follows imports and restores, which replace the collection wholesale,
+                // so the loaded miniatures are dropped and the views reload theirs.
+                miniatures: [],
+                collectionRevision: state.collectionRevision + 1,
                 gameSystems: gameSystemsRes.data.map((gs: any) => gs.name).sort(),
+                workflows: workflowsFrom(gameSystemsRes.data),
+                armies: armiesRes.data,
+                undoStack: [],
+                redoStack: [],
                 isLoading: false,
-            });
+                isOffline: false,
+            }));
+            if (get().pendingOperations.length > 0) get().syncPendingOperations();
         } catch (error) {
+            // Without the server, open the collection as it was last seen, edits included.
+            const cached = isServerUnreachable(error) ? await readCachedCollection(currentUser._id).catch(() => undefined) : undefined;
+            if (cached) {
+                set(state => ({
+                    miniatures: cached.miniatures,
+                    collectionRevision: state.collectionRevision + 1,
+                    gameSystems: cached.gameSystems,
+                    workflows: cached.workflows,
+                    armies: cached.armies,
+                    isLoading: false,
+                    isOffline: true,
+                }));
+                return;
+            }
             let errorMessage = 'An unexpected error occurred while fetching data.';
             if (axios.isAxiosError(error)) {
                  errorMessage = error.response?.data?.message || 'Failed to connect to the server. Please ensure it is running and properly configured.';
@@ -196,6 +642,223 @@ export const useAppStore = create<AppState>((set, get) => ({
         }
     },
 
+    // Loads the first page of the list for the current view.
+    loadList: () => loadListWindow(set, get, LIST_PAGE_SIZE),
+
+    loadMoreList: async () => {
+        const { list, isListLoading } = get();
+        if (!list.nextCursor || isListLoading) return;
+        const request = listRequest;
+        set({ isListLoading: true });
+        try {
+            const params = { ...queryParams(selectQuery(get())), limit: LIST_PAGE_SIZE, cursor: list.nextCursor };
+            const response = await axios.get('/api/miniatures', { params });
+            if (request !== listRequest) return;
+            set(produce((draft: AppState) => {
+                const loaded = new Set(draft.list.items.map(m => m._id));
+                draft.list.items.push(...response.data.items.filter((m: Miniature) => !loaded.has(m._id)));
+                draft.list.nextCursor = response.data.nextCursor;
+                draft.list.total = response.data.total;
+                draft.isListLoading = false;
+                rememberMiniatures(draft, response.data.items);
+            }));
+        } catch (error) {
+            console.error("Failed to load more miniatures:", error);
+            if (request === listRequest) set({ isListLoading: false });
+        }
+    },
+
+    // Reloads as many miniatures as are loaded, after the collection changed.
+    refreshList: () => loadListWindow(set, get, Math.max(LIST_PAGE_SIZE, get().list.items.length)),
+
+    // Catches up in the background on changes this tab did not see, keeping the current view,
+    // selection and undo history. The views reload their miniatures.
+    resync: async () => {
+        // Queued edits go first; syncing them ends with a resync of its own.
+        if (get().pendingOperations.length > 0) {
+            await get().syncPendingOperations();
+            return;
+        }
+        try {
+            const [idsRes, gameSystemsRes, armiesRes] = await Promise.all([
+                axios.get('/api/miniatures/ids', { params: queryParams(selectQuery(get())) }),
+                axios.get('/api/gamesystems'),
+                axios.get('/api/armies')
+            ]);
+            const viewIds = new Set<string>(idsRes.data);
+            set(produce((draft: AppState) => {
+                // The selection is of miniatures in the view, so drop those that left it.
+                draft.selectedIds = draft.selectedIds.filter(id => viewIds.has(id));
+                draft.collectionRevision++;
+                draft.gameSystems = gameSystemsRes.data.map((gs: any) => gs.name).sort();
+                draft.workflows = workflowsFrom(gameSystemsRes.data);
+                draft.armies = armiesRes.data;
+                draft.isOffline = false;
+            }));
+            if (get().page === 'trash') get().fetchTrash();
+        } catch (error) {
+            console.error("Failed to resync:", error);
+            if (isServerUnreachable(error)) set({ isOffline: true });
+        }
+    },
+
+    // Loads every miniature, for exports and imports that need the whole collection at once.
+    fetchCollection: async () => {
+        try {
+            const response = await axios.get('/api/miniatures');
+            return response.data;
+        } catch (error) {
+            console.error("Failed to fetch the collection:", error);
+            alert("Error: Could not load the collection.");
+            return null;
+        }
+    },
+
+    // Stores the whole collection on this device, so it can be opened and searched without the
+    // server. The views only load pages of it, so it is fetched whole in the background.
+    cacheCollection: async () => {
+        const { currentUser, isOffline, pendingOperations } = get();
+        // Queued edits are not on the server yet; the resync after sending them caches again.
+        if (!currentUser || isOffline || pendingOperations.length > 0) return;
+        try {
+            const response = await axios.get('/api/miniatures');
+            const { gameSystems, workflows, armies } = get();
+            if (get().currentUser !== currentUser) return;
+            await writeCachedCollection(currentUser._id, {
+                miniatures: response.data,
+                gameSystems,
+                workflows,
+                armies,
+                savedAt: new Date().toISOString(),
+            });
+        } catch (error) {
+            console.error("Failed to cache the collection:", error);
+        }
+    },
+
+    // The whole collection as far as it is known without the server: the copy stored on this
+    // device, updated with the miniatures loaded or edited since and without those deleted offline.
+    readOfflineCollection: async () => {
+        const { currentUser } = get();
+        const cached = currentUser ? await readCachedCollection(currentUser._id).catch(() => undefined) : undefined;
+        const { miniatures, pendingOperations } = get();
+        const deleted = new Set(pendingOperations.filter(op => op.kind === 'delete').map(op => op.miniature._id));
+        const byId = new Map((cached?.miniatures ?? []).map(m => [m._id, m]));
+        miniatures.forEach(m => byId.set(m._id, m));
+        return [...byId.values()].filter(m => !deleted.has(m._id));
+    },
+
+    syncPendingOperations: async () => {
+        if (get().isSyncing || get().pendingOperations.length === 0) return;
+        set({ isSyncing: true });
+        const user = get().currentUser;
+        const failures: string[] = [];
+        let reachable = true;
+        while (get().pendingOperations.length > 0) {
+            // Taken off the queue while in flight, so edits queued meanwhile are not folded into it.
+            const [operation] = get().pendingOperations;
+            set(produce((draft: AppState) => { draft.pendingOperations.shift(); }));
+            const { miniature } = operation;
+            try {
+                if (operation.kind === 'add') {
+                    const response = await axios.post('/api/miniatures', creatableFields(miniature));
+                    set(produce((draft: AppState) => adoptCreatedMiniature(draft, miniature._id, response.data)));
+                } else if (operation.kind === 'update') {
+                    const response = await axios.put(`/api/miniatures/${miniature._id}`, { ...miniature, statusNote: operation.statusNote });
+                    set(produce((draft: AppState) => putMiniatures(draft, [response.data])));
+                } else {
+                    await axios.delete(`/api/miniatures/${miniature._id}`);
+                }
+            } catch (error) {
+                if (isServerUnreachable(error)) {
+                    set(produce((draft: AppState) => { draft.pendingOperations.unshift(operation); }));
+                    reachable = false;
+                    break;
+                }
+                if (isUnauthorized(error)) {
+                    // The login ran out and the session has ended. The rest of the queue is still
+                    // stored for this user, so put this change back in front of it for their next login.
+                    if (user) {
+                        await readPendingOperations(user._id)
+                            .then(rest => writePendingOperations(user._id, [operation, ...rest]))
+                            .catch(storeError => console.error("Failed to keep an offline change:", storeError));
+                    }
+                    set({ isSyncing: false });
+                    return;
+                }
+                const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+                if (operation.kind === 'update' && status === 409 && axios.isAxiosError(error) && error.response?.data?.current) {
+                    const current: Miniature = error.response.data.current;
+                    set(produce((draft: AppState) => {
+                        putMiniatures(draft, [current]);
+                        draft.syncConflicts.push({ base: operation.base, mine: miniature, current, statusNote: operation.statusNote });
+                    }));
+                } else if (!(operation.kind === 'delete' && status === 404)) {
+                    console.error("Failed to sync an offline change:", error);
+                    failures.push(`"${miniature.modelName}": ${getErrorMessage(error) || 'could not be saved'}`);
+                    if (operation.kind === 'add') set(produce((draft: AppState) => removeMiniatures(draft, [miniature._id])));
+                }
+            }
+        }
+        set({ isSyncing: false, isOffline: !reachable });
+        if (failures.length > 0) {
+            alert(`Some changes made offline could not be saved:\n${failures.join('\n')}`);
+        }
+        // Catch up on everything else that changed while this tab was offline.
+        if (reachable) await get().resync();
+    },
+
+    resolveSyncConflict: async (merged) => {
+        const [conflict] = get().syncConflicts;
+        if (!conflict) return;
+        set(produce((draft: AppState) => { draft.syncConflicts.shift(); }));
+        if (!merged) return;
+        const statusNote = merged.status !== conflict.current.status ? conflict.statusNote : undefined;
+        try {
+            const response = await axios.put(`/api/miniatures/${merged._id}`, { ...merged, statusNote });
+            set(produce((draft: AppState) => putMiniatures(draft, [response.data])));
+        } catch (error) {
+            console.error("Failed to resolve a sync conflict:", error);
+            if (axios.isAxiosError(error) && error.response?.status === 409 && error.response.data?.current) {
+                const current: Miniature = error.response.data.current;
+                set(produce((draft: AppState) => {
+                    putMiniatures(draft, [current]);
+                    draft.syncConflicts.unshift({ ...conflict, current });
+                }));
+            } else {
+                alert(`Error: Could not save "${merged.modelName}". ${getErrorMessage(error)}`);
+            }
+        }
+    },
+
+    applyLiveEvent: (event) => {
+        switch (event.type) {
+            case 'miniatures-saved':
+                set(produce((draft: AppState) => putMiniatures(draft, event.miniatures)));
+                if (usesUnknownArmy(get().armies, event.miniatures)) get().fetchArmies();
+                break;
+            case 'miniatures-deleted':
+                set(produce((draft: AppState) => removeMiniatures(draft, event.ids)));
+                if (get().page === 'trash') get().fetchTrash();
+                break;
+            case 'trash-changed':
+                if (get().page === 'trash') get().fetchTrash();
+                break;
+            case 'gamesystems-changed':
+                set({
+                    gameSystems: event.gameSystems.map(gs => gs.name).sort(),
+                    workflows: workflowsFrom(event.gameSystems),
+                });
+                break;
+            case 'armies-changed':
+                set({ armies: event.armies });
+                break;
+            case 'resync':
+                get().resync();
+                break;
+        }
+    },
+
     addGameSystem: async (name) => {
         if (get().gameSystems.some(gs => gs.toLowerCase() === name.toLowerCase())) {
             alert('This game system already exists.');
@@ -206,6 +869,7 @@ export const useAppStore = create<AppState>((set, get) => ({
             set(produce((draft: AppState) => {
                 draft.gameSystems.push(response.data.name);
                 draft.gameSystems.sort();
+                draft.workflows[response.data.name] = response.data.stages;
             }));
             return true;
         } catch (error) {
@@ -215,6 +879,173 @@ export const useAppStore = create<AppState>((set, get) => ({
         }
     },
 
+    renameGameSystem: async (name, newName) => {
+        try {
+            const response = await axios.put(`/api/gamesystems/${encodeURIComponent(name)}`, { name: newName });
+            const renamed: string = response.data.name;
+            set(produce((draft: AppState) => {
+                moveGameSystem(draft, name, renamed);
+                draft.gameSystems = [...draft.gameSystems.filter(gs => gs !== name), renamed].sort();
+                draft.workflows[renamed] = draft.workflows[name];
+                delete draft.workflows[name];
+            }));
+            get().fetchArmies();
+            return true;
+        } catch (error) {
+            console.error('Failed to rename game system:', error);
+            alert(`Error renaming game system. ${getErrorMessage(error)}`);
+            return false;
+        }
+    },
+
+    mergeGameSystem: async (name, target) => {
+        try {
+            await axios.post(`/api/gamesystems/${encodeURIComponent(name)}/merge`, { target });
+            set(produce((draft: AppState) => {
+                moveGameSystem(draft, name, target);
+                draft.gameSystems = draft.gameSystems.filter(gs => gs !== name);
+            }));
+            // The target may have gained stages that only the merged system had.
+            get().fetchWorkflows();
+            get().fetchArmies();
+            return true;
+        } catch (error) {
+            console.error('Failed to merge game systems:', error);
+            alert(`Error merging game systems. ${getErrorMessage(error)}`);
+            return false;
+        }
+    },
+
+    deleteGameSystem: async (name, reassignTo) => {
+        try {
+            await axios.delete(`/api/gamesystems/${encodeURIComponent(name)}`, { params: reassignTo ? { reassignTo } : undefined });
+            set(produce((draft: AppState) => {
+                if (reassignTo) moveGameSystem(draft, name, reassignTo);
+                // Without a target, the server revoked the system's shares.
+                draft.shares = draft.shares.filter(share => share.gameSystem !== name);
+                if (draft.filters.gameSystem === name) draft.filters.gameSystem = 'all';
+                draft.gameSystems = draft.gameSystems.filter(gs => gs !== name);
+            }));
+            get().fetchWorkflows();
+            get().fetchArmies();
+            return true;
+        } catch (error) {
+            console.error('Failed to delete game system:', error);
+            alert(`Error deleting game system. ${getErrorMessage(error)}`);
+            return false;
+        }
+    },
+
+    fetchWorkflows: async () => {
+        try {
+            const response = await axios.get('/api/gamesystems');
+            set({ workflows: workflowsFrom(response.data) });
+        } catch (error) {
+            console.error('Failed to fetch workflows:', error);
+        }
+    },
+
+    updateWorkflow: async (gameSystem, stages, renames) => {
+        try {
+            const response = await axios.put(`/api/gamesystems/${encodeURIComponent(gameSystem)}/stages`, { stages, renames });
+            const saved: WorkflowStage[] = response.data.stages;
+            set(produce((draft: AppState) => {
+                draft.workflows[gameSystem] = saved;
+                localMiniatures(draft).forEach(m => {
+                    if (m.gameSystem === gameSystem && renames[m.status] !== undefined) renameMiniature(m, { status: renames[m.status] });
+                });
+                if (draft.filters.status !== 'all' && renames[draft.filters.status] !== undefined) {
+                    draft.filters.status = renames[draft.filters.status];
+                }
+            }));
+            return true;
+        } catch (error) {
+            console.error('Failed to update workflow:', error);
+            alert(`Error saving the workflow. ${getErrorMessage(error)}`);
+            return false;
+        }
+    },
+
+    fetchArmies: async () => {
+        try {
+            const response = await axios.get('/api/armies');
+            set({ armies: response.data });
+        } catch (error) {
+            console.error('Failed to fetch armies:', error);
+        }
+    },
+
+    createArmy: async (name, gameSystem) => {
+        try {
+            const response = await axios.post('/api/armies', { name, gameSystem });
+            set(produce((draft: AppState) => {
+                draft.armies.push(response.data);
+            }));
+            return true;
+        } catch (error) {
+            console.error('Failed to add army:', error);
+            alert(`Error adding army. ${getErrorMessage(error)}`);
+            return false;
+        }
+    },
+
+    renameArmy: async (id, name) => {
+        const army = get().armies.find(a => a._id === id);
+        if (!army) return false;
+        try {
+            const response = await axios.put(`/api/armies/${id}`, { name });
+            const renamed: Army = response.data.army;
+            set(produce((draft: AppState) => {
+                moveArmy(draft, army.gameSystem, army.name, renamed.name);
+                draft.armies = draft.armies.map(a => (a._id === id ? renamed : a));
+            }));
+            return true;
+        } catch (error) {
+            console.error('Failed to rename army:', error);
+            alert(`Error renaming army. ${getErrorMessage(error)}`);
+            return false;
+        }
+    },
+
+    mergeArmy: async (id, targetId) => {
+        const { armies } = get();
+        const source = armies.find(a => a._id === id);
+        const target = armies.find(a => a._id === targetId);
+        if (!source || !target) return false;
+        try {
+            await axios.post(`/api/armies/${id}/merge`, { targetId });
+            set(produce((draft: AppState) => {
+                moveArmy(draft, source.gameSystem, source.name, target.name);
+                draft.armies = draft.armies.filter(a => a._id !== id);
+            }));
+            return true;
+        } catch (error) {
+            console.error('Failed to merge armies:', error);
+            alert(`Error merging armies. ${getErrorMessage(error)}`);
+            return false;
+        }
+    },
+
+    deleteArmy: async (id, reassignTo) => {
+        const { armies } = get();
+        const army = armies.find(a => a._id === id);
+        const target = armies.find(a => a._id === reassignTo);
+        if (!army) return false;
+        try {
+            await axios.delete(`/api/armies/${id}`, { params: reassignTo ? { reassignTo } : undefined });
+            set(produce((draft: AppState) => {
+                if (target) moveArmy(draft, army.gameSystem, army.name, target.name);
+                draft.shares = draft.shares.filter(share => share.gameSystem !== army.gameSystem || share.army !== army.name);
+                draft.armies = draft.armies.filter(a => a._id !== id);
+            }));
+            return true;
+        } catch (error) {
+            console.error('Failed to delete army:', error);
+            alert(`Error deleting army. ${getErrorMessage(error)}`);
+            return false;
+        }
+    },
+
     setFilters: (newFilters) => set(produce((draft: AppState) => {
         draft.filters = { ...draft.filters, ...newFilters };
         draft.selectedIds = [];
@@ -228,72 +1059,392 @@ export const useAppStore = create<AppState>((set, get) => ({
             : { key, direction: 'asc' }
     })),
 
-    addMiniature: async (miniatureData) => {
+    addMiniature: async (miniatureData, images) => {
+        const addOffline = () => {
+            const miniature: Miniature = { ...miniatureData, _id: createLocalId(), statusHistory: [] };
+            set(produce((draft: AppState) => {
+                applyOffline(draft, { kind: 'add', miniature });
+                draft.isFormVisible = false;
+                draft.editingMiniature = null;
+                draft.fieldErrors = {};
+            }));
+            if (images && images.length > 0) {
+                alert("You are offline, so the miniature was saved without its images. Add them once you are back online.");
+            }
+        };
+        if (get().isOffline || get().pendingOperations.length > 0) {
+            addOffline();
+            return;
+        }
         try {
             const response = await axios.post('/api/miniatures', miniatureData);
+            let created: Miniature = response.data;
+            if (images && images.length > 0) {
+                try {
+                    created = (await postImages(created._id, images)).data;
+                } catch (error) {
+                    // The miniature itself was saved, so keep it and only report the failed upload.
+                    console.error("Failed to upload images:", error);
+                    alert("The miniature was added, but its images could not be uploaded.");
+                }
+            }
             set(produce((draft: AppState) => {
-                draft.miniatures.push(response.data);
+                putMiniatures(draft, [created]);
+                recordHistory(draft, { label: `Add "${created.modelName}"`, before: [], after: [created] });
                 draft.isFormVisible = false;
                 draft.editingMiniature = null;
+                draft.fieldErrors = {};
             }));
+            if (usesUnknownArmy(get().armies, [created])) get().fetchArmies();
         } catch (error) {
             console.error("Failed to add miniature:", error);
-            alert("Error: Could not add miniature.");
+            if (isServerUnreachable(error)) {
+                set({ isOffline: true });
+                addOffline();
+                return;
+            }
+            const fieldErrors = getFieldErrors(error);
+            if (Object.keys(fieldErrors).length > 0) {
+                set({ fieldErrors });
+            } else {
+                alert("Error: Could not add miniature.");
+            }
         }
     },
 
-    updateMiniature: async (miniature) => {
+    updateMiniature: async (miniature, statusNote) => {
+        // The version the user's changes were made on: the one the form was opened with, or the
+        // saved one they merged with in the conflict dialog. The loaded copy is no use here, as
+        // live updates replace it with whatever was saved since.
+        const { editConflict, editingMiniature } = get();
+        const previous = editConflict?.current
+            ?? (editingMiniature?._id === miniature._id ? editingMiniature : get().miniatures.find(m => m._id === miniature._id));
+        const updateOffline = () => set(produce((draft: AppState) => {
+            applyOffline(draft, { kind: 'update', base: previous || miniature, miniature, statusNote });
+            draft.isFormVisible = false;
+            draft.editingMiniature = null;
+            draft.fieldErrors = {};
+        }));
+        if (get().isOffline || get().pendingOperations.length > 0) {
+            updateOffline();
+            return;
+        }
         try {
-            const response = await axios.put(`/api/miniatures/${miniature._id}`, miniature);
+            const response = await axios.put(`/api/miniatures/${miniature._id}`, { ...miniature, statusNote });
             set(produce((draft: AppState) => {
-                const index = draft.miniatures.findIndex(m => m._id === miniature._id);
-                if (index !== -1) draft.miniatures[index] = response.data;
+                putMiniatures(draft, [response.data]);
+                if (previous) recordHistory(draft, { label: `Edit "${previous.modelName}"`, before: [previous], after: [response.data] });
                 draft.isFormVisible = false;
                 draft.editingMiniature = null;
+                draft.fieldErrors = {};
+                draft.editConflict = null;
             }));
+            if (usesUnknownArmy(get().armies, [response.data])) get().fetchArmies();
         } catch (error) {
             console.error("Failed to update miniature:", error);
-            alert("Error: Could not update miniature.");
+            if (isServerUnreachable(error)) {
+                set({ isOffline: true });
+                updateOffline();
+                return;
+            }
+            if (axios.isAxiosError(error) && error.response?.status === 409 && error.response.data?.current) {
+                const current: Miniature = error.response.data.current;
+                set(produce((draft: AppState) => {
+                    putMiniatures(draft, [current]);
+                    draft.editConflict = { base: previous || miniature, mine: miniature, current, statusNote };
+                    draft.fieldErrors = {};
+                }));
+                return;
+            }
+            const fieldErrors = getFieldErrors(error);
+            if (Object.keys(fieldErrors).length > 0) {
+                set({ fieldErrors });
+            } else {
+                alert("Error: Could not update miniature.");
+            }
         }
     },
 
     deleteMiniature: async (id) => {
+        const deleted = get().miniatures.find(m => m._id === id);
+        const deleteOffline = () => {
+            if (deleted) set(produce((draft: AppState) => applyOffline(draft, { kind: 'delete', miniature: deleted })));
+        };
+        if (get().isOffline || get().pendingOperations.length > 0) {
+            deleteOffline();
+            return;
+        }
         try {
             await axios.delete(`/api/miniatures/${id}`);
             set(produce((draft: AppState) => {
-                draft.miniatures = draft.miniatures.filter(m => m._id !== id);
+                removeMiniatures(draft, [id]);
+                if (deleted) recordHistory(draft, { label: `Delete "${deleted.modelName}"`, before: [deleted], after: [] });
             }));
         } catch (error) {
             console.error("Failed to delete miniature:", error);
+            if (isServerUnreachable(error)) {
+                set({ isOffline: true });
+                deleteOffline();
+                return;
+            }
             alert("Error: Could not delete miniature.");
         }
     },
 
+    undo: async () => {
+        const { undoStack, isReplaying, miniatures } = get();
+        const entry = undoStack[undoStack.length - 1];
+        if (!entry || isReplaying) return;
+        set({ isReplaying: true });
+        try {
+            const { removedIds, saved, conflicts } = await replayHistory(entry.after, entry.before, miniatures);
+            // The entry keeps the copies now on the server, so replaying it back checks their versions.
+            const written = [...saved, ...conflicts.map(conflict => conflict.current)];
+            set(produce((draft: AppState) => {
+                removeMiniatures(draft, removedIds);
+                putMiniatures(draft, written);
+                draft.syncConflicts.push(...conflicts);
+                draft.undoStack.pop();
+                draft.redoStack.push({ ...entry, before: written });
+                draft.isReplaying = false;
+            }));
+            if (usesUnknownArmy(get().armies, saved)) get().fetchArmies();
+        } catch (error) {
+            console.error('Failed to undo:', error);
+            alert(`Error: Could not undo ${entry.label}. ${getErrorMessage(error)}`);
+            set({ isReplaying: false });
+        }
+    },
+
+    redo: async () => {
+        const { redoStack, isReplaying, miniatures } = get();
+        const entry = redoStack[redoStack.length - 1];
+        if (!entry || isReplaying) return;
+        set({ isReplaying: true });
+        try {
+            const { removedIds, saved, conflicts } = await replayHistory(entry.before, entry.after, miniatures);
+            // The entry keeps the copies now on the server, so replaying it back checks their versions.
+            const written = [...saved, ...conflicts.map(conflict => conflict.current)];
+            set(produce((draft: AppState) => {
+                removeMiniatures(draft, removedIds);
+                putMiniatures(draft, written);
+                draft.syncConflicts.push(...conflicts);
+                draft.redoStack.pop();
+                draft.undoStack.push({ ...entry, after: written });
+                draft.isReplaying = false;
+            }));
+            if (usesUnknownArmy(get().armies, saved)) get().fetchArmies();
+        } catch (error) {
+            console.error('Failed to redo:', error);
+            alert(`Error: Could not redo ${entry.label}. ${getErrorMessage(error)}`);
+            set({ isReplaying: false });
+        }
+    },
+
     importData: async (miniaturesToImport) => {
         try {
             await axios.post('/api/miniatures/bulk-replace', { miniatures: miniaturesToImport });
             
             // After the database is overwritten, refetch all data to sync the client.
-            await get().fetchInitialData();
+            await Promise.all([get().fetchInitialData(), get().fetchSnapshots()]);
     
             // Also, reset filters, search, and selections. This ensures that the user
             // sees the newly imported collection without any old filters hiding the data.
             set({
-                filters: { gameSystem: 'all', army: '' },
+                filters: DEFAULT_FILTERS,
                 searchQuery: '',
                 selectedIds: [],
             });
         } catch (error) {
             console.error("Failed to import data:", error);
-            alert("Error: Could not import data.");
+            alertImportError(error);
             // Attempt to refetch data even on failure to sync with whatever state the DB is in.
             await get().fetchInitialData();
         }
     },
 
-    startEditing: (miniature) => set({ editingMiniature: miniature, isFormVisible: true }),
-    startAdding: () => set({ editingMiniature: null, isFormVisible: true }),
-    stopEditing: () => set({ editingMiniature: null, isFormVisible: false }),
+    mergeImport: async (plan) => {
+        try {
+            const response = await axios.post('/api/miniatures/bulk-merge', plan);
+            await Promise.all([get().fetchInitialData(), get().fetchSnapshots()]);
+            set({ selectedIds: [] });
+            // Rows whose miniature was deleted or edited after the comparison are left out.
+            if (response.data.skipped?.length > 0) alert(response.data.message);
+            return true;
+        } catch (error) {
+            console.error("Failed to merge import:", error);
+            alertImportError(error);
+            await get().fetchInitialData();
+            return false;
+        }
+    },
+
+    fetchSnapshots: async () => {
+        try {
+            const response = await axios.get('/api/snapshots');
+            set({ snapshots: response.data });
+        } catch (error) {
+            console.error("Failed to fetch snapshots:", error);
+        }
+    },
+
+    restoreSnapshot: async (id) => {
+        try {
+            await axios.post(`/api/snapshots/${id}/restore`);
+            await Promise.all([get().fetchInitialData(), get().fetchSnapshots()]);
+            set({
+                filters: DEFAULT_FILTERS,
+                searchQuery: '',
+                selectedIds: [],
+            });
+            return true;
+        } catch (error) {
+            console.error("Failed to restore snapshot:", error);
+            alert("Error: Could not restore the snapshot. Your collection was not changed.");
+            return false;
+        }
+    },
+
+    deleteSnapshot: async (id) => {
+        try {
+            await axios.delete(`/api/snapshots/${id}`);
+            set(produce((draft: AppState) => {
+                draft.snapshots = draft.snapshots.filter(s => s._id !== id);
+            }));
+        } catch (error) {
+            console.error("Failed to delete snapshot:", error);
+            alert("Error: Could not delete the snapshot.");
+        }
+    },
+
+    fetchShares: async () => {
+        try {
+            const response = await axios.get('/api/shares');
+            set({ shares: response.data });
+        } catch (error) {
+            console.error("Failed to fetch shared links:", error);
+        }
+    },
+
+    createShare: async (gameSystem, army) => {
+        try {
+            const response = await axios.post('/api/shares', { gameSystem, army });
+            set(produce((draft: AppState) => {
+                draft.shares.unshift(response.data);
+            }));
+            return response.data;
+        } catch (error) {
+            console.error("Failed to create shared link:", error);
+            alert(`Error creating the link. ${getErrorMessage(error)}`);
+            return null;
+        }
+    },
+
+    revokeShare: async (id) => {
+        try {
+            await axios.delete(`/api/shares/${id}`);
+            set(produce((draft: AppState) => {
+                draft.shares = draft.shares.filter(s => s._id !== id);
+            }));
+        } catch (error) {
+            console.error("Failed to revoke shared link:", error);
+            alert("Error: Could not revoke the link.");
+        }
+    },
+
+    fetchTrash: async () => {
+        try {
+            const response = await axios.get('/api/trash');
+            set({ trash: response.data.miniatures, trashRetentionDays: response.data.retentionDays });
+        } catch (error) {
+            console.error("Failed to fetch trash:", error);
+        }
+    },
+
+    restoreFromTrash: async (ids) => {
+        try {
+            const response = await axios.post('/api/trash/restore', { ids });
+            const restored: Miniature[] = response.data;
+            set(produce((draft: AppState) => {
+                draft.trash = draft.trash.filter(m => !ids.includes(m._id));
+                putMiniatures(draft, restored);
+            }));
+            if (usesUnknownArmy(get().armies, restored)) get().fetchArmies();
+        } catch (error) {
+            console.error("Failed to restore from trash:", error);
+            alert(`Error: Could not restore the miniatures. ${getErrorMessage(error)}`);
+        }
+    },
+
+    purgeFromTrash: async (ids) => {
+        try {
+            await axios.post('/api/trash/purge', { ids });
+            set(produce((draft: AppState) => {
+                draft.trash = draft.trash.filter(m => !ids.includes(m._id));
+            }));
+        } catch (error) {
+            console.error("Failed to purge from trash:", error);
+            alert("Error: Could not delete the miniatures permanently.");
+        }
+    },
+
+    emptyTrash: async () => {
+        try {
+            await axios.delete('/api/trash');
+            set({ trash: [] });
+        } catch (error) {
+            console.error("Failed to empty trash:", error);
+            alert("Error: Could not empty the trash.");
+        }
+    },
+
+    setTrashRetention: async (days) => {
+        try {
+            await axios.put('/api/trash/retention', { days });
+            set({ trashRetentionDays: days });
+            // Shortening the retention period purges older miniatures straight away.
+            await get().fetchTrash();
+            return true;
+        } catch (error) {
+            console.error("Failed to update trash retention:", error);
+            alert(`Error: Could not change how long the trash is kept. ${getErrorMessage(error)}`);
+            return false;
+        }
+    },
+
+    fetchBackup: async () => {
+        try {
+            const response = await axios.get('/api/backup');
+            return response.data;
+        } catch (error) {
+            console.error("Failed to create backup:", error);
+            alert("Error: Could not create a backup.");
+            return null;
+        }
+    },
+
+    restoreBackup: async (backup) => {
+        try {
+            await axios.post('/api/backup/restore', backup);
+            await Promise.all([get().fetchInitialData(), get().fetchSnapshots()]);
+            set({
+                filters: DEFAULT_FILTERS,
+                searchQuery: '',
+                selectedIds: [],
+            });
+            return true;
+        } catch (error) {
+            console.error("Failed to restore backup:", error);
+            alertImportError(error);
+            await get().fetchInitialData();
+            return false;
+        }
+    },
+
+    startEditing: (miniature) => set({ editingMiniature: miniature, isFormVisible: true, fieldErrors: {}, editConflict: null }),
+    startAdding: () => set({ editingMiniature: null, isFormVisible: true, fieldErrors: {}, editConflict: null }),
+    stopEditing: () => set({ editingMiniature: null, isFormVisible: false, fieldErrors: {}, editConflict: null }),
+    dismissConflict: () => set({ editConflict: null }),
 
     toggleSelection: (id) => set(produce((draft: AppState) => {
         const index = draft.selectedIds.indexOf(id);
@@ -304,78 +1455,177 @@ export const useAppStore = create<AppState>((set, get) => ({
         }
     })),
 
-    toggleSelectAll: () => {
-        // FIX: Accessing getters via get() is an anti-pattern.
-        // Re-calculate the necessary data directly from the state.
-        const { miniatures, filters, searchQuery, selectedIds } = get();
-
-        let filteredMiniatures = [...miniatures];
-        filteredMiniatures = filteredMiniatures.filter(m => {
-            const gameSystemMatch = filters.gameSystem === 'all' || m.gameSystem === filters.gameSystem;
-            const armyMatch = filters.army === '' || m.army.toLowerCase().includes(filters.army.toLowerCase());
-            return gameSystemMatch && armyMatch;
-        });
-
-        if (searchQuery.trim() !== '') {
-            const lowercasedQuery = searchQuery.toLowerCase();
-            filteredMiniatures = filteredMiniatures.filter(m =>
-                m.modelName.toLowerCase().includes(lowercasedQuery) ||
-                m.gameSystem.toLowerCase().includes(lowercasedQuery) ||
-                m.army.toLowerCase().includes(lowercasedQuery) ||
-                m.notes?.toLowerCase().includes(lowercasedQuery)
-            );
-        }
-        
-        const isAllSelected = filteredMiniatures.length > 0 && filteredMiniatures.every(m => selectedIds.includes(m._id));
-
-        if (isAllSelected) {
+    // Selects every miniature matching the current view, not only the loaded pages, by asking
+    // the server for their ids. Without the server, the collection stored on this device is searched instead.
+    toggleSelectAll: async () => {
+        if (selectSelection(get()).isAllSelected) {
             set({ selectedIds: [] });
-        } else {
-            set({ selectedIds: filteredMiniatures.map(m => m._id) });
+            return;
+        }
+        const query = selectQuery(get());
+        try {
+            const response = await axios.get('/api/miniatures/ids', { params: queryParams(query) });
+            set({ selectedIds: response.data });
+        } catch (error) {
+            console.error("Failed to select all miniatures:", error);
+            if (isServerUnreachable(error)) {
+                const matching = queryMiniatures(await get().readOfflineCollection(), query, get().workflows);
+                set({ selectedIds: matching.map(m => m._id), isOffline: true });
+                return;
+            }
+            alert("Error: Could not select all miniatures.");
         }
     },
 
     clearSelection: () => set({ selectedIds: [] }),
-    startBulkEditing: () => set({ isBulkEditing: true }),
-    stopBulkEditing: () => set({ isBulkEditing: false }),
+
+    // The edit form offers choices based on the selected miniatures, so they are loaded first.
+    startBulkEditing: async () => {
+        if (!get().isOffline) {
+            try {
+                await loadSelection(set, get);
+            } catch (error) {
+                console.error("Failed to load the selected miniatures:", error);
+                if (!isServerUnreachable(error)) {
+                    alert("Error: Could not load the selected miniatures.");
+                    return;
+                }
+                set({ isOffline: true });
+            }
+        }
+        set({ isBulkEditing: true, fieldErrors: {} });
+    },
+    stopBulkEditing: () => set({ isBulkEditing: false, fieldErrors: {} }),
 
     deleteSelected: async () => {
         const { selectedIds } = get();
+        // Offline, deletions are queued with the whole miniature, as stored on this device.
+        const deleteOffline = async () => {
+            const deleted = await offlineSelection(get, 'deleted');
+            set(produce((draft: AppState) => {
+                deleted.forEach(miniature => applyOffline(draft, { kind: 'delete', miniature }));
+                deselect(draft, deleted);
+            }));
+        };
+        if (get().isOffline || get().pendingOperations.length > 0) {
+            await deleteOffline();
+            return;
+        }
         try {
+            // Undo writes the deleted miniatures back whole, so every one of them is needed.
+            const deleted = await loadSelection(set, get);
             await axios.post('/api/miniatures/bulk-delete', { ids: selectedIds });
             set(produce((draft: AppState) => {
-                draft.miniatures = draft.miniatures.filter(m => !selectedIds.includes(m._id));
+                removeMiniatures(draft, selectedIds);
+                recordHistory(draft, { label: `Delete ${deleted.length} miniatures`, before: deleted, after: [] });
                 draft.selectedIds = [];
             }));
         } catch (error) {
             console.error("Failed to delete selected miniatures:", error);
+            if (isServerUnreachable(error)) {
+                set({ isOffline: true });
+                await deleteOffline();
+                return;
+            }
             alert("Error: Could not delete selected miniatures.");
         }
     },
     
-    updateSelected: async (updates) => {
+    updateSelected: async (updates, statusNote) => {
         const { selectedIds } = get();
+        // Offline, each miniature is queued as its own edit so each gets its own conflict check.
+        const updateOffline = async () => {
+            const previous = await offlineSelection(get, 'edited');
+            set(produce((draft: AppState) => {
+                previous.forEach(base => applyOffline(draft, {
+                    kind: 'update',
+                    base,
+                    miniature: { ...base, ...updates },
+                    statusNote: updates.status && updates.status !== base.status ? statusNote : undefined,
+                }));
+                deselect(draft, previous);
+                draft.isBulkEditing = false;
+                draft.fieldErrors = {};
+            }));
+        };
+        if (get().isOffline || get().pendingOperations.length > 0) {
+            await updateOffline();
+            return;
+        }
         try {
-            const response = await axios.post('/api/miniatures/bulk-update', { ids: selectedIds, updates });
-            const validUpdatedMinis = Array.isArray(response.data)
+            // Undo writes the miniatures back as they were, so every one of them is needed.
+            const previous = await loadSelection(set, get);
+            const response = await axios.post('/api/miniatures/bulk-update', { ids: selectedIds, updates, statusNote });
+            const validUpdatedMinis: Miniature[] = Array.isArray(response.data)
                 ? response.data.filter((m: any): m is Miniature => m && m._id && m.modelName)
                 : [];
-            const updatedMinisMap = new Map(validUpdatedMinis.map((m: Miniature) => [m._id, m]));
             set(produce((draft: AppState) => {
-                draft.miniatures.forEach((mini, index) => {
-                    if (updatedMinisMap.has(mini._id)) {
-                        draft.miniatures[index] = updatedMinisMap.get(mini._id)!;
-                    }
-                });
+                putMiniatures(draft, validUpdatedMinis);
+                recordHistory(draft, { label: `Edit ${previous.length} miniatures`, before: previous, after: validUpdatedMinis });
                 draft.selectedIds = [];
                 draft.isBulkEditing = false;
+                draft.fieldErrors = {};
             }));
+            if (usesUnknownArmy(get().armies, validUpdatedMinis)) get().fetchArmies();
         } catch (error) {
             console.error("Failed to update selected miniatures:", error);
-            alert("Error: Could not update selected miniatures.");
+            if (isServerUnreachable(error)) {
+                set({ isOffline: true });
+                await updateOffline();
+                return;
+            }
+            const fieldErrors = getFieldErrors(error);
+            if (Object.keys(fieldErrors).length > 0) {
+                set({ fieldErrors });
+            } else {
+                alert("Error: Could not update selected miniatures.");
+            }
         }
     },
     
+    uploadImages: async (id, files) => {
+        if (!canChangeImages(get(), id)) return;
+        try {
+            const response = await postImages(id, files);
+            set(produce((draft: AppState) => replaceMiniature(draft, response.data)));
+        } catch (error) {
+            console.error("Failed to upload images:", error);
+            const message = axios.isAxiosError(error) ? error.response?.data?.message : undefined;
+            alert(`Error: Could not upload images.${message ? ` ${message}` : ''}`);
+        }
+    },
+
+    deleteImage: async (id, url) => {
+        if (!canChangeImages(get(), id)) return;
+        try {
+            const response = await axios.delete(`/api/miniatures/${id}/images`, { data: { url } });
+            set(produce((draft: AppState) => replaceMiniature(draft, response.data)));
+        } catch (error) {
+            console.error("Failed to delete image:", error);
+            alert("Error: Could not delete image.");
+        }
+    },
+
+    reorderImages: async (id, images) => {
+        if (!canChangeImages(get(), id)) return;
+        try {
+            const response = await axios.put(`/api/miniatures/${id}/images`, { images });
+            set(produce((draft: AppState) => replaceMiniature(draft, response.data)));
+        } catch (error) {
+            console.error("Failed to reorder images:", error);
+            alert("Error: Could not reorder images.");
+        }
+    },
+
     openImageGallery: (miniature) => set({ isGalleryOpen: true, galleryMiniature: miniature }),
     closeImageGallery: () => set({ isGalleryOpen: false, galleryMiniature: null }),
 }));
+
+// A session that expired or was ended elsewhere sends this tab back to the login page. Failed
+// logins are 401s too, but those are reported by the login form instead.
+axios.interceptors.response.use(undefined, (error) => {
+    if (isUnauthorized(error) && !error.config?.url?.startsWith('/api/auth/') && useAppStore.getState().currentUser) {
+        useAppStore.getState().endSession();
+    }
+    return Promise.reject(error);
+});
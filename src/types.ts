@@ -9,14 +9,24 @@ export enum GameSystem {
     Warhammer40k = "Warhammer 40,000"
 }
 
-export enum Status {
-    Purchased = "Purchased",
-    Printed = "Printed",
-    Assembled = "Assembled",
-    Primed = "Primed",
-    Painted = "Painted",
-    Based = "Based",
-    ReadyForGame = "Ready for Game"
+// The name of a stage in a game system's workflow, e.g. "Primed". Each game system defines
+// its own stages, so any stage name is a valid status somewhere.
+export type Status = string;
+
+// One step of a game system's painting workflow. Stages are ordered from first to last.
+export interface WorkflowStage {
+    name: string;
+    color: string; // hex color, e.g. "#22c55e"
+    // Whether miniatures at this stage count towards the painted totals.
+    countsAsPainted: boolean;
+}
+
+// A single recorded change of a miniature's status.
+export interface StatusChange {
+    from: Status | null; // null for the status the miniature was created with
+    to: Status;
+    changedAt: string; // ISO 8601 timestamp, set by the server
+    note?: string;
 }
 
 export interface Miniature {
@@ -29,11 +39,117 @@ export interface Miniature {
     notes?: string;
     // FIX: Add optional 'images' property to support the image gallery feature.
     images?: string[];
+    // Server-generated thumbnail URLs, index-aligned with `images`. Null where none exists.
+    thumbnails?: (string | null)[];
+    // Every status transition, oldest first. Maintained by the server.
+    statusHistory?: StatusChange[];
+    // When the miniature was moved to the trash. Only set on miniatures listed in the trash.
+    deletedAt?: string;
+    // Incremented by the server on every edit. Updates send back the version they started
+    // from, and the server refuses them if the miniature has been saved since.
+    version?: number;
+}
+
+// One page of the collection list, as sent by `GET /api/miniatures?limit=...`.
+export interface MiniaturePage {
+    items: Miniature[];
+    nextCursor: string | null; // passed back as `cursor` for the next page; null on the last
+    total: number; // how many miniatures the whole list has
+}
+
+// The miniatures of one name and status in an army, counted together, as sent by
+// `GET /api/miniatures/summary`. The dashboard charts and the settings draw from these, so
+// they need neither whole miniatures nor the whole collection.
+export interface ModelGroup {
+    gameSystem: string;
+    army: string;
+    modelName: string;
+    status: Status;
+    modelCount: number; // models in all of the group's miniatures
+    miniatureCount: number;
+}
+
+// A logged-in account. Every miniature, game system and army belongs to one.
+export interface User {
+    _id: string;
+    username: string;
+}
+
+// An army or faction within a game system. Miniatures refer to it by name in `army`.
+export interface Army {
+    _id: string;
+    name: string;
+    gameSystem: string;
 }
 
+// One undoable change to the collection: the miniatures it touched, before and after.
+// A miniature only in `before` was deleted by the change; one only in `after` was created.
+export interface HistoryEntry {
+    label: string; // e.g. 'Delete "Intercessors"', shown on the undo and redo buttons
+    before: Miniature[];
+    after: Miniature[];
+}
+
+// An update the server refused because someone else saved the miniature first.
+export interface EditConflict {
+    base: Miniature; // the miniature as it was when the user started editing
+    mine: Miniature; // what the user tried to save
+    current: Miniature; // what the server has now
+    statusNote?: string;
+}
+
+// A change made while the server was unreachable, replayed in order once it is back.
+// Miniatures added offline carry a local id; updates keep the miniature they started from
+// so the server can tell whether someone else changed it in the meantime.
+export type PendingOperation =
+    | { kind: 'add'; miniature: Miniature }
+    | { kind: 'update'; base: Miniature; miniature: Miniature; statusNote?: string }
+    | { kind: 'delete'; miniature: Miniature };
+
+// A change another tab or browser made, pushed by the server's live event stream.
+export type LiveEvent =
+    | { type: 'miniatures-saved'; miniatures: Miniature[] }
+    | { type: 'miniatures-deleted'; ids: string[] }
+    | { type: 'trash-changed' }
+    | { type: 'gamesystems-changed'; gameSystems: { name: string; stages: WorkflowStage[] }[] }
+    | { type: 'armies-changed'; armies: Army[] }
+    | { type: 'resync' };
+
+// A saved copy of the whole collection, taken by the server before an import overwrites it.
+export interface Snapshot {
+    _id: string;
+    createdAt: string; // ISO 8601 timestamp
+    itemCount: number;
+    reason: string;
+}
+
+// A public, read-only link to the whole collection, one game system or one of its armies.
+// Anyone with the link can view it without logging in until it is revoked.
+export interface Share {
+    _id: string;
+    token: string;
+    gameSystem: string | null; // null for the whole collection
+    army: string | null; // only set together with gameSystem
+    createdAt: string; // ISO 8601 timestamp
+}
+
+// What a shared link shows, as served to visitors. Miniatures carry only their public fields.
+export interface Showcase {
+    owner: string; // the username of the collection's owner
+    gameSystem: string | null;
+    army: string | null;
+    miniatures: Miniature[];
+    // The workflows of the game systems the miniatures belong to, keyed by name.
+    workflows: Record<string, WorkflowStage[]>;
+}
+
+// The top-level pages of the app, each with its own URL.
+export type Page = 'dashboard' | 'collection' | 'data' | 'settings' | 'trash';
+
 export interface Filter {
     gameSystem: string | 'all';
     army: string;
+    status: Status | 'all';
 }
 
 export type SortConfig = {
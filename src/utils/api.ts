@@ -0,0 +1,56 @@
+import axios from 'axios';
+
+// A single invalid field, as reported in the `errors` list of a 400 response from the API.
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
+// Field errors keyed by field name, ready for inline display next to form inputs.
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Extracts the per-field validation errors from a failed API request.
+ * Returns an empty object when the error is not a validation failure.
+ */
+export function getFieldErrors(error: unknown): FieldErrors {
+    if (!axios.isAxiosError(error) || error.response?.status !== 400) {
+        return {};
+    }
+    const errors: FieldError[] = Array.isArray(error.response.data?.errors) ? error.response.data.errors : [];
+    return errors.reduce<FieldErrors>((result, { field, message }) => {
+        // Keep the first message when a field has several problems.
+        if (!result[field]) result[field] = message;
+        return result;
+    }, {});
+}
+
+/**
+ * Returns the most specific message the API sent for a failed request, or an empty string.
+ */
+export function getErrorMessage(error: unknown): string {
+    if (!axios.isAxiosError(error)) {
+        return '';
+    }
+    const firstFieldError = Object.values(getFieldErrors(error))[0];
+    return firstFieldError || error.response?.data?.message || '';
+}
+
+/**
+ * Whether a request failed because the API could not be reached: no response at all, or the
+ * gateway errors and the 503 the server sends while its database is down.
+ */
+export function isServerUnreachable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+        return false;
+    }
+    const status = error.response?.status;
+    return status === undefined || status === 502 || status === 503 || status === 504;
+}
+
+/**
+ * Whether a request was refused because the user is not logged in, or their session ended.
+ */
+export function isUnauthorized(error: unknown): boolean {
+    return axios.isAxiosError(error) && error.response?.status === 401;
+}
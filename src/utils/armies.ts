@@ -0,0 +1,99 @@
+import { Army, ModelGroup } from "../types";
+
+/**
+ * The armies of one game system, sorted by name.
+ */
+export function armiesForSystem(armies: Army[], gameSystem: string): Army[] {
+    return armies
+        .filter(army => army.gameSystem === gameSystem)
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Counts the miniatures using each army, keyed by army id.
+ */
+export function countMiniaturesByArmy(armies: Army[], modelGroups: ModelGroup[]): Map<string, number> {
+    const idByKey = new Map(armies.map(army => [`${army.gameSystem}\u0000${army.name}`, army._id]));
+    const counts = new Map<string, number>(armies.map(army => [army._id, 0]));
+    modelGroups.forEach(g => {
+        const id = idByKey.get(`${g.gameSystem}\u0000${g.army}`);
+        if (id) counts.set(id, (counts.get(id) || 0) + g.miniatureCount);
+    });
+    return counts;
+}
+
+// A set of armies in one game system whose names look like the same army.
+export interface DuplicateArmyGroup {
+    gameSystem: string;
+    armies: Army[];
+    // The army the others should be merged into: the one most miniatures already use.
+    suggestedTarget: Army;
+}
+
+// Ignore case, spacing, punctuation and a plural "s", so "Ultramarines", "ultramarines "
+// and "Ultramarine" all compare equal.
+const comparableName = (name: string) => {
+    const key = name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    return key.length > 3 && key.endsWith('s') ? key.slice(0, -1) : key;
+};
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Short names only tolerate a single typo; longer ones two. Very short names must match exactly,
+// otherwise "Orks" and "Orcs" style pairs from different factions would be flagged.
+const areNearDuplicates = (a: string, b: string) => {
+    if (a === b) return true;
+    const shorter = Math.min(a.length, b.length);
+    if (shorter < 5) return false;
+    return editDistance(a, b) <= (shorter >= 10 ? 2 : 1);
+};
+
+/**
+ * Finds groups of armies within the same game system whose names are probably variants of
+ * one another, for the army cleanup tool.
+ */
+export function findNearDuplicateArmies(armies: Army[], modelGroups: ModelGroup[]): DuplicateArmyGroup[] {
+    const counts = countMiniaturesByArmy(armies, modelGroups);
+    const bySystem = new Map<string, Army[]>();
+    armies.forEach(army => bySystem.set(army.gameSystem, [...(bySystem.get(army.gameSystem) || []), army]));
+
+    const groups: DuplicateArmyGroup[] = [];
+    bySystem.forEach((systemArmies, gameSystem) => {
+        const keys = systemArmies.map(army => comparableName(army.name));
+        // Union-find over the armies of this system, joining every near-duplicate pair.
+        const parent = systemArmies.map((_, i) => i);
+        const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+        for (let i = 0; i < systemArmies.length; i++) {
+            for (let j = i + 1; j < systemArmies.length; j++) {
+                if (areNearDuplicates(keys[i], keys[j])) parent[find(j)] = find(i);
+            }
+        }
+
+        const members = new Map<number, Army[]>();
+        systemArmies.forEach((army, i) => {
+            const root = find(i);
+            members.set(root, [...(members.get(root) || []), army]);
+        });
+        members.forEach(group => {
+            if (group.length < 2) return;
+            const sorted = [...group].sort((a, b) => (counts.get(b._id) || 0) - (counts.get(a._id) || 0) || a.name.localeCompare(b.name));
+            groups.push({ gameSystem, armies: sorted, suggestedTarget: sorted[0] });
+        });
+    });
+
+    return groups.sort((a, b) => a.gameSystem.localeCompare(b.gameSystem) || a.suggestedTarget.name.localeCompare(b.suggestedTarget.name));
+}
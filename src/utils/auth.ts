@@ -0,0 +1,33 @@
+import axios from 'axios';
+import { User } from '../types';
+
+// The login survives reloads in localStorage. Its token goes with every API request.
+export interface StoredLogin {
+    token: string;
+    user: User;
+}
+
+const STORAGE_KEY = 'miniature-tracker-login';
+
+export const readStoredLogin = (): StoredLogin | null => {
+    try {
+        const item = window.localStorage.getItem(STORAGE_KEY);
+        return item ? JSON.parse(item) : null;
+    } catch (error) {
+        console.error("Error reading the login from localStorage", error);
+        return null;
+    }
+};
+
+/**
+ * Remembers a login, or forgets it for `null`, and sends its token with every API request.
+ */
+export function applyLogin(login: StoredLogin | null) {
+    if (login) {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(login));
+        axios.defaults.headers.common['Authorization'] = `Bearer ${login.token}`;
+    } else {
+        window.localStorage.removeItem(STORAGE_KEY);
+        delete axios.defaults.headers.common['Authorization'];
+    }
+}
@@ -0,0 +1,88 @@
+import { Miniature, WorkflowStage } from "../types";
+
+// Mirrors `BACKUP_FORMAT` / `BACKUP_VERSION` in server/backup.js.
+export const BACKUP_FORMAT = 'miniature-tracker-backup';
+export const BACKUP_VERSION = 2;
+
+// A miniature as stored in a backup. Thumbnails are regenerated on restore, and an `_id`
+// is optional so hand-made or migrated files can still be restored.
+export type BackupMiniature = Omit<Miniature, '_id' | 'thumbnails'> & { _id?: string };
+
+/**
+ * A full-fidelity backup of the collection. Unlike the CSV export it keeps ids, images,
+ * status history, game systems with their workflows and settings, so a round trip loses nothing.
+ */
+export interface Backup {
+    format: typeof BACKUP_FORMAT;
+    version: typeof BACKUP_VERSION;
+    exportedAt: string;
+    gameSystems: string[];
+    // The status workflow of each game system, keyed by name.
+    workflows: Record<string, WorkflowStage[]>;
+    // App-wide settings, stored as-is.
+    settings: Record<string, unknown>;
+    miniatures: BackupMiniature[];
+    // Uploaded image files, base64-encoded and keyed by their `/uploads/...` URL.
+    files: Record<string, string>;
+}
+
+// Parsed backup JSON on its way to the current format. Only the version is relied on; the
+// server validates the rest when the backup is restored.
+type BackupData = Record<string, unknown> & { version: number };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each migration upgrades a backup from the version it is keyed by to the next one.
+// Version 0 is a bare array of miniatures, as returned by `GET /api/miniatures`.
+const MIGRATIONS: Record<number, (backup: unknown) => BackupData> = {
+    0: (data) => {
+        const miniatures: unknown[] = Array.isArray(data) ? data : [];
+        return {
+            format: BACKUP_FORMAT,
+            version: 1,
+            exportedAt: new Date().toISOString(),
+            gameSystems: [...new Set(miniatures.map(m => (isRecord(m) ? m.gameSystem : undefined)).filter((gs): gs is string => typeof gs === 'string'))],
+            settings: {},
+            // Images from a bare dump are URLs without file contents, so only external ones survive.
+            // Anything that is not a miniature is kept as it is, for the server to reject.
+            miniatures: miniatures.map(m => {
+                if (!isRecord(m)) return m;
+                const { thumbnails, images, ...rest } = m;
+                return {
+                    ...rest,
+                    images: Array.isArray(images) ? images.filter((url: unknown) => typeof url === 'string' && /^https?:\/\//i.test(url)) : undefined,
+                };
+            }),
+            files: {},
+        };
+    },
+    // Version 1 predates per-system workflows; every system used the default one.
+    1: (backup) => ({ ...(isRecord(backup) ? backup : {}), version: 2, workflows: {} }),
+};
+
+const detectVersion = (data: unknown): number => {
+    if (Array.isArray(data)) return 0;
+    if (isRecord(data) && data.format === BACKUP_FORMAT && typeof data.version === 'number' && Number.isInteger(data.version)) {
+        return data.version;
+    }
+    throw new Error('This file is not a miniature tracker backup.');
+};
+
+/**
+ * Upgrades parsed backup JSON of any known version to the current format.
+ * Throws for unrecognised files and for backups made by a newer version of the app.
+ */
+export function migrateBackup(data: unknown): Backup {
+    let version = detectVersion(data);
+    if (version > BACKUP_VERSION) {
+        throw new Error(`This backup was made by a newer version of the app (format version ${version}). Please update before restoring it.`);
+    }
+    let backup = data;
+    while (version < BACKUP_VERSION) {
+        const migrated = MIGRATIONS[version](backup);
+        backup = migrated;
+        version = migrated.version;
+    }
+    return backup as Backup;
+}
@@ -14,7 +14,7 @@ function escapeCsvField(field: any): string {
         return '';
     }
     const stringField = String(field);
-    if (stringField.includes(',') || stringField.includes('"') || stringField.includes('\n')) {
+    if (/[",\r\n]/.test(stringField)) {
         return `"${stringField.replace(/"/g, '""')}"`;
     }
     return stringField;
@@ -32,96 +32,205 @@ export function generateCSV(miniatures: Miniature[]): string {
 }
 
 
-function parseCsvRow(row: string): string[] {
-    const result: string[] = [];
-    let currentField = '';
+// A data row read from a CSV file. `row` is its 1-based position in the file, counting the
+// header as row 1, so it matches the row numbers a spreadsheet shows.
+export interface CsvRecord {
+    row: number;
+    values: string[];
+}
+
+// A problem with a single row, reported instead of rejecting the whole file.
+export interface CsvRowError {
+    row: number;
+    message: string;
+}
+
+export interface CsvTable {
+    headers: string[];
+    records: CsvRecord[];
+    delimiter: string;
+    // Rows the parser had to guess at, e.g. an unterminated quoted field.
+    errors: CsvRowError[];
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+// Picks the delimiter that occurs most often, outside quotes, on the header line.
+// Spreadsheets in many European locales save with semicolons, and some tools export tabs.
+function detectDelimiter(headerLine: string): string {
+    const counts = new Map(CANDIDATE_DELIMITERS.map(d => [d, 0]));
     let inQuotes = false;
-    for (let i = 0; i < row.length; i++) {
-        const char = row[i];
-        if (char === '"') {
-            if (inQuotes && row[i+1] === '"') {
-                currentField += '"';
-                i++; // Skip the second quote in a pair
-            } else {
-                inQuotes = !inQuotes;
-            }
-        } else if (char === ',' && !inQuotes) {
-            result.push(currentField);
-            currentField = '';
-        } else {
-            currentField += char;
-        }
+    for (const char of headerLine) {
+        if (char === '"') inQuotes = !inQuotes;
+        else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
     }
-    result.push(currentField);
-    return result;
+    let best = ',';
+    counts.forEach((count, delimiter) => {
+        if (count > counts.get(best)!) best = delimiter;
+    });
+    return best;
 }
 
-
-export function parseCSV(csvText: string): Omit<Miniature, '_id'>[] {
-    const rawLines = csvText.trim().split(/\r?\n/);
-    if (rawLines.length === 0 || (rawLines.length === 1 && !rawLines[0].trim())) {
-        return [];
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+/**
+ * An RFC 4180 CSV parser that accepts text in chunks, so large files can be read without
+ * holding the whole text in memory. Quoted fields may contain delimiters, doubled quotes
+ * and line breaks (LF or CRLF). A leading byte order mark is ignored, and the delimiter is
+ * detected from the header line unless one is given.
+ *
+ * Malformed input never aborts parsing: the parser keeps the text as best it can and
+ * records an error against the affected row.
+ */
+export class CsvParser {
+    private delimiter: string | null;
+    private state: ParserState = 'fieldStart';
+    private field = '';
+    private fields: string[] = [];
+    private skipLineFeed = false;
+    private rowNumber = 1;
+    private isFirstChunk = true;
+    // Text held back until the header line is complete and the delimiter is known.
+    private pending = '';
+
+    private headers: string[] | null = null;
+    private records: CsvRecord[] = [];
+    private errors: CsvRowError[] = [];
+
+    constructor(delimiter?: string) {
+        this.delimiter = delimiter ?? null;
     }
 
-    const logicalRows: string[] = [];
-    let rowBuffer = '';
-
-    for (const line of rawLines) {
-        rowBuffer += (rowBuffer ? '\n' : '') + line;
-        const quoteCount = (rowBuffer.match(/"/g) || []).length;
-        
-        // If the number of quotes is even, we assume the row is complete.
-        // This handles multiline fields correctly.
-        if (quoteCount % 2 === 0) {
-            logicalRows.push(rowBuffer);
-            rowBuffer = '';
+    push(chunk: string) {
+        if (this.isFirstChunk) {
+            this.isFirstChunk = false;
+            if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
         }
-    }
-    
-    if (rowBuffer) {
-        logicalRows.push(rowBuffer); // Add any remaining buffer as the last line
+        if (this.delimiter === null) {
+            this.pending += chunk;
+            const lineEnd = this.pending.search(/\r|\n/);
+            if (lineEnd === -1) return;
+            this.delimiter = detectDelimiter(this.pending.slice(0, lineEnd));
+            chunk = this.pending;
+            this.pending = '';
+        }
+        this.consume(chunk);
     }
 
-    if (logicalRows.length < 1) {
-        return [];
+    end(): CsvTable {
+        if (this.delimiter === null) {
+            this.delimiter = detectDelimiter(this.pending);
+            this.consume(this.pending);
+            this.pending = '';
+        }
+        if (this.state === 'quoted') {
+            this.errors.push({ row: this.rowNumber, message: 'A quoted field is never closed; the rest of the file was read into it.' });
+        }
+        if (this.state !== 'fieldStart' || this.field !== '' || this.fields.length > 0) {
+            this.endRecord();
+        }
+        return {
+            headers: this.headers ?? [],
+            records: this.records,
+            delimiter: this.delimiter,
+            errors: this.errors,
+        };
     }
-    
-    const header = parseCsvRow(logicalRows[0]).map(h => h.trim());
-    
-    const isValidHeader = header.length === CSV_HEADERS.length && header.every((h, i) => h === CSV_HEADERS[i]);
 
-    if (!isValidHeader) {
-        throw new Error(`Invalid CSV header. Expected: "${CSV_HEADERS.join(',')}" but got: "${header.join(',')}"`);
+    private consume(text: string) {
+        const delimiter = this.delimiter!;
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (this.skipLineFeed) {
+                this.skipLineFeed = false;
+                if (char === '\n') continue;
+            }
+            switch (this.state) {
+                case 'fieldStart':
+                case 'unquoted':
+                    if (char === '"' && this.state === 'fieldStart') {
+                        this.state = 'quoted';
+                    } else if (char === delimiter) {
+                        this.endField();
+                    } else if (char === '\r' || char === '\n') {
+                        this.skipLineFeed = char === '\r';
+                        this.endRecord();
+                    } else {
+                        this.field += char;
+                        this.state = 'unquoted';
+                    }
+                    break;
+                case 'quoted':
+                    if (char === '"') {
+                        this.state = 'quoteInQuoted';
+                    } else if (char === '\r') {
+                        // Line breaks inside a field are stored as plain LF.
+                        this.field += '\n';
+                        this.skipLineFeed = true;
+                    } else {
+                        this.field += char;
+                    }
+                    break;
+                case 'quoteInQuoted':
+                    if (char === '"') {
+                        this.field += '"';
+                        this.state = 'quoted';
+                    } else if (char === delimiter) {
+                        this.endField();
+                    } else if (char === '\r' || char === '\n') {
+                        this.skipLineFeed = char === '\r';
+                        this.endRecord();
+                    } else {
+                        this.errors.push({ row: this.rowNumber, message: `Unexpected text after a closing quote in column ${this.fields.length + 1}.` });
+                        this.field += char;
+                        this.state = 'unquoted';
+                    }
+                    break;
+            }
+        }
     }
 
-    const dataRows = logicalRows.slice(1);
-    const miniatures: Omit<Miniature, '_id'>[] = [];
-
-    for (const row of dataRows) {
-        if (!row.trim()) continue;
-
-        const values = parseCsvRow(row);
+    private endField() {
+        this.fields.push(this.field);
+        this.field = '';
+        this.state = 'fieldStart';
+    }
 
-        if (values.length !== CSV_HEADERS.length) {
-            console.warn(`Skipping malformed CSV row (column count mismatch): ${row}`);
-            continue;
+    private endRecord() {
+        this.endField();
+        const values = this.fields;
+        this.fields = [];
+        const isBlank = values.length === 1 && values[0] === '';
+        if (this.headers === null) {
+            if (!isBlank) this.headers = values.map(h => h.trim());
+        } else if (!isBlank) {
+            this.records.push({ row: this.rowNumber, values });
         }
+        this.rowNumber++;
+    }
+}
 
-        const miniature: any = {};
-        for (let i = 0; i < header.length; i++) {
-            const key = header[i] as keyof Omit<Miniature, '_id'>;
-            let value: any = values[i] ? values[i].trim() : '';
+/**
+ * Parses CSV text held in memory.
+ */
+export function readCSV(csvText: string): CsvTable {
+    const parser = new CsvParser();
+    parser.push(csvText);
+    return parser.end();
+}
 
-            if (key === 'modelCount') {
-                value = parseInt(value, 10);
-                if (isNaN(value)) {
-                    throw new Error(`Invalid modelCount value in row: ${row}`);
-                }
-            }
-            miniature[key] = value;
-        }
-        miniatures.push(miniature);
+/**
+ * Parses a CSV file chunk by chunk as it is read from disk.
+ */
+export async function readCSVFile(file: Blob): Promise<CsvTable> {
+    const parser = new CsvParser();
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder('utf-8');
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parser.push(decoder.decode(value, { stream: true }));
     }
-
-    return miniatures;
-}
\ No newline at end of file
+    parser.push(decoder.decode());
+    return parser.end();
+}
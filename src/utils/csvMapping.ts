@@ -0,0 +1,208 @@
+import { Miniature, Status } from "../types";
+import { Workflows, stagesFor } from "./workflows";
+import { CsvRecord, CsvRowError, CsvTable } from "./csv";
+
+// The miniature fields a CSV column can be mapped onto.
+export const MAPPABLE_FIELDS = ['modelName', 'gameSystem', 'army', 'status', 'modelCount', 'notes'] as const;
+export type MappableField = typeof MAPPABLE_FIELDS[number];
+
+// Which column index feeds each field; null when the file has no such column.
+export type ColumnMapping = Record<MappableField, number | null>;
+
+// How each distinct status text found in the file translates to a stage name.
+export type StatusMapping = Record<string, Status | ''>;
+
+// Values used for fields whose column is not mapped.
+export interface MappingDefaults {
+    gameSystem: string;
+    status: Status;
+}
+
+export interface MappedRow {
+    row: number;
+    miniature: Omit<Miniature, '_id'>;
+}
+
+export interface MappingResult {
+    rows: MappedRow[];
+    errors: CsvRowError[];
+}
+
+// Lowercase and drop everything but letters and digits, so "Model Name", "model_name"
+// and "ModelName" compare equal.
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Header names commonly used for each field, already normalized, best match first.
+const HEADER_SYNONYMS: Record<MappableField, string[]> = {
+    modelName: ['modelname', 'model', 'name', 'unitname', 'unit', 'miniature', 'mini', 'figure', 'kit'],
+    gameSystem: ['gamesystem', 'game', 'system', 'ruleset'],
+    army: ['army', 'faction', 'armyfaction', 'force', 'team', 'allegiance'],
+    status: ['status', 'stage', 'progress', 'state', 'paintstatus'],
+    modelCount: ['modelcount', 'count', 'qty', 'quantity', 'models', 'number', 'amount'],
+    notes: ['notes', 'note', 'comments', 'comment', 'description', 'remarks'],
+};
+
+// Status wordings seen in members' spreadsheets, already normalized, with the default
+// workflow stage each one means. A synonym is only used if the stage exists in some workflow.
+const STATUS_SYNONYMS: Record<string, Status> = {
+    bought: 'Purchased',
+    owned: 'Purchased',
+    new: 'Purchased',
+    unbuilt: 'Purchased',
+    grey: 'Purchased',
+    gray: 'Purchased',
+    pileofshame: 'Purchased',
+    '3dprinted': 'Printed',
+    built: 'Assembled',
+    undercoat: 'Primed',
+    undercoated: 'Primed',
+    done: 'Painted',
+    finished: 'Painted',
+    complete: 'Painted',
+    completed: 'Painted',
+    ready: 'Ready for Game',
+    gameready: 'Ready for Game',
+    tabletop: 'Ready for Game',
+    tabletopready: 'Ready for Game',
+};
+
+/**
+ * Guesses which column holds each field from the header names. Exact synonym matches are
+ * preferred; otherwise a header containing a synonym is used, favouring the longest synonym
+ * and then one at the start, so "Army Name" maps to the army rather than the model name.
+ * Each column is used at most once.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+    const normalizedHeaders = headers.map(normalize);
+    const used = new Set<number>();
+    const mapping = Object.fromEntries(MAPPABLE_FIELDS.map(field => [field, null])) as ColumnMapping;
+
+    MAPPABLE_FIELDS.forEach(field => {
+        for (const synonym of HEADER_SYNONYMS[field]) {
+            const index = normalizedHeaders.findIndex((header, i) => !used.has(i) && header === synonym);
+            if (index !== -1) {
+                mapping[field] = index;
+                used.add(index);
+                return;
+            }
+        }
+    });
+
+    normalizedHeaders.forEach((header, index) => {
+        if (used.has(index) || header === '') return;
+        let best: { field: MappableField; score: number } | null = null;
+        for (const field of MAPPABLE_FIELDS) {
+            if (mapping[field] !== null) continue;
+            for (const synonym of HEADER_SYNONYMS[field]) {
+                if (!header.includes(synonym)) continue;
+                const score = synonym.length * 2 + (header.startsWith(synonym) ? 1 : 0);
+                if (!best || score > best.score) best = { field, score };
+            }
+        }
+        if (best) {
+            mapping[best.field] = index;
+            used.add(index);
+        }
+    });
+    return mapping;
+}
+
+/**
+ * Guesses which of the given stage names a free-text status means, or returns null if it
+ * is not recognised.
+ */
+export function guessStatus(value: string, stageNames: Status[]): Status | null {
+    const normalized = normalize(value);
+    const exact = stageNames.find(status => normalize(status) === normalized);
+    if (exact) return exact;
+    const synonym = STATUS_SYNONYMS[normalized];
+    return synonym && stageNames.includes(synonym) ? synonym : null;
+}
+
+/**
+ * Lists the distinct, non-empty status texts in the mapped status column.
+ */
+export function distinctStatusValues(records: CsvRecord[], statusColumn: number | null): string[] {
+    if (statusColumn === null) return [];
+    const values = new Set<string>();
+    records.forEach(({ values: cells }) => {
+        const value = (cells[statusColumn] ?? '').trim();
+        if (value) values.add(value);
+    });
+    return [...values].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Builds a status mapping with a guess for every distinct status text. Unrecognised texts
+ * map to '' until the user picks a status for them.
+ */
+export function guessStatusMapping(values: string[], stageNames: Status[]): StatusMapping {
+    return Object.fromEntries(values.map(value => [value, guessStatus(value, stageNames) || '']));
+}
+
+/**
+ * Turns CSV records into miniatures using the chosen mappings. Rows that cannot be
+ * converted, whose status is not a stage of their game system's workflow, or that the
+ * parser could not read cleanly, are reported by row number and left out, rather than
+ * failing the whole import.
+ */
+export function applyColumnMapping(
+    table: CsvTable,
+    columns: ColumnMapping,
+    statuses: StatusMapping,
+    defaults: MappingDefaults,
+    workflows: Workflows,
+): MappingResult {
+    const result: MappingResult = { rows: [], errors: [] };
+    const columnCount = table.headers.length;
+    const unreadableRows = new Set(table.errors.map(error => error.row));
+
+    table.records.forEach(({ row, values }) => {
+        if (unreadableRows.has(row)) return;
+        const cell = (field: MappableField) => {
+            const column = columns[field];
+            return column === null ? '' : (values[column] ?? '').trim();
+        };
+        const rowErrors: string[] = [];
+
+        if (values.length !== columnCount) {
+            rowErrors.push(`Expected ${columnCount} columns but found ${values.length}.`);
+        }
+
+        const modelName = cell('modelName');
+        if (!modelName) rowErrors.push('Model name is empty.');
+
+        const army = cell('army');
+        if (!army) rowErrors.push('Army / faction is empty.');
+
+        const gameSystem = cell('gameSystem') || defaults.gameSystem;
+        if (!gameSystem) rowErrors.push('Game system is empty.');
+
+        const statusText = cell('status');
+        const status = statusText ? statuses[statusText] : defaults.status;
+        if (!status) {
+            rowErrors.push(`Status "${statusText}" is not mapped to a status.`);
+        } else if (gameSystem && !stagesFor(workflows, gameSystem).some(stage => stage.name === status)) {
+            rowErrors.push(`"${status}" is not a stage of the ${gameSystem} workflow.`);
+        }
+
+        const countText = cell('modelCount');
+        const modelCount = countText === '' ? 1 : Number(countText);
+        if (!Number.isInteger(modelCount) || modelCount < 1) {
+            rowErrors.push(`Model count "${countText}" is not a positive whole number.`);
+        }
+
+        if (rowErrors.length > 0) {
+            result.errors.push({ row, message: rowErrors.join(' ') });
+            return;
+        }
+
+        result.rows.push({
+            row,
+            miniature: { modelName, gameSystem, army, status: status as Status, modelCount, notes: cell('notes') },
+        });
+    });
+
+    result.errors = [...table.errors, ...result.errors].sort((a, b) => a.row - b.row);
+    return result;
+}
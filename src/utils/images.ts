@@ -0,0 +1,16 @@
+import { Miniature } from "../types";
+
+/**
+ * Returns the thumbnail URL for one of a miniature's images, falling back to the
+ * full-size image for images uploaded before thumbnails were generated.
+ */
+export function getThumbnailUrl(miniature: Miniature, index: number): string | undefined {
+    return miniature.thumbnails?.[index] || miniature.images?.[index];
+}
+
+/**
+ * Returns the thumbnail of the miniature's cover (first) image, if it has one.
+ */
+export function getCoverThumbnailUrl(miniature: Miniature): string | undefined {
+    return getThumbnailUrl(miniature, 0);
+}
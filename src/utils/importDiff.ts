@@ -0,0 +1,108 @@
+import { Miniature } from "../types";
+
+// A row read from an import file. It carries an `_id` only if the file included one.
+export type ImportRow = Omit<Miniature, '_id'> & { _id?: string };
+
+// The fields compared between an imported row and the miniature it matches.
+export const DIFF_FIELDS = ['modelName', 'gameSystem', 'army', 'status', 'modelCount', 'notes'] as const;
+export type DiffField = typeof DIFF_FIELDS[number];
+
+export interface FieldChange {
+    field: DiffField;
+    before: Miniature[DiffField];
+    after: Miniature[DiffField];
+}
+
+export interface ChangedRow {
+    existing: Miniature;
+    incoming: ImportRow;
+    changes: FieldChange[];
+}
+
+export interface ImportDiff {
+    added: ImportRow[];
+    changed: ChangedRow[];
+    unchanged: Miniature[];
+    removed: Miniature[];
+}
+
+// The changes sent to the server to commit a merge.
+export interface MergePlan {
+    add: Omit<Miniature, '_id'>[];
+    // `version` is the one the file was compared with; the server skips miniatures saved since.
+    update: { _id: string; version?: number; changes: Partial<Pick<Miniature, DiffField>> }[];
+    remove: string[];
+}
+
+const normalize = (value: string | undefined) => (value ?? '').trim().toLowerCase();
+
+// Rows without an id are matched on model name + game system + army, ignoring case and spacing.
+const naturalKey = (row: Pick<Miniature, 'modelName' | 'gameSystem' | 'army'>) =>
+    [row.modelName, row.gameSystem, row.army].map(normalize).join('\u0000');
+
+// Empty and missing notes are the same thing as far as a diff is concerned, and surrounding
+// whitespace is dropped by the server anyway.
+const comparable = (value: unknown) => (typeof value === 'string' ? value.trim() : value ?? '');
+const valuesEqual = (a: unknown, b: unknown) => comparable(a) === comparable(b);
+
+/**
+ * Compares imported rows with the current collection. Each existing miniature is matched
+ * at most once, first by `_id` and otherwise by its natural key, so duplicated rows in the
+ * file show up as additions rather than silently collapsing onto one miniature.
+ */
+export function diffImport(existing: Miniature[], incoming: ImportRow[]): ImportDiff {
+    const byId = new Map(existing.map(m => [m._id, m]));
+    const byKey = new Map<string, Miniature[]>();
+    existing.forEach(m => {
+        const key = naturalKey(m);
+        byKey.set(key, [...(byKey.get(key) || []), m]);
+    });
+
+    const matched = new Set<string>();
+    const diff: ImportDiff = { added: [], changed: [], unchanged: [], removed: [] };
+
+    const takeMatch = (row: ImportRow): Miniature | undefined => {
+        if (row._id) {
+            const match = byId.get(row._id);
+            if (match && !matched.has(match._id)) return match;
+        }
+        return byKey.get(naturalKey(row))?.find(m => !matched.has(m._id));
+    };
+
+    incoming.forEach(row => {
+        const match = takeMatch(row);
+        if (!match) {
+            diff.added.push(row);
+            return;
+        }
+        matched.add(match._id);
+        const changes = DIFF_FIELDS
+            .filter(field => !valuesEqual(match[field], row[field]))
+            .map(field => ({ field, before: match[field], after: row[field] }));
+        if (changes.length > 0) {
+            diff.changed.push({ existing: match, incoming: row, changes });
+        } else {
+            diff.unchanged.push(match);
+        }
+    });
+
+    diff.removed = existing.filter(m => !matched.has(m._id));
+    return diff;
+}
+
+/**
+ * Turns the accepted groups of a diff into the plan the server applies.
+ */
+export function buildMergePlan(diff: ImportDiff, accept: { added: boolean; changed: boolean; removed: boolean }): MergePlan {
+    return {
+        add: accept.added ? diff.added.map(({ _id, ...row }) => row) : [],
+        update: accept.changed
+            ? diff.changed.map(({ existing, changes }) => ({
+                _id: existing._id,
+                version: existing.version,
+                changes: Object.fromEntries(changes.map(({ field, after }) => [field, after])),
+            }))
+            : [],
+        remove: accept.removed ? diff.removed.map(m => m._id) : [],
+    };
+}
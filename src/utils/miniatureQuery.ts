@@ -0,0 +1,90 @@
+import { Filter, Miniature, ModelGroup, SortConfig } from "../types";
+import { Workflows } from "./workflows";
+import { formatSearch, parseSearch, searchMatcher } from "./searchQuery";
+
+// The collection list is filtered, sorted and paged by the server (see server/miniatureQuery.js),
+// which also selects every miniature of a view and counts them for the dashboard. The same
+// rules are applied here to the miniatures this tab has loaded, to hide rows edited out of the
+// view until the list is reloaded, and in place of the server while it is unreachable.
+
+// The view the list shows: the filters, search text and sort order of the store.
+export interface MiniatureQuery {
+    filters: Filter;
+    searchQuery: string;
+    sortConfig: SortConfig;
+}
+
+// Miniatures per page of the collection list.
+export const LIST_PAGE_SIZE = 100;
+// The most the server sends in one page.
+export const MAX_PAGE_SIZE = 500;
+
+/**
+ * A test for whether a miniature passes the filters and search. The search is parsed once
+ * here (see searchQuery.ts); its terms that do not parse are ignored.
+ */
+export function queryMatcher({ filters, searchQuery }: Pick<MiniatureQuery, 'filters' | 'searchQuery'>, workflows: Workflows): (miniature: Miniature) => boolean {
+    const army = filters.army.toLowerCase();
+    const matchesSearch = searchMatcher(parseSearch(searchQuery).terms, workflows);
+    return (miniature) =>
+        (filters.gameSystem === 'all' || miniature.gameSystem === filters.gameSystem)
+        && (army === '' || (!!miniature.army && miniature.army.toLowerCase().includes(army)))
+        && (filters.status === 'all' || miniature.status === filters.status)
+        && matchesSearch(miniature);
+}
+
+// Orders values as the server does: numbers numerically, strings by code point, ties by id.
+const compareValues = (a: unknown, b: unknown) => {
+    if (a === b) return 0;
+    if (a === undefined || a === null) return -1;
+    if (b === undefined || b === null) return 1;
+    return (a as string | number) < (b as string | number) ? -1 : 1;
+};
+
+/**
+ * Sorts miniatures in the list's order.
+ */
+export function sortMiniatures(miniatures: Miniature[], { key, direction }: SortConfig): Miniature[] {
+    const order = direction === 'asc' ? 1 : -1;
+    return [...miniatures].sort((a, b) =>
+        order * (compareValues(a[key], b[key]) || compareValues(a._id, b._id)));
+}
+
+/**
+ * The miniatures of a collection that the list shows for a view, in order.
+ */
+export const queryMiniatures = (miniatures: Miniature[], query: MiniatureQuery, workflows: Workflows): Miniature[] =>
+    sortMiniatures(miniatures.filter(queryMatcher(query, workflows)), query.sortConfig);
+
+/**
+ * Counts miniatures per game system, army, name and status, as `GET /api/miniatures/summary`
+ * does on the server.
+ */
+export function summarizeMiniatures(miniatures: Miniature[]): ModelGroup[] {
+    const groups = new Map<string, ModelGroup>();
+    miniatures.forEach(({ gameSystem, army, modelName, status, modelCount }) => {
+        const key = JSON.stringify([gameSystem, army, modelName, status]);
+        const group = groups.get(key);
+        if (group) {
+            group.modelCount += modelCount;
+            group.miniatureCount += 1;
+        } else {
+            groups.set(key, { gameSystem, army, modelName, status, modelCount, miniatureCount: 1 });
+        }
+    });
+    return [...groups.values()];
+}
+
+/**
+ * The `GET /api/miniatures` query parameters for a view. Unset filters are left out, and the
+ * search is sent as the terms that parsed, so the server filters by the same ones.
+ */
+export function queryParams({ filters, searchQuery, sortConfig }: MiniatureQuery): Record<string, string> {
+    const params: Record<string, string> = { sort: sortConfig.key, dir: sortConfig.direction };
+    if (filters.gameSystem !== 'all') params.gameSystem = filters.gameSystem;
+    if (filters.army) params.army = filters.army;
+    if (filters.status !== 'all') params.status = filters.status;
+    const search = formatSearch(parseSearch(searchQuery).terms);
+    if (search) params.q = search;
+    return params;
+}
@@ -0,0 +1,77 @@
+import { Army, Miniature, PendingOperation } from "../types";
+import { Workflows } from "./workflows";
+
+// The last collection loaded from the server, so the app can open without it.
+export interface CachedCollection {
+    miniatures: Miniature[];
+    gameSystems: string[];
+    workflows: Workflows;
+    armies: Army[];
+    savedAt: string;
+}
+
+const DB_NAME = 'miniature-tracker';
+const DB_VERSION = 1;
+// A single key-value store holds the cached collection and the queue of offline changes of
+// each user who has logged in on this device, under keys ending in their id.
+const STORE_NAME = 'offline';
+const COLLECTION_KEY = 'collection';
+const QUEUE_KEY = 'pendingOperations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again, e.g. after the user allows storage.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const read = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const write = async (key: string, value: unknown): Promise<void> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        transaction.objectStore(STORE_NAME).put(value, key);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+const remove = async (keys: string[]): Promise<void> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        keys.forEach(key => transaction.objectStore(STORE_NAME).delete(key));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+const keyFor = (key: string, userId: string) => `${key}:${userId}`;
+
+export const readCachedCollection = (userId: string) => read<CachedCollection>(keyFor(COLLECTION_KEY, userId));
+export const writeCachedCollection = (userId: string, collection: CachedCollection) => write(keyFor(COLLECTION_KEY, userId), collection);
+
+export const readPendingOperations = async (userId: string) => (await read<PendingOperation[]>(keyFor(QUEUE_KEY, userId))) || [];
+export const writePendingOperations = (userId: string, operations: PendingOperation[]) => write(keyFor(QUEUE_KEY, userId), operations);
+
+/**
+ * Forgets everything stored for a user on this device, when they log out.
+ */
+export const clearOfflineData = (userId: string) => remove([keyFor(COLLECTION_KEY, userId), keyFor(QUEUE_KEY, userId)]);
@@ -0,0 +1,41 @@
+import { PendingOperation } from "../types";
+
+// Miniatures added while offline get a local id until the server assigns a real one.
+const LOCAL_ID_PREFIX = 'local-';
+
+export const createLocalId = () => `${LOCAL_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+const idOf = (operation: PendingOperation) => operation.miniature._id;
+
+/**
+ * Adds an operation to the offline queue, folding it into earlier ones for the same
+ * miniature: edits to a miniature added offline change the queued add, repeated edits keep
+ * the version they started from, and deleting a miniature added offline drops it entirely.
+ */
+export function enqueueOperation(queue: PendingOperation[], operation: PendingOperation): PendingOperation[] {
+    const id = idOf(operation);
+    const queuedAdd = queue.find(op => op.kind === 'add' && idOf(op) === id);
+
+    if (operation.kind === 'update') {
+        if (queuedAdd) {
+            return queue.map(op => (op === queuedAdd ? { ...queuedAdd, miniature: operation.miniature } : op));
+        }
+        const queuedUpdate = queue.find(op => op.kind === 'update' && idOf(op) === id);
+        if (queuedUpdate && queuedUpdate.kind === 'update') {
+            return queue.map(op => (op === queuedUpdate
+                ? { ...queuedUpdate, miniature: operation.miniature, statusNote: operation.statusNote ?? queuedUpdate.statusNote }
+                : op));
+        }
+    }
+
+    if (operation.kind === 'delete') {
+        if (queuedAdd) {
+            return queue.filter(op => op !== queuedAdd);
+        }
+        return [...queue.filter(op => idOf(op) !== id), operation];
+    }
+
+    return [...queue, operation];
+}
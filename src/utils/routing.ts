@@ -0,0 +1,103 @@
+import { Filter, Miniature, Page, Share, SortConfig } from "../types";
+
+// The part of the app state that a URL describes.
+export interface RouteState {
+    page: Page;
+    filters: Filter;
+    searchQuery: string;
+    sortConfig: SortConfig;
+}
+
+export const DEFAULT_FILTERS: Filter = { gameSystem: 'all', army: '', status: 'all' };
+export const DEFAULT_SORT: SortConfig = { key: 'modelName', direction: 'asc' };
+
+const PAGE_PATHS: Record<Page, string> = {
+    dashboard: '/',
+    collection: '/collection',
+    data: '/data',
+    settings: '/settings',
+    trash: '/trash',
+};
+
+// Columns the list can be sorted by; anything else in a hand-edited URL is ignored.
+const SORTABLE_KEYS: (keyof Miniature)[] = ['modelName', 'gameSystem', 'army', 'status', 'modelCount'];
+
+// Query parameter names, kept short so shared links stay readable.
+const PARAMS = {
+    gameSystem: 'system',
+    army: 'army',
+    status: 'status',
+    search: 'q',
+    sort: 'sort',
+    direction: 'dir',
+};
+
+export const pathForPage = (page: Page) => PAGE_PATHS[page];
+
+const pageForPath = (pathname: string): Page => {
+    const normalized = pathname.replace(/\/+$/, '') || '/';
+    const match = (Object.keys(PAGE_PATHS) as Page[]).find(page => PAGE_PATHS[page] === normalized);
+    return match || 'dashboard';
+};
+
+/**
+ * Reads the view described by a URL. Missing or invalid parameters fall back to the defaults.
+ */
+export function parseRoute(pathname: string, search: string): RouteState {
+    const params = new URLSearchParams(search);
+    const sortKey = params.get(PARAMS.sort) as keyof Miniature | null;
+    return {
+        page: pageForPath(pathname),
+        filters: {
+            gameSystem: params.get(PARAMS.gameSystem) || DEFAULT_FILTERS.gameSystem,
+            army: params.get(PARAMS.army) || DEFAULT_FILTERS.army,
+            // Stages differ per game system and are loaded later, so any status name is kept.
+            status: params.get(PARAMS.status) || DEFAULT_FILTERS.status,
+        },
+        searchQuery: params.get(PARAMS.search) || '',
+        sortConfig: {
+            key: sortKey && SORTABLE_KEYS.includes(sortKey) ? sortKey : DEFAULT_SORT.key,
+            direction: params.get(PARAMS.direction) === 'desc' ? 'desc' : 'asc',
+        },
+    };
+}
+
+/**
+ * Builds the URL for a view. Only values that differ from the defaults are written, so the
+ * plain dashboard is just "/".
+ */
+export function buildRoute({ page, filters, searchQuery, sortConfig }: RouteState): string {
+    const params = new URLSearchParams();
+    if (filters.gameSystem !== DEFAULT_FILTERS.gameSystem) params.set(PARAMS.gameSystem, filters.gameSystem);
+    if (filters.army) params.set(PARAMS.army, filters.army);
+    if (filters.status !== DEFAULT_FILTERS.status) params.set(PARAMS.status, filters.status);
+    if (searchQuery) params.set(PARAMS.search, searchQuery);
+    if (sortConfig.key !== DEFAULT_SORT.key || sortConfig.direction !== DEFAULT_SORT.direction) {
+        params.set(PARAMS.sort, sortConfig.key);
+        params.set(PARAMS.direction, sortConfig.direction);
+    }
+    const query = params.toString();
+    return `${pathForPage(page)}${query ? `?${query}` : ''}`;
+}
+
+// Public showcase links live outside the app's pages, at "/showcase/<token>".
+const SHOWCASE_PATH = /^\/showcase\/([\w-]+)\/?$/;
+
+/**
+ * The share token of a showcase URL, or null for any other path.
+ */
+export const showcaseTokenFromPath = (pathname: string): string | null =>
+    SHOWCASE_PATH.exec(pathname)?.[1] ?? null;
+
+/**
+ * The full URL of a public showcase link, ready to copy and send.
+ */
+export const showcaseUrl = (token: string) => `${window.location.origin}/showcase/${token}`;
+
+/**
+ * What a shared link shows, e.g. "Battletech: Davion" or "Whole collection".
+ */
+export const showcaseLabel = ({ gameSystem, army }: Pick<Share, 'gameSystem' | 'army'>) => {
+    if (!gameSystem) return 'Whole collection';
+    return army ? `${gameSystem}: ${army}` : gameSystem;
+};
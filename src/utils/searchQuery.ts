@@ -0,0 +1,145 @@
+import { Miniature } from "../types";
+import { stagesFor, Workflows } from "./workflows";
+import { FIELD_ALIASES, SEARCH_FIELDS, SearchComparison, SearchField, SearchTerm } from "../../shared/searchSyntax";
+
+// The collection search box takes the query language of shared/searchSyntax.js, which
+// documents the syntax and parses it for both the client and the server. This module matches
+// loaded miniatures against it, writes terms back as text and suggests completions.
+export { parseSearch, SEARCH_FIELDS } from "../../shared/searchSyntax";
+export type {
+    FieldTerm, ParsedSearch, SearchComparison, SearchError, SearchField, SearchSpan, SearchTerm, TextTerm,
+} from "../../shared/searchSyntax";
+
+const FIELD_PATHS: Record<Exclude<SearchField, 'count'>, 'modelName' | 'gameSystem' | 'army' | 'status' | 'notes'> = {
+    name: 'modelName',
+    system: 'gameSystem',
+    army: 'army',
+    status: 'status',
+    notes: 'notes',
+};
+
+const isSpace = (char: string) => /\s/.test(char);
+
+/**
+ * Quotes a value when it would not read back as one bare word.
+ */
+export const quoteSearchValue = (value: string): string =>
+    /^[^\s"\\:-][^\s"\\:]*$/.test(value) ? value : `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+/**
+ * Writes terms back as search text, in the form `parseSearch` reads.
+ */
+export function formatSearch(terms: SearchTerm[]): string {
+    return terms.map(term => {
+        const sign = term.negated ? '-' : '';
+        if (term.type === 'text') return sign + quoteSearchValue(term.text);
+        const comparison = term.comparison === ':' ? '' : term.comparison;
+        return `${sign}${term.field}:${comparison}${quoteSearchValue(String(term.value))}`;
+    }).join(' ');
+}
+
+const compareBy = (comparison: SearchComparison, difference: number): boolean => {
+    switch (comparison) {
+        case '<': return difference < 0;
+        case '<=': return difference <= 0;
+        case '>': return difference > 0;
+        case '>=': return difference >= 0;
+        default: return difference === 0;
+    }
+};
+
+const includesIgnoringCase = (value: string | undefined, text: string) =>
+    !!value && value.toLowerCase().includes(text.toLowerCase());
+
+const equalsIgnoringCase = (value: string | undefined, text: string) =>
+    value !== undefined && value.toLowerCase() === text.toLowerCase();
+
+const matchesTerm = (miniature: Miniature, term: SearchTerm, workflows: Workflows): boolean => {
+    if (term.type === 'text') {
+        return includesIgnoringCase(miniature.modelName, term.text)
+            || includesIgnoringCase(miniature.gameSystem, term.text)
+            || includesIgnoringCase(miniature.army, term.text)
+            || includesIgnoringCase(miniature.notes, term.text);
+    }
+    if (term.field === 'count') {
+        return compareBy(term.comparison, miniature.modelCount - term.value);
+    }
+    const value = miniature[FIELD_PATHS[term.field]];
+    if (term.field === 'status' && term.comparison !== ':' && term.comparison !== '=') {
+        const stages = stagesFor(workflows, miniature.gameSystem);
+        const current = stages.findIndex(stage => stage.name === miniature.status);
+        const target = stages.findIndex(stage => equalsIgnoringCase(stage.name, term.value));
+        return current !== -1 && target !== -1 && compareBy(term.comparison, current - target);
+    }
+    return term.comparison === ':' && term.field !== 'status'
+        ? includesIgnoringCase(value, term.value)
+        : equalsIgnoringCase(value, term.value);
+};
+
+/**
+ * A test for whether a miniature matches every term. Status comparisons use the workflow of
+ * the miniature's game system; a stage it does not have matches nothing.
+ */
+export const searchMatcher = (terms: SearchTerm[], workflows: Workflows) => (miniature: Miniature): boolean =>
+    terms.every(term => matchesTerm(miniature, term, workflows) !== term.negated);
+
+// What the search box can suggest values from.
+export interface SearchSuggestionSources {
+    gameSystems: string[];
+    armies: string[];
+    statuses: string[];
+}
+
+export interface SearchCompletion {
+    // The stretch of the search text a suggestion replaces.
+    from: number;
+    to: number;
+    options: { label: string; text: string }[];
+}
+
+const MAX_COMPLETIONS = 8;
+
+/**
+ * Suggestions for the term under the caret: field names while a bare word is typed, and
+ * known game systems, armies or statuses after `system:`, `army:` or `status:`. Returns null
+ * when there is nothing to suggest.
+ */
+export function searchCompletions(input: string, caret: number, sources: SearchSuggestionSources): SearchCompletion | null {
+    // The term under the caret runs between spaces that are not inside quotes.
+    let from = 0;
+    let inQuotes = false;
+    for (let i = 0; i < caret; i++) {
+        if (input[i] === '"') inQuotes = !inQuotes;
+        else if (!inQuotes && isSpace(input[i])) from = i + 1;
+    }
+    let to = caret;
+    while (to < input.length && (inQuotes || !isSpace(input[to]))) {
+        if (input[to] === '"') inQuotes = !inQuotes;
+        to++;
+    }
+    const typed = input.slice(from, caret);
+    const sign = typed.startsWith('-') ? '-' : '';
+    const word = typed.slice(sign.length);
+
+    const fieldMatch = /^([a-z]+):(<=|>=|<|>|=)?"?(.*)$/i.exec(word);
+    let options: SearchCompletion['options'];
+    if (fieldMatch) {
+        const [, name, comparison = '', prefix] = fieldMatch;
+        const field = FIELD_ALIASES[name.toLowerCase()];
+        const values = field === 'system' ? sources.gameSystems
+            : field === 'army' ? sources.armies
+            : field === 'status' ? sources.statuses
+            : [];
+        const needle = prefix.replace(/\\(.)/g, '$1').toLowerCase();
+        options = values
+            .filter(value => value.toLowerCase().includes(needle) && value.toLowerCase() !== needle)
+            .map(value => ({ label: value, text: `${sign}${name}:${comparison}${quoteSearchValue(value)} ` }));
+    } else if (/^[a-z]+$/i.test(word)) {
+        options = SEARCH_FIELDS
+            .filter(field => field.startsWith(word.toLowerCase()))
+            .map(field => ({ label: `${field}:`, text: `${sign}${field}:` }));
+    } else {
+        return null;
+    }
+    return options.length > 0 ? { from, to, options: options.slice(0, MAX_COMPLETIONS) } : null;
+}
@@ -0,0 +1,67 @@
+import { Miniature, Status, WorkflowStage } from "../types";
+import { DEFAULT_STAGES, UNKNOWN_STAGE_COLOR } from "../constants";
+
+// The workflow of each game system, keyed by game system name.
+export type Workflows = Record<string, WorkflowStage[]>;
+
+/**
+ * The ordered stages of a game system, or the default workflow if it has none of its own.
+ */
+export const stagesFor = (workflows: Workflows, gameSystem: string): WorkflowStage[] =>
+    workflows[gameSystem] || DEFAULT_STAGES;
+
+const findStage = (workflows: Workflows, gameSystem: string, status: Status) =>
+    stagesFor(workflows, gameSystem).find(stage => stage.name === status);
+
+/**
+ * The color of a status within its game system's workflow.
+ */
+export const stageColor = (workflows: Workflows, gameSystem: string, status: Status): string =>
+    findStage(workflows, gameSystem, status)?.color || UNKNOWN_STAGE_COLOR;
+
+/**
+ * How far through its workflow a miniature is, from just above 0 (first stage) to 1 (last
+ * stage). Workflows have different lengths, so progress is compared as a fraction.
+ * Statuses that are not in the workflow count as 0.
+ */
+export const stageProgress = (workflows: Workflows, gameSystem: string, status: Status): number => {
+    const stages = stagesFor(workflows, gameSystem);
+    const index = stages.findIndex(stage => stage.name === status);
+    return index === -1 ? 0 : (index + 1) / stages.length;
+};
+
+/**
+ * Whether a miniature's status counts as painted in its game system's workflow.
+ */
+export const isPainted = (workflows: Workflows, miniature: Pick<Miniature, 'gameSystem' | 'status'>): boolean =>
+    !!findStage(workflows, miniature.gameSystem, miniature.status)?.countsAsPainted;
+
+/**
+ * Merges the workflows of several game systems into one ordered list of stages, for views
+ * that span systems. A stage name shared by several systems appears once, with the color of
+ * the first system that has it; stages keep the relative order they have in their workflows.
+ */
+export function combinedStages(workflows: Workflows, gameSystems: string[]): WorkflowStage[] {
+    const combined: WorkflowStage[] = [];
+    const systems = gameSystems.length > 0 ? gameSystems : [''];
+    systems.forEach(gameSystem => {
+        const stages = stagesFor(workflows, gameSystem);
+        // Position of the previous stage of this workflow in the combined list.
+        let previous = -1;
+        stages.forEach((stage, index) => {
+            const existing = combined.findIndex(s => s.name === stage.name);
+            if (existing !== -1) {
+                previous = Math.max(previous, existing);
+                return;
+            }
+            // Insert a new stage just before the next stage of this workflow that is already listed.
+            const nextShared = stages.slice(index + 1)
+                .map(later => combined.findIndex(s => s.name === later.name))
+                .find(position => position > previous);
+            const insertAt = nextShared ?? combined.length;
+            combined.splice(insertAt, 0, stage);
+            previous = insertAt;
+        });
+    });
+    return combined;
+}